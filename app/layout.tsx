@@ -1,5 +1,6 @@
 import type { Metadata } from 'next'
 import './globals.css'
+import { Toaster } from '@/components/ui/sonner'
 
 export const metadata: Metadata = {
   title: 'Image Text Composer',
@@ -39,7 +40,10 @@ export default function RootLayout({
         <link href="https://fonts.googleapis.com/css2?family=Source+Code+Pro:ital,wght@0,200..900;1,200..900&display=swap" rel="stylesheet" />
         <link href="https://fonts.googleapis.com/css2?family=JetBrains+Mono:ital,wght@0,100..800;1,100..800&display=swap" rel="stylesheet" />
       </head>
-      <body className="antialiased" suppressHydrationWarning={true}>{children}</body>
+      <body className="antialiased" suppressHydrationWarning={true}>
+        {children}
+        <Toaster />
+      </body>
     </html>
   )
 }
@@ -1,39 +1,107 @@
 "use client"
 
 import type React from "react"
-import { useState, useRef, useCallback, useEffect } from "react"
+import { useState, useRef, useCallback, useEffect, useMemo } from "react"
 import { Button } from "@/components/ui/button"
 import { Card } from "@/components/ui/card"
 import { Input } from "@/components/ui/input"
 import { Label } from "@/components/ui/label"
 import { Textarea } from "@/components/ui/textarea"
 import { Slider } from "@/components/ui/slider"
-import { Upload, RotateCcw, Type, Palette, Undo, Redo, History, Download, Save, FolderOpen } from "lucide-react"
-import { useEditorStore } from "@/lib/editor-store"
+import { Upload, RotateCcw, Type, Palette, Undo, Redo, History, Download, Save, FolderOpen, Link, Library, Lock, Cloud, CloudOff, Clock, Eye, Copy, Trash2, Magnet, Ruler, Grid3x3 } from "lucide-react"
+import { useEditorStore, type TextLayer } from "@/lib/editor-store"
 import { FontSelector } from "@/components/font-selector"
 import { ExportManager } from "@/lib/export-manager"
-import { AutosaveManager } from "@/lib/autosave-manager"
+import { AutosaveManager, type AutosaveConflict, type AutosaveError } from "@/lib/autosave-manager"
+import { TabCoordinator, type ProjectOwner } from "@/lib/tab-coordinator"
 import { CanvasWrapper } from "@/components/canvas-wrapper"
+import { UrlImportDialog } from "@/components/url-import-dialog"
+import { ProjectBrowser } from "@/components/project-browser"
+import { StorageUsageIndicator } from "@/components/storage-usage-indicator"
+import { VersionHistoryPanel } from "@/components/version-history-panel"
+import { HistoryPanel } from "@/components/history-panel"
+import { AlignmentControls } from "@/components/alignment-controls"
+import { ZoomControls } from "@/components/zoom-controls"
+import { GuideOverlay } from "@/components/guide-overlay"
+import { GuidesPanel } from "@/components/guides-panel"
+import { TextBoxControls } from "@/components/text-box-controls"
+import { useViewport } from "@/hooks/use-viewport"
+import { VersionHistory, type ProjectVersion } from "@/lib/version-history"
+import {
+  decodeImageFile,
+  getAcceptedImageTypes,
+  isSupportedImageFile,
+  describeMimeType,
+  toImageData,
+  type DecodedImage,
+  DEFAULT_SVG_RASTER_SIZE,
+  SVG_RASTER_SIZES,
+} from "@/lib/image-decoder"
+import { ClipboardManager } from "@/lib/clipboard-manager"
+import { AssetStore } from "@/lib/asset-store"
+import { BUNDLE_EXTENSION } from "@/lib/project-bundle"
+import { ProjectValidationError } from "@/lib/project-schema"
+import { ProjectLibrary, type ProjectRecord } from "@/lib/project-library"
+import { hydrateDocument, type HydratedDocument } from "@/lib/project-document"
+import { DEFAULT_GRID, getSnapLines } from "@/lib/guides"
+import { screenToDocument } from "@/lib/viewport"
+import { createTextLayer, estimateTextWidth, pickTextStyle, DEFAULT_TEXT_STYLE, type TextStyle } from "@/lib/text-style"
+import { toast } from "sonner"
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog"
+
+// Versions are named by their label, or by when they were taken
+const describeVersion = (version: ProjectVersion) => version.label ?? new Date(version.createdAt).toLocaleString()
 
 export default function ImageTextComposer() {
   const [isClient, setIsClient] = useState(false)
 
   // Replace local state with Zustand store
   const {
-    present: { imageData, textLayers, selectedLayerId, snapGuides, customFonts },
+    present: { imageData, textLayers, customFonts, guides, grid },
+    selectedLayerId,
+    selectedLayerIds,
+    snapGuides,
+    snapEnabled,
+    snapThreshold,
+    showRulers,
+    past,
+    future,
     setImageData,
+    loadDocument,
+    beginGesture,
+    endGesture,
     addTextLayer,
+    addTextLayers,
     updateTextLayer,
-    deleteTextLayer,
+    updateTextLayers,
+    deleteTextLayers,
     moveLayerUp,
     moveLayerDown,
     bringToFront,
     sendToBack,
-    duplicateLayer,
-    toggleLayerLock,
+    duplicateLayers,
+    setLayersLocked,
     toggleLayerVisibility,
     setSelectedLayerId,
+    setSelectedLayerIds,
+    toggleLayerSelection,
     setSnapGuides,
+    setSnapEnabled,
+    setSnapThreshold,
+    setShowRulers,
+    addGuide,
+    updateGuide,
+    removeGuide,
+    setGrid,
     addCustomFont,
     removeCustomFont,
     undo,
@@ -41,13 +109,40 @@ export default function ImageTextComposer() {
     canUndo,
     canRedo,
     getHistoryInfo,
+    jumpToStep,
+    getStateAtStep,
+    clearHistory,
     reset,
   } = useEditorStore()
 
   // Added export and autosave state
   const [isExporting, setIsExporting] = useState(false)
-  const [showAutosaveRestore, setShowAutosaveRestore] = useState(false)
+  const [activeProject, setActiveProject] = useState<ProjectRecord | null>(null)
+  const [showProjectBrowser, setShowProjectBrowser] = useState(false)
+  // Another tab owns the active project: edits here are not saved
+  const [isReadOnly, setIsReadOnly] = useState(false)
+  const [projectOwner, setProjectOwner] = useState<ProjectOwner | null>(null)
+  const [showOwnershipPrompt, setShowOwnershipPrompt] = useState(false)
+  const [autosaveConflict, setAutosaveConflict] = useState<AutosaveConflict | null>(null)
+  // When the active project was last written to storage, and why the latest save failed
+  const [lastSuccessfulSave, setLastSuccessfulSave] = useState<Date | null>(null)
+  const [autosaveError, setAutosaveError] = useState<AutosaveError | null>(null)
+  const [sidePanel, setSidePanel] = useState<"history" | "versions" | null>(null)
+  // History step hovered in the history panel, previewed on the canvas
+  const [historyPreviewStep, setHistoryPreviewStep] = useState<number | null>(null)
+  // A stored version shown on the canvas instead of the current document
+  const [previewVersion, setPreviewVersion] = useState<{ version: ProjectVersion; document: HydratedDocument } | null>(
+    null,
+  )
+  const [versionsRefreshKey, setVersionsRefreshKey] = useState(0)
   const [isDragOver, setIsDragOver] = useState(false)
+  const [svgRasterSize, setSvgRasterSize] = useState(DEFAULT_SVG_RASTER_SIZE)
+  const [pendingPastedImage, setPendingPastedImage] = useState<File | null>(null)
+  const [showUrlImport, setShowUrlImport] = useState(false)
+  const lastTextStyleRef = useRef<TextStyle>(DEFAULT_TEXT_STYLE)
+  // Document as it was loaded, so opening a project does not count as an edit
+  const loadedDocumentRef = useRef<HydratedDocument | null>(null)
+  const activeProjectIdRef = useRef<string | null>(null)
   const projectImportRef = useRef<HTMLInputElement>(null)
 
   const fileInputRef = useRef<HTMLInputElement>(null)
@@ -55,29 +150,393 @@ export default function ImageTextComposer() {
   const transformerRef = useRef<any>(null)
 
   const selectedLayer = textLayers.find((layer) => layer.id === selectedLayerId)
+  const selectedLayers = useMemo(
+    () => textLayers.filter((layer) => selectedLayerIds.includes(layer.id)),
+    [textLayers, selectedLayerIds],
+  )
+
+  // Apply a change to every selected layer as one undo step; pass a function for per-layer values such as nudges
+  const updateSelectedLayers = useCallback(
+    (updates: Partial<TextLayer> | ((layer: TextLayer) => Partial<TextLayer>)) => {
+      if (selectedLayers.length === 0) return
+      updateTextLayers(
+        Object.fromEntries(
+          selectedLayers.map((layer) => [layer.id, typeof updates === "function" ? updates(layer) : updates]),
+        ),
+      )
+    },
+    [selectedLayers, updateTextLayers],
+  )
+  // A slider drag is one undo step. Radix only commits a changed value, so the gesture
+  // ends on release instead, or a click that changes nothing would leave it open.
+  const sliderGestureProps = {
+    onPointerDown: beginGesture,
+    onPointerUp: endGesture,
+    onLostPointerCapture: endGesture,
+  }
+
+  // Guides and the visible grid are snap targets while dragging layers
+  const snapLines = useMemo(() => (imageData ? getSnapLines(guides, grid, imageData) : undefined), [guides, grid, imageData])
+
+  // Editing is paused while another tab owns the project or a version is previewed
+  const isEditingLocked = isReadOnly || !!previewVersion
+
+  const historyPreview = useMemo(
+    () => (historyPreviewStep !== null ? getStateAtStep(historyPreviewStep) : null),
+    // Recompute when the history itself changes
+    [historyPreviewStep, getStateAtStep, past, future],
+  )
+  // Document shown on the canvas instead of the current one, read-only
+  const canvasPreview = previewVersion?.document ?? historyPreview
   const historyInfo = getHistoryInfo()
 
+  // Zoom and pan of whichever image the canvas shows. Layers use image pixels,
+  // so one document unit is one image pixel.
+  const viewportImage = canvasPreview ? canvasPreview.imageData : imageData
+  const {
+    containerRef: viewportRef,
+    containerSize: viewportSize,
+    viewport,
+    zoom,
+    preset: zoomPreset,
+    applyPreset: applyZoomPreset,
+    zoomBy,
+    zoomIn,
+    zoomOut,
+    panBy,
+  } = useViewport(
+    viewportImage ? { width: viewportImage.width, height: viewportImage.height } : null,
+    1,
+  )
+
+  // Zoom shortcuts work in every mode, including previews
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (!(event.ctrlKey || event.metaKey) || !viewportImage) return
+      if (event.key === "=" || event.key === "+") {
+        event.preventDefault()
+        zoomIn()
+      } else if (event.key === "-") {
+        event.preventDefault()
+        zoomOut()
+      } else if (event.key === "0") {
+        event.preventDefault()
+        applyZoomPreset("fit")
+      } else if (event.key === "1") {
+        event.preventDefault()
+        applyZoomPreset("actual")
+      }
+    }
+    window.addEventListener("keydown", handleKeyDown)
+    return () => window.removeEventListener("keydown", handleKeyDown)
+  }, [viewportImage, zoomIn, zoomOut, applyZoomPreset])
+
+  // Remember the style of the layer being worked on for pasted text
+  useEffect(() => {
+    if (selectedLayer) {
+      lastTextStyleRef.current = pickTextStyle(selectedLayer)
+    }
+  }, [selectedLayer])
+
   useEffect(() => {
     setIsClient(true)
   }, [])
 
-  // Added autosave effect
+  // Load a project's latest saved document into the editor with a fresh history
+  const loadProjectDocument = useCallback(
+    async (projectId: string) => {
+      const saved = await AutosaveManager.openState(projectId)
+      const document = saved
+        ? await hydrateDocument(saved)
+        : { imageData: null, textLayers: [], customFonts: [], guides: [], grid: DEFAULT_GRID, missingImage: false }
+
+      if (document.missingImage) {
+        toast.warning("Background image could not be restored", {
+          description: "The stored image is no longer available in this browser.",
+        })
+      }
+
+      loadedDocumentRef.current = document
+      loadDocument(document, { resetHistory: true })
+      setLastSuccessfulSave(saved ? new Date(saved.timestamp) : null)
+      setAutosaveError(null)
+    },
+    [loadDocument],
+  )
+
+  const openProject = useCallback(
+    async (project: ProjectRecord) => {
+      await AutosaveManager.flush()
+
+      const previousId = activeProjectIdRef.current
+      if (previousId && previousId !== project.id) {
+        TabCoordinator.release(previousId)
+      }
+
+      // Open read-only if another tab is already editing this project
+      const owned = TabCoordinator.claim(project.id)
+      activeProjectIdRef.current = project.id
+      setIsReadOnly(!owned)
+      setProjectOwner(owned ? null : TabCoordinator.getOwner(project.id))
+      setShowOwnershipPrompt(!owned)
+      setAutosaveConflict(null)
+      setPreviewVersion(null)
+
+      await loadProjectDocument(project.id)
+      ProjectLibrary.setActiveProjectId(project.id)
+      setActiveProject(project)
+      setShowProjectBrowser(false)
+    },
+    [loadProjectDocument],
+  )
+
+  // Take editing over from another tab, starting from its latest save
+  const handleTakeOver = useCallback(async () => {
+    if (!activeProject) return
+
+    TabCoordinator.takeOver(activeProject.id)
+    setIsReadOnly(false)
+    setProjectOwner(null)
+    setShowOwnershipPrompt(false)
+    await loadProjectDocument(activeProject.id)
+  }, [activeProject, loadProjectDocument])
+
+  const handleResolveConflict = useCallback(
+    async (resolution: "overwrite" | "discard") => {
+      if (!autosaveConflict) return
+
+      await AutosaveManager.resolveConflict(autosaveConflict.projectId, resolution)
+      setAutosaveConflict(null)
+      if (resolution === "discard") {
+        await loadProjectDocument(autosaveConflict.projectId)
+      }
+    },
+    [autosaveConflict, loadProjectDocument],
+  )
+
+  const handleCreateProject = useCallback(async () => {
+    try {
+      await openProject(await ProjectLibrary.create())
+    } catch (error) {
+      console.error("Failed to create project:", error)
+      toast.error("Could not create project")
+    }
+  }, [openProject])
+
+  // The active project was renamed or deleted from the project browser
+  const handleActiveProjectChanged = useCallback(
+    async (project: ProjectRecord | null) => {
+      if (project) {
+        setActiveProject(project)
+      } else {
+        await openProject(await ProjectLibrary.ensureActiveProject())
+      }
+    },
+    [openProject],
+  )
+
+  // Open the last active project on startup
+  useEffect(() => {
+    if (!isClient) return
+
+    ProjectLibrary.ensureActiveProject()
+      .then(openProject)
+      .catch((error) => {
+        console.error("Failed to open project library:", error)
+        toast.error("Project library unavailable", {
+          description: "Your work cannot be saved in this browser.",
+        })
+      })
+  }, [isClient, openProject])
+
+  // Added autosave effect: edits are saved into the active project
   useEffect(() => {
-    if (isClient) {
-      AutosaveManager.saveState(imageData, textLayers, customFonts)
+    if (!isClient || !activeProject || isReadOnly) return
+
+    const loaded = loadedDocumentRef.current
+    if (
+      loaded &&
+      loaded.imageData === imageData &&
+      loaded.textLayers === textLayers &&
+      loaded.customFonts === customFonts &&
+      loaded.guides === guides &&
+      loaded.grid === grid
+    ) {
+      return
     }
-  }, [imageData, textLayers, customFonts, isClient])
+    loadedDocumentRef.current = null
+    AutosaveManager.saveState(activeProject.id, { imageData, textLayers, customFonts, guides, grid })
+  }, [imageData, textLayers, customFonts, guides, grid, isClient, activeProject, isReadOnly])
+
+  // Follow ownership changes of the active project made in other tabs
+  useEffect(() => {
+    if (!activeProject) return
+
+    return TabCoordinator.subscribe((projectId, owner) => {
+      if (projectId !== activeProject.id) return
+
+      if (owner && owner.tabId !== TabCoordinator.tabId) {
+        if (!isReadOnly) {
+          // Save what we have before handing over
+          void AutosaveManager.flush()
+          setIsReadOnly(true)
+          setPreviewVersion(null)
+          toast.warning("Another tab took over this project", {
+            description: "This tab is now read-only.",
+          })
+        }
+        setProjectOwner(owner)
+      } else if (isReadOnly) {
+        setProjectOwner(null)
+      }
+    })
+  }, [activeProject, isReadOnly])
+
+  // Read-only tabs mirror the owner's saves
+  useEffect(() => {
+    if (!activeProject || !isReadOnly) return
+
+    return AutosaveManager.subscribeToRemoteSaves((projectId) => {
+      if (projectId === activeProject.id) {
+        loadProjectDocument(projectId)
+      }
+    })
+  }, [activeProject, isReadOnly, loadProjectDocument])
+
+  // Ask before this tab's edits replace a newer save from another tab
+  useEffect(() => {
+    return AutosaveManager.subscribeToConflicts((conflict) => {
+      if (conflict.projectId === activeProjectIdRef.current) {
+        setAutosaveConflict(conflict)
+      }
+    })
+  }, [])
+
+  // Warn, without interrupting, when work could not be saved
+  useEffect(() => {
+    return AutosaveManager.subscribeToFailures((projectId, error) => {
+      if (projectId !== activeProjectIdRef.current) return
+
+      setAutosaveError(error)
+      toast.warning("Your changes are not being saved", {
+        id: "autosave-failure",
+        description:
+          error.code === "quota-exceeded"
+            ? "Browser storage is full. Delete old projects or save a project file to keep your work."
+            : `Browser storage is unavailable: ${error.message}`,
+      })
+    })
+  }, [])
 
-  // Added autosave restore check on mount
+  // Keep the project's modification time and thumbnail current after each save
   useEffect(() => {
-    if (isClient && AutosaveManager.hasSavedState()) {
-      setShowAutosaveRestore(true)
+    return AutosaveManager.subscribe(async (projectId, data) => {
+      // The store only holds this save's document while its project is the active one
+      if (projectId !== activeProjectIdRef.current) {
+        ProjectLibrary.recordSave(projectId, data.timestamp).catch((error) =>
+          console.error("Failed to update project library:", error),
+        )
+        return
+      }
+
+      setLastSuccessfulSave(new Date(data.timestamp))
+      setAutosaveError(null)
+
+      // Captured before rendering, since another project may be opened meanwhile
+      const document = useEditorStore.getState().present
+      let thumbnail: Blob | null = null
+      try {
+        thumbnail = document.imageData ? await ExportManager.renderThumbnail(document.imageData, document.textLayers) : null
+      } catch (error) {
+        console.warn("Could not render project thumbnail:", error)
+      }
+      ProjectLibrary.recordSave(projectId, data.timestamp, thumbnail).catch((error) =>
+        console.error("Failed to update project library:", error),
+      )
+
+      VersionHistory.recordAutoVersion(projectId, document, thumbnail)
+        .then((version) => version && setVersionsRefreshKey((key) => key + 1))
+        .catch((error) => console.error("Failed to record version:", error))
+    })
+  }, [])
+
+  const handlePreviewVersion = useCallback(async (version: ProjectVersion | null) => {
+    if (!version) {
+      setPreviewVersion(null)
+      return
     }
-  }, [isClient])
+    setSelectedLayerId(null)
+    setPreviewVersion({ version, document: await hydrateDocument(version.document) })
+  }, [setSelectedLayerId])
+
+  const handleCreateVersion = useCallback(
+    async (label: string) => {
+      if (!activeProject) return
+      try {
+        const thumbnail = imageData ? await ExportManager.renderThumbnail(imageData, textLayers) : null
+        await VersionHistory.create(
+          activeProject.id,
+          { imageData, textLayers, customFonts, guides, grid },
+          { label, thumbnail },
+        )
+        toast.success("Version saved")
+      } catch (error) {
+        console.error("Failed to save version:", error)
+        toast.error("Could not save version")
+      }
+    },
+    [activeProject, imageData, textLayers, customFonts, guides, grid],
+  )
+
+  // Replace the current document with a version; keeps a version of the replaced state and is undoable
+  const handleRestoreVersion = useCallback(
+    async (version: ProjectVersion) => {
+      if (!activeProject) return
+      try {
+        const thumbnail = imageData ? await ExportManager.renderThumbnail(imageData, textLayers) : null
+        await VersionHistory.create(
+          activeProject.id,
+          { imageData, textLayers, customFonts, guides, grid },
+          { label: `Before restoring ${describeVersion(version)}`, thumbnail },
+        )
+        loadDocument(await hydrateDocument(version.document), { label: `Restored ${describeVersion(version)}` })
+        setPreviewVersion(null)
+        setVersionsRefreshKey((key) => key + 1)
+        toast.success(`Restored ${describeVersion(version)}`)
+      } catch (error) {
+        console.error("Failed to restore version:", error)
+        toast.error("Could not restore version")
+      }
+    },
+    [activeProject, imageData, textLayers, customFonts, guides, grid, loadDocument],
+  )
+
+  // Open a version as a new project, leaving the current one untouched
+  const handleRestoreVersionAsCopy = useCallback(
+    async (version: ProjectVersion) => {
+      if (!activeProject) return
+      try {
+        const copy = await ProjectLibrary.create(`${activeProject.name} (${describeVersion(version)})`, {
+          ...version.document,
+          timestamp: Date.now(),
+        })
+        await ProjectLibrary.recordSave(copy.id, copy.updatedAt, version.thumbnail)
+        await openProject({ ...copy, thumbnail: version.thumbnail })
+        toast.success("Version restored as a new project")
+      } catch (error) {
+        console.error("Failed to restore version as copy:", error)
+        toast.error("Could not restore version as a copy")
+      }
+    },
+    [activeProject, openProject],
+  )
 
   // Keyboard shortcuts for layer manipulation
   useEffect(() => {
     const handleKeyDown = (event: KeyboardEvent) => {
+      // Another tab owns the project or a version is being previewed
+      if (isEditingLocked) return
+
       // Don't handle keyboard shortcuts when user is typing in input fields
       const target = event.target as HTMLElement
       if (target && (
@@ -102,6 +561,16 @@ export default function ImageTextComposer() {
           redo()
           return
         }
+        if (event.key === 'a') {
+          event.preventDefault()
+          setSelectedLayerIds(textLayers.filter((layer) => layer.visible && !layer.locked).map((layer) => layer.id))
+          return
+        }
+        if (event.key === 'd' && selectedLayerIds.length > 0) {
+          event.preventDefault()
+          duplicateLayers(selectedLayerIds)
+          return
+        }
       }
 
       // Only handle keyboard events when a layer is selected
@@ -116,27 +585,27 @@ export default function ImageTextComposer() {
 
       switch (event.key) {
         case 'ArrowUp':
-          updateTextLayer(selectedLayerId, { y: selectedLayer.y - nudgeAmount })
+          updateSelectedLayers((layer) => ({ y: layer.y - nudgeAmount }))
           break
         case 'ArrowDown':
-          updateTextLayer(selectedLayerId, { y: selectedLayer.y + nudgeAmount })
+          updateSelectedLayers((layer) => ({ y: layer.y + nudgeAmount }))
           break
         case 'ArrowLeft':
-          updateTextLayer(selectedLayerId, { x: selectedLayer.x - nudgeAmount })
+          updateSelectedLayers((layer) => ({ x: layer.x - nudgeAmount }))
           break
         case 'ArrowRight':
-          updateTextLayer(selectedLayerId, { x: selectedLayer.x + nudgeAmount })
+          updateSelectedLayers((layer) => ({ x: layer.x + nudgeAmount }))
           break
         case 'Delete':
         case 'Backspace':
-          deleteTextLayer(selectedLayerId)
+          deleteTextLayers(selectedLayerIds)
           break
         case 'r':
         case 'R':
           // Reset rotation
           if (event.shiftKey) {
             event.preventDefault()
-            updateTextLayer(selectedLayerId, { rotation: 0 })
+            updateSelectedLayers({ rotation: 0 })
           }
           break
         case 's':
@@ -144,7 +613,7 @@ export default function ImageTextComposer() {
           // Reset scale
           if (event.shiftKey) {
             event.preventDefault()
-            updateTextLayer(selectedLayerId, { scaleX: 1, scaleY: 1 })
+            updateSelectedLayers({ scaleX: 1, scaleY: 1 })
           }
           break
         case 'PageDown':
@@ -181,7 +650,19 @@ export default function ImageTextComposer() {
     return () => {
       window.removeEventListener('keydown', handleKeyDown)
     }
-  }, [selectedLayerId, selectedLayer, updateTextLayer, deleteTextLayer, undo, redo])
+  }, [
+    selectedLayerId,
+    selectedLayer,
+    selectedLayerIds,
+    textLayers,
+    updateSelectedLayers,
+    deleteTextLayers,
+    duplicateLayers,
+    setSelectedLayerIds,
+    undo,
+    redo,
+    isEditingLocked,
+  ])
 
   const handleExportPNG = useCallback(async () => {
     if (!imageData) {
@@ -200,10 +681,16 @@ export default function ImageTextComposer() {
     }
   }, [imageData, textLayers])
 
-  const handleExportProject = useCallback(() => {
-    const filename = `project-${new Date().toISOString().slice(0, 10)}.json`
-    ExportManager.exportProjectData(imageData, textLayers, filename)
-  }, [imageData, textLayers])
+  const handleExportProject = useCallback(async () => {
+    const filename = `project-${new Date().toISOString().slice(0, 10)}${BUNDLE_EXTENSION}`
+    try {
+      await ExportManager.exportProjectBundle({ imageData, textLayers, customFonts, guides, grid }, filename)
+    } catch (error) {
+      toast.error("Could not save project", {
+        description: error instanceof Error ? error.message : "Please try again.",
+      })
+    }
+  }, [imageData, textLayers, customFonts, guides, grid])
 
   const handleImportProject = useCallback(
     async (event: React.ChangeEvent<HTMLInputElement>) => {
@@ -211,96 +698,101 @@ export default function ImageTextComposer() {
       if (!file) return
 
       try {
-        const { imageData: importedImageData, textLayers: importedTextLayers } =
-          await ExportManager.importProjectData(file)
-
-        reset()
-        if (importedImageData) {
-          setImageData(importedImageData)
+        const {
+          imageData: importedImageData,
+          textLayers: importedTextLayers,
+          customFonts: importedCustomFonts,
+          guides: importedGuides,
+          grid: importedGrid,
+          missingImage,
+        } = await ExportManager.importProjectData(file)
+
+        if (missingImage) {
+          toast.warning("Background image not found", {
+            description: "This project references an image that is not stored in this browser.",
+          })
         }
-        importedTextLayers.forEach((layer) => addTextLayer(layer))
+
+        loadDocument(
+          {
+            imageData: importedImageData,
+            textLayers: importedTextLayers,
+            customFonts: importedCustomFonts,
+            guides: importedGuides,
+            grid: importedGrid,
+          },
+          { label: `Imported ${file.name}` },
+        )
       } catch (error) {
-        alert(error instanceof Error ? error.message : "Import failed")
+        console.error("Project import failed:", error)
+        if (error instanceof ProjectValidationError && error.issues.length > 0) {
+          toast.error(error.message, {
+            description: (
+              <ul className="list-disc pl-4">
+                {error.issues.slice(0, 5).map((issue, index) => (
+                  <li key={index}>
+                    <code>{issue.path || "project"}</code>: {issue.message}
+                  </li>
+                ))}
+              </ul>
+            ),
+          })
+        } else {
+          toast.error("Could not open project", {
+            description: error instanceof Error ? error.message : "Import failed",
+          })
+        }
       }
 
       if (projectImportRef.current) {
         projectImportRef.current.value = ""
       }
     },
-    [reset, setImageData, addTextLayer],
+    [loadDocument],
   )
 
-  const handleRestoreAutosave = useCallback(() => {
-    const saved = AutosaveManager.loadState()
-    if (saved) {
-      reset()
-      if (saved.imageData) {
-        setImageData(saved.imageData)
+  // Persist the decoded bytes in the asset store so the background survives reloads
+  const commitDecodedImage = useCallback(
+    async (decoded: DecodedImage) => {
+      const nextImageData = toImageData(decoded)
+      try {
+        setImageData(await AssetStore.attachAsset(nextImageData, decoded.blob))
+      } catch (error) {
+        console.error("Failed to store image asset:", error)
+        toast.warning("Image could not be stored locally", {
+          description: "It will be shown now but lost after a reload.",
+        })
+        setImageData(nextImageData)
       }
-      saved.textLayers.forEach((layer) => addTextLayer(layer))
-      saved.customFonts.forEach((font) => addCustomFont(font))
-    }
-    setShowAutosaveRestore(false)
-  }, [reset, setImageData, addTextLayer, addCustomFont])
-
-  const handleDiscardAutosave = useCallback(() => {
-    AutosaveManager.clearSave()
-    setShowAutosaveRestore(false)
-  }, [])
+    },
+    [setImageData],
+  )
 
   const handleImageUpload = useCallback(
-    (file: File) => {
-      // Enhanced file validation
+    async (file: File) => {
       if (!file) {
         console.error("No file provided")
         return
       }
 
-      if (!file.type.includes("png")) {
-        alert("Please select a PNG file")
-        return
-      }
-
-      // Check file size (max 10MB)
-      if (file.size > 10 * 1024 * 1024) {
-        alert("File size too large. Please select a PNG file smaller than 10MB")
-        return
-      }
-
-      const img = new Image()
-      
-      img.onload = () => {
-        const maxDisplaySize = 800
-        const aspectRatio = img.width / img.height
-        let displayWidth = img.width
-        let displayHeight = img.height
-
-        if (img.width > maxDisplaySize || img.height > maxDisplaySize) {
-          if (aspectRatio > 1) {
-            displayWidth = maxDisplaySize
-            displayHeight = maxDisplaySize / aspectRatio
-          } else {
-            displayHeight = maxDisplaySize
-            displayWidth = maxDisplaySize * aspectRatio
-          }
-        }
-
-        setImageData({
-          src: img.src,
-          width: img.width,
-          height: img.height,
-          displayWidth: Math.round(displayWidth),
-          displayHeight: Math.round(displayHeight),
+      try {
+        const decoded = await decodeImageFile(file, { svgRasterSize })
+        await commitDecodedImage(decoded)
+      } catch (error) {
+        console.error("Image decode failed:", error)
+        toast.error("Could not open image", {
+          description: error instanceof Error ? error.message : "Please try again with a different file.",
         })
       }
+    },
+    [commitDecodedImage, svgRasterSize],
+  )
 
-      img.onerror = () => {
-        alert("Failed to load image. Please try again with a different PNG file.")
-      }
-
-      img.src = URL.createObjectURL(file)
+  const handleUrlImport = useCallback(
+    (decoded: DecodedImage) => {
+      commitDecodedImage(decoded)
     },
-    [setImageData],
+    [commitDecodedImage],
   )
 
   const handleFileInputChange = useCallback(
@@ -333,15 +825,92 @@ export default function ImageTextComposer() {
     setIsDragOver(false)
     
     const files = Array.from(e.dataTransfer.files)
-    const pngFile = files.find(file => file.type.includes('png'))
-    
-    if (pngFile) {
-      handleImageUpload(pngFile)
+    const imageFile = files.find((file) => isSupportedImageFile(file))
+
+    if (imageFile) {
+      handleImageUpload(imageFile)
     } else {
-      alert("Please drop a PNG file")
+      toast.error("Unsupported file", {
+        description: "Please drop a PNG, JPEG, WebP, AVIF, GIF, BMP or SVG image.",
+      })
     }
   }, [handleImageUpload])
 
+  const handleConfirmReplaceImage = useCallback(() => {
+    if (pendingPastedImage) {
+      handleImageUpload(pendingPastedImage)
+    }
+    setPendingPastedImage(null)
+  }, [pendingPastedImage, handleImageUpload])
+
+  // Clipboard: copy the selected layer, paste images, layers or plain text
+  useEffect(() => {
+    const isEditableTarget = (target: EventTarget | null) => {
+      const element = target as HTMLElement | null
+      return !!element && (
+        element.tagName === 'INPUT' ||
+        element.tagName === 'TEXTAREA' ||
+        element.isContentEditable
+      )
+    }
+
+    const handleCopy = (event: ClipboardEvent) => {
+      if (isEditableTarget(event.target) || !selectedLayer) return
+      ClipboardManager.copyLayer(selectedLayer, imageData, event)
+    }
+
+    const handlePaste = (event: ClipboardEvent) => {
+      if (isEditingLocked || isEditableTarget(event.target)) return
+
+      const content = ClipboardManager.readPasteEvent(event)
+      if (!content) return
+      event.preventDefault()
+
+      if (content.kind === "image") {
+        if (imageData) {
+          setPendingPastedImage(content.file)
+        } else {
+          handleImageUpload(content.file)
+        }
+        return
+      }
+
+      if (!imageData) {
+        toast.info("Add a background image before pasting text")
+        return
+      }
+
+      if (content.kind === "layers") {
+        const stamp = Date.now()
+        addTextLayers(
+          content.layers.map((layer, index) => ({ ...layer, id: `text-${stamp}-${index}`, x: layer.x + 20, y: layer.y + 20 })),
+        )
+        return
+      }
+
+      // Plain text becomes a new layer centered in the view, in the last-used style.
+      // Before the view has been measured, the image centre stands in for it.
+      const style = lastTextStyleRef.current
+      const lines = content.text.split("\n")
+      const width = estimateTextWidth(content.text, style.fontSize)
+      const height = style.fontSize * style.lineHeight * lines.length
+      const center = viewportSize
+        ? screenToDocument(viewport, { x: viewportSize.width / 2, y: viewportSize.height / 2 })
+        : { x: imageData.width / 2, y: imageData.height / 2 }
+      addTextLayer(
+        createTextLayer(content.text, Math.round(center.x - width / 2), Math.round(center.y - height / 2), style),
+      )
+    }
+
+    window.addEventListener('copy', handleCopy)
+    window.addEventListener('paste', handlePaste)
+
+    return () => {
+      window.removeEventListener('copy', handleCopy)
+      window.removeEventListener('paste', handlePaste)
+    }
+  }, [imageData, selectedLayer, addTextLayer, addTextLayers, handleImageUpload, isEditingLocked, viewport, viewportSize])
+
   const triggerFileInput = useCallback(() => {
     // Force the file input to work by clearing it first
     if (fileInputRef.current) {
@@ -353,37 +922,16 @@ export default function ImageTextComposer() {
   const handleAddTextLayer = useCallback(() => {
     if (!imageData) return
 
-    const newLayer = {
-      id: `text-${Date.now()}`,
-      text: "New Text",
-      x: 50,
-      y: 50,
-      fontSize: 24,
-      fontFamily: "Arial",
-      fontWeight: "normal",
-      fill: "#000000",
-      fontStyle: "normal" as const,
-      textDecoration: "",
-      align: "left" as const,
-      opacity: 1,
-      rotation: 0,
-      scaleX: 1,
-      scaleY: 1,
-      lineHeight: 1.2,
-      letterSpacing: 0,
-      shadowColor: "#000000",
-      shadowBlur: 0,
-      shadowOffsetX: 0,
-      shadowOffsetY: 0,
-      shadowOpacity: 0,
-      locked: false,
-      visible: true,
-      zIndex: 0, // Will be set by the store
-    }
+    // Layers live in image pixels, so size the default text for how large the image is shown
+    const offset = Math.round(50 / zoom)
+    const newLayer = createTextLayer("New Text", offset, offset, {
+      ...DEFAULT_TEXT_STYLE,
+      fontSize: Math.max(1, Math.round(DEFAULT_TEXT_STYLE.fontSize / zoom)),
+    })
 
     addTextLayer(newLayer)
     setSelectedLayerId(newLayer.id)
-  }, [imageData, addTextLayer, setSelectedLayerId])
+  }, [imageData, zoom, addTextLayer, setSelectedLayerId])
 
   const handleReset = useCallback(() => {
     reset()
@@ -402,39 +950,70 @@ export default function ImageTextComposer() {
 
   return (
     <div className="h-screen bg-gray-50 flex flex-col overflow-hidden">
-      {/* Added autosave restore notification */}
-      {showAutosaveRestore && (
-        <div className="bg-blue-50 border-b border-blue-200 p-3">
-          <div className="flex items-center justify-between">
-            <div className="flex items-center gap-2">
-              <Save className="w-4 h-4 text-blue-600" />
-              <span className="text-sm text-blue-800">
-                Found autosaved work from {AutosaveManager.getSaveTimestamp()?.toLocaleString()}
-              </span>
-            </div>
-            <div className="flex items-center gap-2">
-              <Button size="sm" onClick={handleRestoreAutosave}>
-                Restore
-              </Button>
-              <Button size="sm" variant="outline" onClick={handleDiscardAutosave}>
-                Discard
-              </Button>
-            </div>
-          </div>
-        </div>
-      )}
-
       {/* Header Toolbar */}
       <div className="bg-white border-b border-gray-200 p-4">
         <div className="flex items-center justify-between">
-          <h1 className="text-2xl font-bold text-gray-900">Image Text Composer</h1>
+          <div className="flex items-center gap-3">
+            <h1 className="text-2xl font-bold text-gray-900">Image Text Composer</h1>
+            <Button
+              onClick={() => setShowProjectBrowser(true)}
+              variant="outline"
+              size="sm"
+              className="flex items-center gap-2 bg-transparent"
+              title="Browse projects"
+            >
+              <Library className="w-4 h-4" />
+              <span className="max-w-48 truncate">{activeProject?.name ?? "Projects"}</span>
+            </Button>
+            <Button
+              onClick={() => {
+                setSidePanel((panel) => (panel === "versions" ? null : "versions"))
+                setPreviewVersion(null)
+              }}
+              disabled={!activeProject || isReadOnly}
+              variant={sidePanel === "versions" ? "default" : "outline"}
+              size="sm"
+              className="flex items-center gap-2"
+              title="Version history"
+            >
+              <Clock className="w-4 h-4" />
+              Versions
+            </Button>
+            {activeProject && !isReadOnly && (
+              <span
+                className={`flex items-center gap-1 text-xs ${autosaveError ? "text-red-600" : "text-gray-500"}`}
+                title={autosaveError?.message}
+              >
+                {autosaveError ? <CloudOff className="w-3 h-3" /> : <Cloud className="w-3 h-3" />}
+                {autosaveError
+                  ? "Not saved"
+                  : lastSuccessfulSave
+                    ? `Saved ${lastSuccessfulSave.toLocaleTimeString()}`
+                    : "Not saved yet"}
+              </span>
+            )}
+          </div>
           <div className="flex items-center gap-2">
-            <Button onClick={triggerFileInput} className="flex items-center gap-2">
+            <Button onClick={triggerFileInput} disabled={isReadOnly} className="flex items-center gap-2">
               <Upload className="w-4 h-4" />
-              Upload PNG
+              Upload Image
+            </Button>
+            <Button
+              onClick={() => setShowUrlImport(true)}
+              disabled={isReadOnly}
+              variant="outline"
+              className="flex items-center gap-2 bg-transparent"
+            >
+              <Link className="w-4 h-4" />
+              Open URL
             </Button>
             {imageData && (
-              <Button onClick={handleAddTextLayer} variant="outline" className="flex items-center gap-2 bg-transparent">
+              <Button
+                onClick={handleAddTextLayer}
+                disabled={isReadOnly}
+                variant="outline"
+                className="flex items-center gap-2 bg-transparent"
+              >
                 <Type className="w-4 h-4" />
                 Add Text
               </Button>
@@ -444,7 +1023,7 @@ export default function ImageTextComposer() {
             <div className="flex items-center gap-1 border-l pl-2 ml-2">
               <Button
                 onClick={undo}
-                disabled={!canUndo()}
+                disabled={isReadOnly || !canUndo()}
                 variant="outline"
                 size="sm"
                 className="flex items-center gap-1 bg-transparent"
@@ -454,7 +1033,7 @@ export default function ImageTextComposer() {
               </Button>
               <Button
                 onClick={redo}
-                disabled={!canRedo()}
+                disabled={isReadOnly || !canRedo()}
                 variant="outline"
                 size="sm"
                 className="flex items-center gap-1 bg-transparent"
@@ -463,13 +1042,58 @@ export default function ImageTextComposer() {
                 <Redo className="w-4 h-4" />
               </Button>
 
-              {/* History indicator */}
-              <div className="flex items-center gap-1 px-2 py-1 bg-gray-100 rounded text-xs text-gray-600">
+              {/* History indicator, opens the history panel */}
+              <button
+                onClick={() => {
+                  setSidePanel((panel) => (panel === "history" ? null : "history"))
+                  setPreviewVersion(null)
+                }}
+                disabled={isReadOnly}
+                className={`flex items-center gap-1 px-2 py-1 rounded text-xs ${
+                  sidePanel === "history" ? "bg-blue-100 text-blue-800" : "bg-gray-100 text-gray-600 hover:bg-gray-200"
+                }`}
+                title="Show history"
+              >
                 <History className="w-3 h-3" />
                 <span>
                   {historyInfo.currentStep}/{historyInfo.totalSteps}
                 </span>
-              </div>
+              </button>
+            </div>
+
+            {/* Snapping toggle and threshold */}
+            <div className="flex items-center gap-1 border-l pl-2 ml-2">
+              <Button
+                onClick={() => setSnapEnabled(!snapEnabled)}
+                variant={snapEnabled ? "default" : "outline"}
+                size="sm"
+                className="flex items-center gap-1"
+                title={snapEnabled ? "Snapping on (hold Alt while dragging to skip)" : "Snapping off"}
+              >
+                <Magnet className="w-4 h-4" />
+              </Button>
+              <select
+                value={snapThreshold}
+                onChange={(e) => setSnapThreshold(Number(e.target.value))}
+                disabled={!snapEnabled}
+                className="px-2 py-1 border border-gray-300 rounded-md text-xs"
+                title="Snap distance"
+              >
+                {[2, 4, 6, 10, 16].map((threshold) => (
+                  <option key={threshold} value={threshold}>
+                    {threshold}px
+                  </option>
+                ))}
+              </select>
+              <Button
+                onClick={() => setShowRulers(!showRulers)}
+                variant={showRulers ? "default" : "outline"}
+                size="sm"
+                className="flex items-center gap-1"
+                title={showRulers ? "Hide rulers" : "Show rulers"}
+              >
+                <Ruler className="w-4 h-4" />
+              </Button>
             </div>
 
             {/* Added export controls */}
@@ -495,6 +1119,7 @@ export default function ImageTextComposer() {
                 </Button>
                 <Button
                   onClick={() => projectImportRef.current?.click()}
+                  disabled={isReadOnly}
                   variant="outline"
                   size="sm"
                   className="flex items-center gap-1"
@@ -505,7 +1130,12 @@ export default function ImageTextComposer() {
               </div>
             )}
 
-            <Button variant="outline" onClick={handleReset} className="flex items-center gap-2 bg-transparent">
+            <Button
+              variant="outline"
+              onClick={handleReset}
+              disabled={isReadOnly}
+              className="flex items-center gap-2 bg-transparent"
+            >
               <RotateCcw className="w-4 h-4" />
               Reset
             </Button>
@@ -513,9 +1143,28 @@ export default function ImageTextComposer() {
         </div>
       </div>
 
-            <div className="flex-1 flex h-full overflow-hidden">
+      {/* Read-only notice while another tab owns the project */}
+      {isReadOnly && (
+        <div className="bg-amber-50 border-b border-amber-200 px-4 py-2 flex items-center justify-between text-sm">
+          <div className="flex items-center gap-2 text-amber-800">
+            <Lock className="w-4 h-4" />
+            <span>
+              {projectOwner
+                ? `Read-only: this project is being edited in another tab (opened at ${new Date(projectOwner.openedAt).toLocaleTimeString()}).`
+                : "Read-only: the other tab has closed this project."}
+            </span>
+          </div>
+          <Button size="sm" variant="outline" onClick={handleTakeOver} className="bg-transparent">
+            Edit in this tab
+          </Button>
+        </div>
+      )}
+
+      <div className="flex-1 flex h-full overflow-hidden">
         {/* Left Sidebar - Properties Panel */}
-        <div className="w-80 bg-white border-r border-gray-200 flex flex-col h-full overflow-hidden">
+        <div
+          className={`w-80 bg-white border-r border-gray-200 flex flex-col h-full overflow-hidden ${isEditingLocked ? "pointer-events-none select-none opacity-75" : ""}`}
+        >
           <div className="p-4 border-b border-gray-200 bg-gray-50 flex-shrink-0">
             <h3 className="font-semibold text-gray-700">Properties Panel</h3>
           </div>
@@ -535,6 +1184,51 @@ export default function ImageTextComposer() {
 
             {selectedLayer ? (
               <div className="space-y-4">
+                {/* Actions on the whole selection */}
+                <div className="flex items-center justify-between gap-2">
+                  <span className="text-xs text-gray-500">
+                    {selectedLayers.length > 1 ? `${selectedLayers.length} layers selected` : "1 layer selected"}
+                  </span>
+                  <div className="flex gap-1">
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      className="h-7 w-7 p-0 bg-transparent"
+                      title="Duplicate (Ctrl+D)"
+                      onClick={() => duplicateLayers(selectedLayerIds)}
+                    >
+                      <Copy className="w-3 h-3" />
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      className="h-7 w-7 p-0 bg-transparent"
+                      title="Lock"
+                      onClick={() => setLayersLocked(selectedLayerIds, true)}
+                    >
+                      <Lock className="w-3 h-3" />
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      className="h-7 w-7 p-0 bg-transparent text-red-500 hover:text-red-700"
+                      title="Delete"
+                      onClick={() => deleteTextLayers(selectedLayerIds)}
+                    >
+                      <Trash2 className="w-3 h-3" />
+                    </Button>
+                  </div>
+                </div>
+
+                {imageData && (
+                  <AlignmentControls
+                    imageData={imageData}
+                    selectedLayers={selectedLayers}
+                    keyLayer={selectedLayer}
+                    onApply={(updates, label) => updateTextLayers(updates, { label })}
+                  />
+                )}
+
                 {/* Text Content */}
                 <div>
                   <Label htmlFor="text-content">Text Content</Label>
@@ -555,7 +1249,11 @@ export default function ImageTextComposer() {
                     <Input
                       type="number"
                       value={Math.round(selectedLayer.x || 0)}
-                      onChange={(e) => updateTextLayer(selectedLayer.id, { x: Number.parseInt(e.target.value) || 0 })}
+                      onChange={(e) => {
+                        // Move the whole selection by the same offset as the primary layer
+                        const dx = (Number.parseInt(e.target.value) || 0) - selectedLayer.x
+                        updateSelectedLayers((layer) => ({ x: layer.x + dx }))
+                      }}
                       className="mt-1"
                     />
                   </div>
@@ -564,7 +1262,10 @@ export default function ImageTextComposer() {
                     <Input
                       type="number"
                       value={Math.round(selectedLayer.y || 0)}
-                      onChange={(e) => updateTextLayer(selectedLayer.id, { y: Number.parseInt(e.target.value) || 0 })}
+                      onChange={(e) => {
+                        const dy = (Number.parseInt(e.target.value) || 0) - selectedLayer.y
+                        updateSelectedLayers((layer) => ({ y: layer.y + dy }))
+                      }}
                       className="mt-1"
                     />
                   </div>
@@ -575,7 +1276,8 @@ export default function ImageTextComposer() {
                   <Label>Opacity: {Math.round((selectedLayer.opacity || 1) * 100)}%</Label>
                   <Slider
                     value={[(selectedLayer.opacity || 1) * 100]}
-                    onValueChange={([value]) => updateTextLayer(selectedLayer.id, { opacity: value / 100 })}
+                    onValueChange={([value]) => updateSelectedLayers({ opacity: value / 100 })}
+                    {...sliderGestureProps}
                     min={0}
                     max={100}
                     step={1}
@@ -589,7 +1291,8 @@ export default function ImageTextComposer() {
                     <Label>Rotation: {Math.round(selectedLayer.rotation || 0)}°</Label>
                     <Slider
                       value={[selectedLayer.rotation || 0]}
-                      onValueChange={([value]) => updateTextLayer(selectedLayer.id, { rotation: value })}
+                      onValueChange={([value]) => updateSelectedLayers({ rotation: value })}
+                      {...sliderGestureProps}
                       min={-180}
                       max={180}
                       step={1}
@@ -602,7 +1305,8 @@ export default function ImageTextComposer() {
                       <Label>Scale X: {Math.round((selectedLayer.scaleX || 1) * 100)}%</Label>
                       <Slider
                         value={[(selectedLayer.scaleX || 1) * 100]}
-                        onValueChange={([value]) => updateTextLayer(selectedLayer.id, { scaleX: value / 100 })}
+                        onValueChange={([value]) => updateSelectedLayers({ scaleX: value / 100 })}
+                        {...sliderGestureProps}
                         min={10}
                         max={300}
                         step={1}
@@ -613,7 +1317,8 @@ export default function ImageTextComposer() {
                       <Label>Scale Y: {Math.round((selectedLayer.scaleY || 1) * 100)}%</Label>
                       <Slider
                         value={[(selectedLayer.scaleY || 1) * 100]}
-                        onValueChange={([value]) => updateTextLayer(selectedLayer.id, { scaleY: value / 100 })}
+                        onValueChange={([value]) => updateSelectedLayers({ scaleY: value / 100 })}
+                        {...sliderGestureProps}
                         min={10}
                         max={300}
                         step={1}
@@ -627,7 +1332,7 @@ export default function ImageTextComposer() {
                 <div className="flex justify-center">
                   <Button
                     onClick={() => {
-                      updateTextLayer(selectedLayer.id, {
+                      updateSelectedLayers({
                         rotation: 0,
                         scaleX: 1,
                         scaleY: 1,
@@ -688,7 +1393,7 @@ export default function ImageTextComposer() {
                   <div className="mt-1">
                     <FontSelector
                       selectedFont={selectedLayer.fontFamily}
-                      onFontChange={(fontFamily) => updateTextLayer(selectedLayer.id, { fontFamily })}
+                      onFontChange={(fontFamily) => updateSelectedLayers({ fontFamily })}
                       customFonts={customFonts}
                       onCustomFontAdd={addCustomFont}
                       onCustomFontRemove={removeCustomFont}
@@ -703,7 +1408,7 @@ export default function ImageTextComposer() {
                       type="number"
                       value={selectedLayer.fontSize || 16}
                       onChange={(e) =>
-                        updateTextLayer(selectedLayer.id, { fontSize: Number.parseInt(e.target.value) || 16 })
+                        updateSelectedLayers({ fontSize: Number.parseInt(e.target.value) || 16 })
                       }
                       min={8}
                       max={200}
@@ -716,14 +1421,14 @@ export default function ImageTextComposer() {
                       <input
                         type="color"
                         value={selectedLayer.fill || "#000000"}
-                        onChange={(e) => updateTextLayer(selectedLayer.id, { fill: e.target.value })}
+                        onChange={(e) => updateSelectedLayers({ fill: e.target.value })}
                         className="w-8 h-8 rounded border border-gray-300 cursor-pointer"
                         title="Choose text color"
                       />
                       <Input
                         type="text"
                         value={selectedLayer.fill || "#000000"}
-                        onChange={(e) => updateTextLayer(selectedLayer.id, { fill: e.target.value })}
+                        onChange={(e) => updateSelectedLayers({ fill: e.target.value })}
                         placeholder="#000000"
                         className="flex-1 text-xs font-mono"
                       />
@@ -737,7 +1442,7 @@ export default function ImageTextComposer() {
                     <Label>Font Weight</Label>
                     <select
                       value={selectedLayer.fontWeight || "normal"}
-                      onChange={(e) => updateTextLayer(selectedLayer.id, { fontWeight: e.target.value as any })}
+                      onChange={(e) => updateSelectedLayers({ fontWeight: e.target.value as any })}
                       className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
                     >
                       <option value="normal">Normal</option>
@@ -758,7 +1463,7 @@ export default function ImageTextComposer() {
                     <Label>Text Align</Label>
                     <select
                       value={selectedLayer.align || "left"}
-                      onChange={(e) => updateTextLayer(selectedLayer.id, { align: e.target.value as any })}
+                      onChange={(e) => updateSelectedLayers({ align: e.target.value as any })}
                       className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
                     >
                       <option value="left">Left</option>
@@ -768,6 +1473,8 @@ export default function ImageTextComposer() {
                   </div>
                 </div>
 
+                <TextBoxControls layer={selectedLayer} onUpdate={updateSelectedLayers} />
+
                 {/* Enhanced keyboard shortcuts help */}
                 <div className="mt-4 p-3 bg-gray-50 rounded text-xs">
                   <h4 className="font-medium mb-2">Keyboard Shortcuts:</h4>
@@ -777,15 +1484,26 @@ export default function ImageTextComposer() {
                     <div>Arrow keys: Nudge (1px)</div>
                     <div>Shift + Arrow: Large nudge (10px)</div>
                     <div>Delete: Remove layer</div>
-                    <div>Double-click: Edit text</div>
+                    <div>Ctrl+C / Ctrl+V: Copy / paste layer</div>
+                    <div>Ctrl+V: Paste image or text</div>
+                    <div>Double-click: Edit text on canvas</div>
+                    <div>Ctrl+B / I / U: Style selected text while editing</div>
+                    <div>Esc / Ctrl+Enter: Finish editing</div>
                     <div className="mt-2 font-medium">Transformation:</div>
                     <div>Drag: Move layer</div>
-                    <div>Drag handles: Resize layer</div>
-                    <div>Drag rotation handle: Rotate layer</div>
+                    <div>Drag handles: Resize text box (text re-wraps)</div>
+                    <div>Drag rotation handle: Rotate selection (Shift snaps to 15°)</div>
+                    <div>Drag corners of a multi-selection: Scale together</div>
                     <div>Shift + drag: Constrain proportions</div>
                     <div className="mt-1 font-medium">Quick Reset:</div>
                     <div>Shift + R: Reset rotation</div>
                     <div>Shift + S: Reset scale</div>
+                    <div className="mt-2 font-medium">View:</div>
+                    <div>Ctrl + wheel / pinch: Zoom</div>
+                    <div>Wheel / Space + drag: Pan</div>
+                    <div>Ctrl+0 / Ctrl+1: Fit / 100%</div>
+                    <div>Drag from a ruler: Add guide</div>
+                    <div>Drag a guide onto a ruler: Delete it</div>
                     <div className="mt-2 font-medium">Layer Order:</div>
                     <div>Ctrl + ↑/↓: Move up/down</div>
                     <div>Ctrl + Shift + ↑/↓: Send to back/front</div>
@@ -800,9 +1518,7 @@ export default function ImageTextComposer() {
                       <div>
                         Original: {imageData.width} × {imageData.height}px
                       </div>
-                      <div>
-                        Display: {imageData.displayWidth} × {imageData.displayHeight}px
-                      </div>
+                      {imageData.mimeType && <div>Source format: {describeMimeType(imageData.mimeType)}</div>}
                       <div className="text-green-600">Export preserves original resolution</div>
                     </div>
                   </div>
@@ -811,7 +1527,7 @@ export default function ImageTextComposer() {
             ) : (
               <div className="space-y-4">
                 <p className="text-sm text-gray-500">
-                  {imageData ? "Select a text layer to edit properties" : "Upload a PNG image to start editing"}
+                  {imageData ? "Select a text layer to edit properties" : "Upload an image to start editing"}
                 </p>
 
                 {/* Added autosave status */}
@@ -821,6 +1537,9 @@ export default function ImageTextComposer() {
                     <span>Auto-saving enabled</span>
                   </div>
                   <p className="text-blue-600 mt-1">Your work is automatically saved every 2 seconds</p>
+                  <div className="text-blue-700">
+                    <StorageUsageIndicator refreshKey={lastSuccessfulSave} />
+                  </div>
                 </div>
               </div>
             )}
@@ -829,24 +1548,122 @@ export default function ImageTextComposer() {
         </div>
 
         {/* Main Canvas Area */}
-        <div className="flex-1 flex flex-col overflow-hidden">
+        <div className={`flex-1 flex flex-col overflow-hidden ${isReadOnly ? "pointer-events-none select-none" : ""}`}>
           <div className="flex-1 flex p-8 bg-gray-100 min-h-0 items-center justify-center relative">
+            {/* Version preview controls */}
+            {previewVersion && (
+              <div className="absolute top-3 left-1/2 -translate-x-1/2 z-10 flex items-center gap-2 bg-white border border-blue-200 shadow-sm rounded-lg px-3 py-2 text-sm">
+                <Eye className="w-4 h-4 text-blue-600" />
+                <span className="text-gray-700">Previewing {describeVersion(previewVersion.version)}</span>
+                <Button size="sm" className="h-7" onClick={() => handleRestoreVersion(previewVersion.version)}>
+                  Restore
+                </Button>
+                <Button
+                  size="sm"
+                  variant="outline"
+                  className="h-7 bg-transparent"
+                  onClick={() => handleRestoreVersionAsCopy(previewVersion.version)}
+                >
+                  Restore as Copy
+                </Button>
+                <Button size="sm" variant="ghost" className="h-7" onClick={() => setPreviewVersion(null)}>
+                  Exit Preview
+                </Button>
+              </div>
+            )}
 
-            {imageData ? (
-              <CanvasWrapper
-                imageData={imageData}
-                textLayers={textLayers}
-                selectedLayerId={selectedLayerId}
-                onLayerSelect={setSelectedLayerId}
-                onLayerUpdate={updateTextLayer}
-              />
+            {historyPreviewStep !== null && !previewVersion && (
+              <div className="absolute top-3 left-1/2 -translate-x-1/2 z-10 flex items-center gap-2 bg-white border border-blue-200 shadow-sm rounded-lg px-3 py-2 text-sm text-gray-700">
+                <Eye className="w-4 h-4 text-blue-600" />
+                Previewing step {historyPreviewStep}
+              </div>
+            )}
+
+            {viewportImage && (
+              <div className="absolute bottom-3 right-3 z-10">
+                <ZoomControls
+                  zoom={zoom}
+                  preset={zoomPreset}
+                  onZoomIn={zoomIn}
+                  onZoomOut={zoomOut}
+                  onPreset={applyZoomPreset}
+                />
+              </div>
+            )}
+
+            {canvasPreview ? (
+              canvasPreview.imageData ? (
+                <div ref={viewportRef} className="absolute inset-0 overflow-hidden pointer-events-none">
+                  {viewportSize && (
+                    <CanvasWrapper
+                      imageData={canvasPreview.imageData}
+                      textLayers={canvasPreview.textLayers}
+                      selectedLayerIds={[]}
+                      onSelectionChange={() => {}}
+                      onLayersUpdate={() => {}}
+                      viewport={viewport}
+                      viewportSize={viewportSize}
+                    />
+                  )}
+                  {viewportSize && (
+                    <GuideOverlay
+                      imageSize={canvasPreview.imageData}
+                      viewport={viewport}
+                      viewportSize={viewportSize}
+                      guides={canvasPreview.guides}
+                      grid={canvasPreview.grid}
+                      showRulers={showRulers}
+                      readOnly
+                    />
+                  )}
+                </div>
+              ) : (
+                <p className="text-sm text-gray-500">No background image at this point</p>
+              )
+            ) : imageData ? (
+              <div ref={viewportRef} className="absolute inset-0 overflow-hidden">
+                {viewportSize && (
+                  <CanvasWrapper
+                    imageData={imageData}
+                    textLayers={textLayers}
+                    selectedLayerIds={selectedLayerIds}
+                    onSelectionChange={setSelectedLayerIds}
+                    onLayersUpdate={updateTextLayers}
+                    onGestureStart={beginGesture}
+                    onGestureEnd={endGesture}
+                    snapEnabled={snapEnabled}
+                    snapThreshold={snapThreshold}
+                    snapGuides={snapGuides}
+                    onSnapGuidesChange={setSnapGuides}
+                    snapLines={snapLines}
+                    viewport={viewport}
+                    viewportSize={viewportSize}
+                    onZoom={zoomBy}
+                    onPan={panBy}
+                  />
+                )}
+                {viewportSize && (
+                  <GuideOverlay
+                    imageSize={imageData}
+                    viewport={viewport}
+                    viewportSize={viewportSize}
+                    guides={guides}
+                    grid={grid}
+                    showRulers={showRulers}
+                    readOnly={isEditingLocked}
+                    onAddGuide={addGuide}
+                    onMoveGuide={(id, position) => updateGuide(id, { position })}
+                    onRemoveGuide={removeGuide}
+                  />
+                )}
+              </div>
             ) : (
               <div className="text-center w-full max-w-2xl mx-auto">
                 {/* Content Section - Moved Above Upload Area */}
                 <div className="text-center mb-8">
-                  <h3 className="text-2xl font-bold text-gray-900 mb-3">Upload a PNG Image</h3>
+                  <h3 className="text-2xl font-bold text-gray-900 mb-3">Upload an Image</h3>
                   <p className="text-gray-600 text-lg leading-relaxed max-w-md mx-auto">
-                    Select a PNG file to start adding text overlays, or drag and drop a PNG file directly
+                    Select an image to start adding text overlays, or drag and drop a file directly
                   </p>
                 </div>
 
@@ -873,21 +1690,40 @@ export default function ImageTextComposer() {
                   <p className={`text-lg font-medium mb-2 ${
                     isDragOver ? 'text-gray-700' : 'text-gray-600'
                   }`}>
-                    {isDragOver ? 'Drop PNG here' : 'Click or drag PNG here'}
+                    {isDragOver ? 'Drop image here' : 'Click or drag image here'}
                   </p>
                   
                   {/* File Type Info */}
                   <p className={`text-sm ${isDragOver ? 'text-gray-600' : 'text-gray-500'}`}>
-                    PNG files only
+                    PNG, JPEG, WebP, AVIF, GIF, BMP or SVG
                   </p>
                 </div>
+
+                {/* SVG rasterization resolution */}
+                <div className="mt-4 flex items-center justify-center gap-2 text-sm text-gray-600">
+                  <Label htmlFor="svg-raster-size">SVG resolution</Label>
+                  <select
+                    id="svg-raster-size"
+                    value={svgRasterSize}
+                    onChange={(e) => setSvgRasterSize(Number(e.target.value))}
+                    className="px-2 py-1 border border-gray-300 rounded-md text-sm"
+                  >
+                    {SVG_RASTER_SIZES.map((size) => (
+                      <option key={size} value={size}>
+                        {size}px
+                      </option>
+                    ))}
+                  </select>
+                </div>
               </div>
             )}
           </div>
         </div>
 
         {/* Right Sidebar - Layers Panel */}
-        <div className="w-80 bg-white border-l border-gray-200 flex flex-col h-full overflow-hidden">
+        <div
+          className={`w-80 bg-white border-l border-gray-200 flex flex-col h-full overflow-hidden ${isEditingLocked ? "pointer-events-none select-none opacity-75" : ""}`}
+        >
           <div className="p-4 border-b border-gray-200 bg-gray-50 flex-shrink-0">
             <h3 className="font-semibold text-gray-700">Layers Panel</h3>
             <p className="text-xs text-gray-500 mt-1">Scroll to see all layers</p>
@@ -903,17 +1739,23 @@ export default function ImageTextComposer() {
 
             {textLayers.length > 0 ? (
               <div className="space-y-2 pb-2">
-                {textLayers
+                {[...textLayers]
                   .sort((a, b) => (a.zIndex || 0) - (b.zIndex || 0))
                   .map((layer, index) => (
                   <div
                     key={layer.id}
                     className={`p-3 border rounded-lg cursor-pointer transition-colors ${
-                      selectedLayerId === layer.id
+                      selectedLayerIds.includes(layer.id)
                         ? "border-blue-500 bg-blue-50"
                         : "border-gray-200 hover:border-gray-300"
                     } ${layer.locked ? "opacity-60" : ""}`}
-                    onClick={() => setSelectedLayerId(layer.id)}
+                    onClick={(e) => {
+                      if (e.shiftKey || e.ctrlKey || e.metaKey) {
+                        toggleLayerSelection(layer.id)
+                      } else {
+                        setSelectedLayerId(layer.id)
+                      }
+                    }}
                   >
                     <div className="flex items-center justify-between">
                       <div className="flex items-center gap-2">
@@ -987,13 +1829,145 @@ export default function ImageTextComposer() {
               </p>
             )}
           </Card>
+
+          {imageData && (
+            <Card className="p-4 mt-4">
+              <h3 className="font-semibold mb-4 flex items-center gap-2">
+                <Grid3x3 className="w-4 h-4" />
+                Guides &amp; Grid
+              </h3>
+              <GuidesPanel
+                guides={guides}
+                grid={grid}
+                onUpdateGuide={updateGuide}
+                onRemoveGuide={removeGuide}
+                onGridChange={setGrid}
+              />
+            </Card>
+          )}
           </div>
         </div>
+
+        {/* Undo history side panel */}
+        {sidePanel === "history" && !isReadOnly && (
+          <HistoryPanel
+            past={past}
+            future={future}
+            onJumpToStep={(step) => {
+              jumpToStep(step)
+              setHistoryPreviewStep(null)
+            }}
+            onPreviewStep={setHistoryPreviewStep}
+            onClearHistory={clearHistory}
+            onClose={() => {
+              setSidePanel(null)
+              setHistoryPreviewStep(null)
+            }}
+          />
+        )}
+
+        {/* Version history side panel */}
+        {sidePanel === "versions" && activeProject && !isReadOnly && (
+          <VersionHistoryPanel
+            projectId={activeProject.id}
+            imageData={imageData}
+            textLayers={textLayers}
+            previewVersionId={previewVersion?.version.id ?? null}
+            refreshKey={versionsRefreshKey}
+            onPreview={handlePreviewVersion}
+            onCreateVersion={handleCreateVersion}
+            onRestore={handleRestoreVersion}
+            onRestoreAsCopy={handleRestoreVersionAsCopy}
+            onClose={() => {
+              setSidePanel(null)
+              setPreviewVersion(null)
+            }}
+          />
+        )}
       </div>
 
+      <ProjectBrowser
+        open={showProjectBrowser}
+        onOpenChange={setShowProjectBrowser}
+        activeProjectId={activeProject?.id ?? null}
+        onOpenProject={openProject}
+        onCreateProject={handleCreateProject}
+        onActiveProjectChanged={handleActiveProjectChanged}
+      />
+
+      <UrlImportDialog
+        open={showUrlImport}
+        onOpenChange={setShowUrlImport}
+        onImport={handleUrlImport}
+        svgRasterSize={svgRasterSize}
+      />
+
+      {/* Project already open in another tab */}
+      <AlertDialog open={showOwnershipPrompt} onOpenChange={setShowOwnershipPrompt}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Project open in another tab</AlertDialogTitle>
+            <AlertDialogDescription>
+              {activeProject?.name ?? "This project"} is being edited in another tab
+              {projectOwner ? ` (opened at ${new Date(projectOwner.openedAt).toLocaleTimeString()})` : ""}. You can view it
+              here read-only, or take over editing and make the other tab read-only.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Open Read-only</AlertDialogCancel>
+            <AlertDialogAction onClick={handleTakeOver}>Take Over</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      {/* This tab's unsaved edits are older than the stored snapshot */}
+      <AlertDialog open={!!autosaveConflict}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Newer version saved in another tab</AlertDialogTitle>
+            <AlertDialogDescription>
+              {autosaveConflict &&
+                `Your changes here are based on the version saved at ${new Date(autosaveConflict.baseTimestamp).toLocaleTimeString()}, but another tab saved a newer version at ${new Date(autosaveConflict.storedTimestamp).toLocaleTimeString()}. Saving now would overwrite it.`}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel onClick={() => handleResolveConflict("discard")}>Load Newer Version</AlertDialogCancel>
+            <AlertDialogAction onClick={() => handleResolveConflict("overwrite")}>Overwrite With My Changes</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      {/* Confirm replacing the background with a pasted image */}
+      <AlertDialog open={pendingPastedImage !== null} onOpenChange={(open) => !open && setPendingPastedImage(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Replace background image?</AlertDialogTitle>
+            <AlertDialogDescription>
+              The pasted image will replace the current background. Your text layers are kept.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleConfirmReplaceImage}>Replace</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
       {/* Hidden file inputs */}
-      <input ref={fileInputRef} type="file" accept="image/png" onChange={handleFileInputChange} className="hidden" />
-      <input ref={projectImportRef} type="file" accept=".json" onChange={handleImportProject} className="hidden" />
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept={getAcceptedImageTypes()}
+        onChange={handleFileInputChange}
+        className="hidden"
+      />
+      <input
+        ref={projectImportRef}
+        type="file"
+        accept={`.json,${BUNDLE_EXTENSION}`}
+        onChange={handleImportProject}
+        className="hidden"
+      />
     </div>
   )
 }
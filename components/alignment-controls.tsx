@@ -0,0 +1,132 @@
+"use client"
+
+import { useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Label } from "@/components/ui/label"
+import {
+  AlignStartVertical,
+  AlignCenterVertical,
+  AlignEndVertical,
+  AlignStartHorizontal,
+  AlignCenterHorizontal,
+  AlignEndHorizontal,
+  AlignHorizontalSpaceBetween,
+  AlignVerticalSpaceBetween,
+} from "lucide-react"
+import type { ImageData, TextLayer } from "@/lib/editor-store"
+import { alignLayers, distributeLayers, type AlignEdge, type AlignReference, type DistributeAxis } from "@/lib/alignment"
+import { getLayerBounds, unionBounds, type Bounds } from "@/lib/layer-bounds"
+
+interface AlignmentControlsProps {
+  imageData: ImageData
+  selectedLayers: TextLayer[]
+  // The primary selected layer, used as the key object
+  keyLayer: TextLayer | null
+  onApply: (updates: Record<string, Partial<TextLayer>>, label: string) => void
+}
+
+const ALIGN_ACTIONS: { edge: AlignEdge; title: string; icon: typeof AlignStartVertical }[] = [
+  { edge: "left", title: "Align left", icon: AlignStartVertical },
+  { edge: "center", title: "Align horizontal centers", icon: AlignCenterVertical },
+  { edge: "right", title: "Align right", icon: AlignEndVertical },
+  { edge: "top", title: "Align top", icon: AlignStartHorizontal },
+  { edge: "middle", title: "Align vertical centers", icon: AlignCenterHorizontal },
+  { edge: "bottom", title: "Align bottom", icon: AlignEndHorizontal },
+]
+
+const EDGE_NAMES: Record<AlignEdge, string> = {
+  left: "left",
+  center: "horizontal centers",
+  right: "right",
+  top: "top",
+  middle: "vertical centers",
+  bottom: "bottom",
+}
+
+export function AlignmentControls({ imageData, selectedLayers, keyLayer, onApply }: AlignmentControlsProps) {
+  const [reference, setReference] = useState<AlignReference>("selection")
+
+  // Aligning a lone layer to its own bounds does nothing, so it aligns to the canvas instead
+  const effectiveReference: AlignReference = selectedLayers.length < 2 ? "canvas" : reference
+  const layerCount = `${selectedLayers.length} layer${selectedLayers.length === 1 ? "" : "s"}`
+
+  const handleAlign = (edge: AlignEdge) => {
+    let target: Bounds | null
+    let layers = selectedLayers
+    if (effectiveReference === "canvas") {
+      target = { left: 0, top: 0, right: imageData.width, bottom: imageData.height }
+    } else if (effectiveReference === "key" && keyLayer) {
+      target = getLayerBounds(keyLayer)
+      layers = selectedLayers.filter((layer) => layer.id !== keyLayer.id)
+    } else {
+      target = unionBounds(selectedLayers.map(getLayerBounds))
+    }
+    if (!target) return
+
+    const updates = alignLayers(layers, edge, target)
+    if (Object.keys(updates).length > 0) {
+      onApply(updates, `Aligned ${layerCount} ${EDGE_NAMES[edge]}`)
+    }
+  }
+
+  const handleDistribute = (axis: DistributeAxis) => {
+    const updates = distributeLayers(selectedLayers, axis)
+    if (Object.keys(updates).length > 0) {
+      onApply(updates, `Distributed ${layerCount} ${axis}ly`)
+    }
+  }
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <Label>Align</Label>
+        <select
+          value={effectiveReference}
+          onChange={(e) => setReference(e.target.value as AlignReference)}
+          disabled={selectedLayers.length < 2}
+          className="px-2 py-1 border border-gray-300 rounded-md text-xs"
+          title="Align relative to"
+        >
+          <option value="selection">To selection</option>
+          <option value="canvas">To canvas</option>
+          <option value="key">To key layer</option>
+        </select>
+      </div>
+      <div className="flex items-center gap-1">
+        {ALIGN_ACTIONS.map(({ edge, title, icon: Icon }) => (
+          <Button
+            key={edge}
+            size="sm"
+            variant="outline"
+            className="h-8 w-8 p-0 bg-transparent"
+            title={title}
+            onClick={() => handleAlign(edge)}
+          >
+            <Icon className="w-4 h-4" />
+          </Button>
+        ))}
+        <div className="w-px h-6 bg-gray-200 mx-1" />
+        <Button
+          size="sm"
+          variant="outline"
+          className="h-8 w-8 p-0 bg-transparent"
+          title="Distribute horizontal spacing"
+          disabled={selectedLayers.length < 3}
+          onClick={() => handleDistribute("horizontal")}
+        >
+          <AlignHorizontalSpaceBetween className="w-4 h-4" />
+        </Button>
+        <Button
+          size="sm"
+          variant="outline"
+          className="h-8 w-8 p-0 bg-transparent"
+          title="Distribute vertical spacing"
+          disabled={selectedLayers.length < 3}
+          onClick={() => handleDistribute("vertical")}
+        >
+          <AlignVerticalSpaceBetween className="w-4 h-4" />
+        </Button>
+      </div>
+    </div>
+  )
+}
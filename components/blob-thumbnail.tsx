@@ -0,0 +1,34 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { ImageIcon } from "lucide-react"
+
+interface BlobThumbnailProps {
+  thumbnail: Blob | null
+  className?: string
+}
+
+// Object URL for a stored thumbnail, revoked when the component unmounts
+export function BlobThumbnail({ thumbnail, className = "aspect-video" }: BlobThumbnailProps) {
+  const [url, setUrl] = useState<string | null>(null)
+
+  useEffect(() => {
+    if (!thumbnail) {
+      setUrl(null)
+      return
+    }
+    const objectUrl = URL.createObjectURL(thumbnail)
+    setUrl(objectUrl)
+    return () => URL.revokeObjectURL(objectUrl)
+  }, [thumbnail])
+
+  return (
+    <div className={`${className} bg-gray-100 rounded flex items-center justify-center overflow-hidden`}>
+      {url ? (
+        <img src={url} alt="" className="w-full h-full object-contain" />
+      ) : (
+        <ImageIcon className="w-8 h-8 text-gray-300" />
+      )}
+    </div>
+  )
+}
@@ -2,36 +2,283 @@
 
 import type React from "react"
 import { useEffect, useRef, useState, useCallback } from "react"
-import type { ImageData, TextLayer } from "@/lib/editor-store"
+import { InlineTextEditor } from "@/components/inline-text-editor"
+import { useFontsLoaded } from "@/hooks/use-fonts-loaded"
+import type { ImageData, TextLayer, TextSpan } from "@/lib/editor-store"
+import type { SnapLines } from "@/lib/guides"
+import { getLayerBounds, measureLayerText, unionBounds, type Bounds } from "@/lib/layer-bounds"
+import { richTextUpdates } from "@/lib/rich-text"
+import { buildScene, renderScene } from "@/lib/scene"
+import { DEFAULT_SNAP_THRESHOLD, snapBounds, type SnapGuide } from "@/lib/snapping"
+import { IDENTITY_VIEWPORT, screenToDocument, type Size, type Viewport } from "@/lib/viewport"
 
 interface CanvasWrapperProps {
   imageData: ImageData
   textLayers: TextLayer[]
-  selectedLayerId: string | null
-  onLayerSelect: (id: string | null) => void
-  onLayerUpdate: (id: string, updates: Partial<TextLayer>) => void
+  selectedLayerIds: string[]
+  // The new selection and, when a layer was clicked, the layer that should become primary
+  onSelectionChange: (ids: string[], primaryId?: string | null) => void
+  // Every layer changed by one interaction, so a group drag is a single update
+  onLayersUpdate: (updates: Record<string, Partial<TextLayer>>) => void
+  // Bracket a drag so its updates become a single undo step
+  onGestureStart?: () => void
+  onGestureEnd?: () => void
+  snapEnabled?: boolean
+  snapThreshold?: number
+  snapGuides?: SnapGuide[]
+  onSnapGuidesChange?: (guides: SnapGuide[]) => void
+  // Guide and grid lines that layers snap to, in image pixels
+  snapLines?: SnapLines
+  // Zoomed and panned view filling `viewportSize`; without one the canvas is the document's size
+  viewport?: Viewport
+  viewportSize?: Size | null
+  // Wheel, pinch and space-drag requests; `anchor` is in canvas pixels
+  onZoom?: (factor: number, anchor: { x: number; y: number }) => void
+  onPan?: (dx: number, dy: number) => void
 }
 
+interface Marquee {
+  startX: number
+  startY: number
+  x: number
+  y: number
+  // Shift-drag adds to the selection the marquee started with
+  baseIds: string[] | null
+}
+
+// Clicks that move less than this are clicks, not marquee drags
+const MARQUEE_THRESHOLD = 3
+
+const isMultiSelectEvent = (e: React.MouseEvent) => e.shiftKey || e.ctrlKey || e.metaKey
+
+// Converts wheel delta to a zoom factor; pinch gestures arrive as ctrl+wheel
+const WHEEL_ZOOM_SPEED = 0.01
+
+const touchDistance = (touches: React.TouchList) =>
+  Math.hypot(touches[0].clientX - touches[1].clientX, touches[0].clientY - touches[1].clientY)
+
+const touchCenter = (touches: React.TouchList) => ({
+  x: (touches[0].clientX + touches[1].clientX) / 2,
+  y: (touches[0].clientY + touches[1].clientY) / 2,
+})
+
 interface TransformHandle {
+  // Side of the box the handle sits on along each axis, from -1 to 1
   x: number
   y: number
   type: "resize" | "rotate"
   cursor: string
 }
 
+// Handles on the corners and edges of a text box. Side handles set a fixed width that
+// the text wraps in; the others also fix the height.
+const RESIZE_HANDLES: Record<string, TransformHandle> = {
+  "top-left": { x: -1, y: -1, type: "resize", cursor: "nwse-resize" },
+  top: { x: 0, y: -1, type: "resize", cursor: "ns-resize" },
+  "top-right": { x: 1, y: -1, type: "resize", cursor: "nesw-resize" },
+  right: { x: 1, y: 0, type: "resize", cursor: "ew-resize" },
+  "bottom-right": { x: 1, y: 1, type: "resize", cursor: "nwse-resize" },
+  bottom: { x: 0, y: 1, type: "resize", cursor: "ns-resize" },
+  "bottom-left": { x: -1, y: 1, type: "resize", cursor: "nesw-resize" },
+  left: { x: -1, y: 0, type: "resize", cursor: "ew-resize" },
+}
+
+// Sits above the top edge of the box and turns the selection around its centre
+const ROTATE_HANDLE: TransformHandle = { x: 0, y: -1, type: "rotate", cursor: "grab" }
+
+// Every handle by name, for hit-testing and the cursor
+const TRANSFORM_HANDLES: Record<string, TransformHandle> = { ...RESIZE_HANDLES, rotate: ROTATE_HANDLE }
+
+// A multi-layer selection can't be re-wrapped as one text box, so its corners scale the layers instead
+const GROUP_HANDLE_NAMES = ["top-left", "top-right", "bottom-right", "bottom-left", "rotate"]
+
+// Pointer distance, in screen pixels, at which a handle is picked up
+const HANDLE_HIT_SIZE = 6
+
+// Screen distance between the top edge of a box and its rotation handle
+const ROTATE_HANDLE_DISTANCE = 20
+
+// Shift-rotating snaps to multiples of this many degrees
+const ROTATION_SNAP_STEP = 15
+
+// Smallest factor a group scale can shrink the selection by
+const MIN_GROUP_SCALE = 0.05
+
+// A text box being resized by one of its handles
+interface BoxResize {
+  layerId: string
+  handle: string
+  // The opposite corner or edge, which stays put, in document coordinates
+  anchor: { x: number; y: number }
+  // Box size when the resize started
+  width: number
+  height: number
+}
+
+// Layers being rotated or scaled together by a handle
+interface SelectionTransform {
+  handle: string
+  type: "rotate" | "scale"
+  // Point the layers turn or scale about, in document coordinates: the centre, or the opposite corner
+  pivot: { x: number; y: number }
+  // Pointer position when the gesture started
+  start: { x: number; y: number }
+  // Geometry of every transformed layer when the gesture started
+  origins: Record<string, Pick<TextLayer, "x" | "y" | "rotation" | "scaleX" | "scaleY">>
+}
+
+// Rotation and scale of a layer's box, which turns around its centre
+const getBoxTransform = (layer: TextLayer) => {
+  const size = measureLayerText(layer)
+  const angle = ((layer.rotation || 0) * Math.PI) / 180
+  return {
+    ...size,
+    centerX: layer.x + size.width / 2,
+    centerY: layer.y + size.height / 2,
+    cos: Math.cos(angle),
+    sin: Math.sin(angle),
+    scaleX: layer.scaleX || 1,
+    scaleY: layer.scaleY || 1,
+  }
+}
+
+// Offset from a layer's box centre, in the box's own axes and scale, to document coordinates
+const boxOffsetToDocument = (box: ReturnType<typeof getBoxTransform>, x: number, y: number) => ({
+  x: x * box.scaleX * box.cos - y * box.scaleY * box.sin,
+  y: x * box.scaleX * box.sin + y * box.scaleY * box.cos,
+})
+
+// The reverse: an offset in document coordinates to the box's own axes and scale
+const documentToBoxOffset = (box: ReturnType<typeof getBoxTransform>, x: number, y: number) => ({
+  x: (x * box.cos + y * box.sin) / box.scaleX,
+  y: (-x * box.sin + y * box.cos) / box.scaleY,
+})
+
+// Whether a document point falls inside a layer's box as drawn, rotated and scaled
+const isPointInLayer = (layer: TextLayer, x: number, y: number) => {
+  const box = getBoxTransform(layer)
+  const local = documentToBoxOffset(box, x - box.centerX, y - box.centerY)
+  return Math.abs(local.x) <= box.width / 2 && Math.abs(local.y) <= box.height / 2
+}
+
+// New geometry for a box whose handle was dragged to `point`; the text wraps to the new width
+const resizeBox = (layer: TextLayer, resize: BoxResize, point: { x: number; y: number }): Partial<TextLayer> => {
+  const handle = RESIZE_HANDLES[resize.handle]
+  const box = getBoxTransform(layer)
+  const fontSize = layer.fontSize || 16
+
+  // Pointer relative to the anchor, in the box's own axes
+  const { x: localX, y: localY } = documentToBoxOffset(box, point.x - resize.anchor.x, point.y - resize.anchor.y)
+
+  const width = handle.x ? Math.max(fontSize, handle.x * localX) : resize.width
+  const height = handle.y ? Math.max(fontSize * (layer.lineHeight || 1.2), handle.y * localY) : resize.height
+
+  // Place the new box so its anchor stays where it was
+  const anchorOffset = boxOffsetToDocument(box, (-handle.x * width) / 2, (-handle.y * height) / 2)
+  const x = resize.anchor.x - anchorOffset.x - width / 2
+  const y = resize.anchor.y - anchorOffset.y - height / 2
+
+  // Dragging a side handle only fixes the width; the height then follows the wrapped text
+  if (handle.y === 0 && layer.boxMode !== "fixedSize") {
+    return { x, y, width, boxMode: "fixedWidth" }
+  }
+  return { x, y, width, height, boxMode: "fixedSize" }
+}
+
+// Keeps rotations in the -180 to 180 range the rotation slider uses
+const normalizeRotation = (degrees: number) => ((((degrees + 180) % 360) + 360) % 360) - 180
+
+// New geometry for every layer of a rotate or scale gesture whose handle was dragged to `point`
+const transformSelection = (
+  layers: TextLayer[],
+  transform: SelectionTransform,
+  point: { x: number; y: number },
+  snapRotation: boolean,
+): Record<string, Partial<TextLayer>> => {
+  const { pivot, start } = transform
+  let angle = 0
+  let factor = 1
+
+  if (transform.type === "rotate") {
+    angle =
+      ((Math.atan2(point.y - pivot.y, point.x - pivot.x) - Math.atan2(start.y - pivot.y, start.x - pivot.x)) * 180) /
+      Math.PI
+    if (snapRotation) angle = Math.round(angle / ROTATION_SNAP_STEP) * ROTATION_SNAP_STEP
+  } else {
+    // Scaling is always proportional: the pointer's progress along the diagonal from the fixed corner
+    const diagonalX = start.x - pivot.x
+    const diagonalY = start.y - pivot.y
+    const progress = ((point.x - pivot.x) * diagonalX + (point.y - pivot.y) * diagonalY) / (diagonalX ** 2 + diagonalY ** 2)
+    factor = Number.isFinite(progress) ? Math.max(MIN_GROUP_SCALE, progress) : 1
+  }
+
+  const cos = Math.cos((angle * Math.PI) / 180)
+  const sin = Math.sin((angle * Math.PI) / 180)
+
+  return Object.fromEntries(
+    layers
+      .filter((layer) => transform.origins[layer.id])
+      .map((layer) => {
+        const origin = transform.origins[layer.id]
+        const box = getBoxTransform({ ...layer, ...origin })
+        // Each box centre turns or scales about the pivot; the box keeps its own centre as rotation origin
+        const offsetX = (box.centerX - pivot.x) * factor
+        const offsetY = (box.centerY - pivot.y) * factor
+        const centerX = pivot.x + offsetX * cos - offsetY * sin
+        const centerY = pivot.y + offsetX * sin + offsetY * cos
+        const updates: Partial<TextLayer> = { x: centerX - box.width / 2, y: centerY - box.height / 2 }
+        if (transform.type === "rotate") {
+          updates.rotation = normalizeRotation((origin.rotation || 0) + angle)
+        } else {
+          updates.scaleX = box.scaleX * factor
+          updates.scaleY = box.scaleY * factor
+        }
+        return [layer.id, updates]
+      }),
+  )
+}
+
 export function CanvasWrapper({
   imageData,
   textLayers,
-  selectedLayerId,
-  onLayerSelect,
-  onLayerUpdate,
+  selectedLayerIds,
+  onSelectionChange,
+  onLayersUpdate,
+  onGestureStart,
+  onGestureEnd,
+  snapEnabled = true,
+  snapThreshold = DEFAULT_SNAP_THRESHOLD,
+  snapGuides = [],
+  onSnapGuidesChange,
+  snapLines,
+  viewport,
+  viewportSize,
+  onZoom,
+  onPan,
 }: CanvasWrapperProps) {
   const canvasRef = useRef<HTMLCanvasElement>(null)
   const [image, setImage] = useState<HTMLImageElement | null>(null)
   const [isDragging, setIsDragging] = useState(false)
   const [dragStart, setDragStart] = useState({ x: 0, y: 0 })
-  const [isTransforming, setIsTransforming] = useState(false)
-  const [transformHandle, setTransformHandle] = useState<string | null>(null)
+  // Starting positions of every layer moved by the current drag
+  const [dragOrigins, setDragOrigins] = useState<Record<string, { x: number; y: number }>>({})
+  const [marquee, setMarquee] = useState<Marquee | null>(null)
+  const [resize, setResize] = useState<BoxResize | null>(null)
+  const [selectionTransform, setSelectionTransform] = useState<SelectionTransform | null>(null)
+  // Handle under the pointer, for the cursor
+  const [hoverHandle, setHoverHandle] = useState<string | null>(null)
+  // Space held: dragging pans instead of selecting
+  const [isSpaceHeld, setIsSpaceHeld] = useState(false)
+  const [panOrigin, setPanOrigin] = useState<{ x: number; y: number } | null>(null)
+  // Layer whose text is being edited in place; it is hidden from the canvas meanwhile
+  const [editingLayerId, setEditingLayerId] = useState<string | null>(null)
+  const pinchRef = useRef<{ distance: number; center: { x: number; y: number } } | null>(null)
+  // Text is measured when drawn, so redraw once fonts finish loading
+  const fontsLoaded = useFontsLoaded()
+
+  const view = viewport ?? IDENTITY_VIEWPORT
+  const canvasWidth = viewportSize ? viewportSize.width : imageData.width
+  const canvasHeight = viewportSize ? viewportSize.height : imageData.height
 
   // Load background image
   useEffect(() => {
@@ -41,8 +288,13 @@ export function CanvasWrapper({
     img.src = imageData.src
   }, [imageData.src])
 
-  // Get selected layer
-  const selectedLayer = textLayers.find((layer) => layer.id === selectedLayerId)
+  const selectedLayers = textLayers.filter((layer) => selectedLayerIds.includes(layer.id))
+  // Handles act on the unlocked selected layers, except the one being edited in place
+  const editableLayers = selectedLayers.filter((layer) => !layer.locked && layer.id !== editingLayerId)
+  const selectionBounds = unionBounds(editableLayers.map(getLayerBounds))
+  // A single layer gets its own resize handles; several share one box that rotates and scales them together
+  const resizableLayer = editableLayers.length === 1 ? editableLayers[0] : null
+  const groupBounds = editableLayers.length > 1 ? selectionBounds : null
 
   // Draw canvas
   const draw = useCallback(() => {
@@ -53,68 +305,58 @@ export function CanvasWrapper({
     if (!ctx) return
 
     // Clear canvas
+    ctx.setTransform(1, 0, 0, 1, 0, 0)
     ctx.clearRect(0, 0, canvas.width, canvas.height)
+    ctx.setTransform(view.scale, 0, 0, view.scale, view.x, view.y)
 
-    // Draw background image
-    if (image) {
-      ctx.drawImage(image, 0, 0, imageData.displayWidth, imageData.displayHeight)
-    }
-
-    // Draw text layers
-    textLayers
-      .filter((layer) => layer.visible)
-      .forEach((layer) => {
-        ctx.save()
-
-        // Apply transformations
-        ctx.translate(layer.x + (layer.width || 0) / 2, layer.y + (layer.fontSize || 16) / 2)
-        ctx.rotate(((layer.rotation || 0) * Math.PI) / 180)
-        ctx.scale(layer.scaleX || 1, layer.scaleY || 1)
-
-        // Set text properties
-        ctx.font = `${layer.fontWeight || "normal"} ${layer.fontSize || 16}px ${layer.fontFamily || "Arial"}`
-        ctx.fillStyle = layer.fill || "#000000"
-        ctx.globalAlpha = layer.opacity || 1
-        ctx.textAlign = (layer.align || "left") as CanvasTextAlign
-        ctx.textBaseline = "middle"
-
-        // Apply text shadow
-        if (layer.shadowBlur || layer.shadowOffsetX || layer.shadowOffsetY) {
-          ctx.shadowColor = layer.shadowColor || "#000000"
-          ctx.shadowBlur = layer.shadowBlur || 0
-          ctx.shadowOffsetX = layer.shadowOffsetX || 0
-          ctx.shadowOffsetY = layer.shadowOffsetY || 0
-        }
+    // The same scene the exporter draws, minus the layer being edited in place
+    renderScene(ctx, buildScene(imageData, textLayers, editingLayerId ? [editingLayerId] : []), image)
 
-        // Draw text (handle multiline)
-        const lines = layer.text.split("\n")
-        const lineHeight = (layer.fontSize || 16) * (layer.lineHeight || 1.2)
+    // Draw a selection box per selected layer, with resize handles when it's the only one
+    editableLayers.forEach((layer) => drawSelectionHandles(ctx, layer, layer === resizableLayer))
+    if (groupBounds) drawGroupBox(ctx, groupBounds)
 
-        lines.forEach((line, index) => {
-          const y = (index - (lines.length - 1) / 2) * lineHeight
-          ctx.fillText(line, -(layer.width || 0) / 2, y)
-        })
+    const rotateHandle = getHandlePositions().rotate
+    if (rotateHandle) drawRotateHandle(ctx, rotateHandle)
 
-        ctx.restore()
+    if (marquee) {
+      drawMarquee(ctx, marquee)
+    }
 
-        // Calculate text dimensions for selection
-        if (!layer.width) {
-          const metrics = ctx.measureText(layer.text)
-          layer.width = metrics.width
-          layer.height = layer.fontSize || 16
-        }
-      })
+    drawSnapGuides(ctx, snapGuides)
+  }, [image, imageData, textLayers, selectedLayers, marquee, snapGuides, editingLayerId, fontsLoaded, view.scale, view.x, view.y, canvasWidth, canvasHeight])
 
-    // Draw selection handles for selected layer
-    if (selectedLayer && !selectedLayer.locked) {
-      drawSelectionHandles(ctx, selectedLayer)
-    }
-  }, [image, imageData, textLayers, selectedLayer])
+  // Overlays keep a constant on-screen size whatever the zoom
+  const px = (size: number) => size / view.scale
+
+  const drawSnapGuides = (ctx: CanvasRenderingContext2D, guides: SnapGuide[]) => {
+    ctx.save()
+    ctx.strokeStyle = "#ff00ff"
+    ctx.lineWidth = px(1)
+    guides.forEach((guide) => {
+      ctx.setLineDash(guide.kind === "spacing" ? [px(4), px(2)] : [])
+      ctx.beginPath()
+      ctx.moveTo(guide.points[0], guide.points[1])
+      ctx.lineTo(guide.points[2], guide.points[3])
+      ctx.stroke()
+    })
+    ctx.restore()
+  }
+
+  const drawMarquee = (ctx: CanvasRenderingContext2D, box: Marquee) => {
+    ctx.save()
+    ctx.fillStyle = "rgba(0, 102, 255, 0.08)"
+    ctx.strokeStyle = "#0066ff"
+    ctx.lineWidth = px(1)
+    ctx.setLineDash([px(4), px(3)])
+    ctx.fillRect(box.startX, box.startY, box.x - box.startX, box.y - box.startY)
+    ctx.strokeRect(box.startX, box.startY, box.x - box.startX, box.y - box.startY)
+    ctx.restore()
+  }
 
   // Draw selection handles
-  const drawSelectionHandles = (ctx: CanvasRenderingContext2D, layer: TextLayer) => {
-    const width = layer.width || 100
-    const height = layer.height || layer.fontSize || 16
+  const drawSelectionHandles = (ctx: CanvasRenderingContext2D, layer: TextLayer, showHandles: boolean) => {
+    const { width, height } = measureLayerText(layer)
 
     ctx.save()
     ctx.translate(layer.x + width / 2, layer.y + height / 2)
@@ -123,31 +365,50 @@ export function CanvasWrapper({
 
     // Selection box
     ctx.strokeStyle = "#0066ff"
-    ctx.lineWidth = 2
-    ctx.setLineDash([5, 5])
+    ctx.lineWidth = px(2)
+    ctx.setLineDash([px(5), px(5)])
     ctx.strokeRect(-width / 2, -height / 2, width, height)
 
-    // Corner handles
-    const handleSize = 8
+    if (!showHandles) {
+      ctx.restore()
+      return
+    }
+
+    // Resize handles
+    const handleSize = px(8)
     ctx.fillStyle = "#0066ff"
     ctx.setLineDash([])
 
-    const corners = [
-      { x: -width / 2, y: -height / 2 }, // top-left
-      { x: width / 2, y: -height / 2 }, // top-right
-      { x: width / 2, y: height / 2 }, // bottom-right
-      { x: -width / 2, y: height / 2 }, // bottom-left
-    ]
+    Object.values(RESIZE_HANDLES).forEach((handle) => {
+      const x = (handle.x * width) / 2
+      const y = (handle.y * height) / 2
+      ctx.fillRect(x - handleSize / 2, y - handleSize / 2, handleSize, handleSize)
+    })
 
-    corners.forEach((corner) => {
-      ctx.fillRect(corner.x - handleSize / 2, corner.y - handleSize / 2, handleSize, handleSize)
+    ctx.restore()
+  }
+
+  // Box around a multi-layer selection, with the corner handles that scale it
+  const drawGroupBox = (ctx: CanvasRenderingContext2D, bounds: Bounds) => {
+    const handleSize = px(8)
+    ctx.save()
+    ctx.strokeStyle = "#0066ff"
+    ctx.fillStyle = "#0066ff"
+    ctx.lineWidth = px(1)
+    ctx.strokeRect(bounds.left, bounds.top, bounds.right - bounds.left, bounds.bottom - bounds.top)
+    Object.entries(getHandlePositions()).forEach(([name, position]) => {
+      if (name === "rotate") return
+      ctx.fillRect(position.x - handleSize / 2, position.y - handleSize / 2, handleSize, handleSize)
     })
+    ctx.restore()
+  }
 
-    // Rotation handle
+  const drawRotateHandle = (ctx: CanvasRenderingContext2D, position: { x: number; y: number }) => {
+    ctx.save()
+    ctx.fillStyle = "#0066ff"
     ctx.beginPath()
-    ctx.arc(0, -height / 2 - 20, 6, 0, 2 * Math.PI)
+    ctx.arc(position.x, position.y, px(6), 0, 2 * Math.PI)
     ctx.fill()
-
     ctx.restore()
   }
 
@@ -156,90 +417,409 @@ export function CanvasWrapper({
     draw()
   }, [draw])
 
-  // Mouse event handlers
-  const handleMouseDown = (e: React.MouseEvent) => {
-    const canvas = canvasRef.current
-    if (!canvas) return
+  // Space-drag panning, ignored while typing in a field
+  useEffect(() => {
+    if (!onPan) return
+    const isTyping = (target: EventTarget | null) =>
+      target instanceof HTMLElement && (target.isContentEditable || ["INPUT", "TEXTAREA", "SELECT"].includes(target.tagName))
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.code !== "Space" || isTyping(event.target)) return
+      event.preventDefault()
+      setIsSpaceHeld(true)
+    }
+    const handleKeyUp = (event: KeyboardEvent) => {
+      if (event.code === "Space") setIsSpaceHeld(false)
+    }
+    window.addEventListener("keydown", handleKeyDown)
+    window.addEventListener("keyup", handleKeyUp)
+    return () => {
+      window.removeEventListener("keydown", handleKeyDown)
+      window.removeEventListener("keyup", handleKeyUp)
+    }
+  }, [onPan])
 
-    const rect = canvas.getBoundingClientRect()
-    const x = e.clientX - rect.left
-    const y = e.clientY - rect.top
+  // Wheel pans, ctrl/cmd+wheel and trackpad pinch zoom. React's wheel listener is
+  // passive, so this one is attached directly to be able to prevent page scrolling.
+  useEffect(() => {
+    const canvas = canvasRef.current
+    if (!canvas || !onZoom || !onPan) return
+
+    const handleWheel = (event: WheelEvent) => {
+      event.preventDefault()
+      if (event.ctrlKey || event.metaKey) {
+        const rect = canvas.getBoundingClientRect()
+        onZoom(Math.exp(-event.deltaY * WHEEL_ZOOM_SPEED), { x: event.clientX - rect.left, y: event.clientY - rect.top })
+      } else {
+        onPan(-event.deltaX, -event.deltaY)
+      }
+    }
+    canvas.addEventListener("wheel", handleWheel, { passive: false })
+    return () => canvas.removeEventListener("wheel", handleWheel)
+  }, [onZoom, onPan])
+
+  // Pointer position in canvas pixels
+  const getScreenPointer = (e: { clientX: number; clientY: number }) => {
+    const rect = canvasRef.current!.getBoundingClientRect()
+    return { x: e.clientX - rect.left, y: e.clientY - rect.top }
+  }
 
-    // Check if clicking on a text layer
-    let clickedLayer: TextLayer | null = null
+  // Pointer position in document coordinates
+  const getPointer = (e: React.MouseEvent) => screenToDocument(view, getScreenPointer(e))
 
-    for (let i = textLayers.length - 1; i >= 0; i--) {
-      const layer = textLayers[i]
+  // Topmost visible, unlocked layer under a document point
+  const findLayerAt = (x: number, y: number): TextLayer | null => {
+    // Same stacking order as the scene is drawn in
+    const stacked = [...textLayers].sort((a, b) => (a.zIndex || 0) - (b.zIndex || 0))
+    for (let i = stacked.length - 1; i >= 0; i--) {
+      const layer = stacked[i]
       if (!layer.visible || layer.locked) continue
+      if (isPointInLayer(layer, x, y)) return layer
+    }
+    return null
+  }
 
-      const layerBounds = {
-        left: layer.x,
-        top: layer.y,
-        right: layer.x + (layer.width || 100),
-        bottom: layer.y + (layer.height || layer.fontSize || 16),
-      }
+  // Document positions of the handles shown for the selection, by handle name
+  const getHandlePositions = (): Record<string, { x: number; y: number }> => {
+    const rotateDistance = px(ROTATE_HANDLE_DISTANCE)
 
-      if (x >= layerBounds.left && x <= layerBounds.right && y >= layerBounds.top && y <= layerBounds.bottom) {
-        clickedLayer = layer
-        break
+    if (resizableLayer) {
+      const box = getBoxTransform(resizableLayer)
+      const toDocument = (x: number, y: number) => {
+        const offset = boxOffsetToDocument(box, x, y)
+        return { x: box.centerX + offset.x, y: box.centerY + offset.y }
       }
+      const positions = Object.fromEntries(
+        Object.entries(RESIZE_HANDLES).map(([name, handle]) => [
+          name,
+          toDocument((handle.x * box.width) / 2, (handle.y * box.height) / 2),
+        ]),
+      )
+      // Beyond the top edge along the box's own axis, at the same screen distance whatever the scale
+      const top = toDocument(0, -box.height / 2)
+      const flip = Math.sign(box.scaleY)
+      positions.rotate = { x: top.x + box.sin * rotateDistance * flip, y: top.y - box.cos * rotateDistance * flip }
+      return positions
+    }
+
+    if (groupBounds) {
+      const centerX = (groupBounds.left + groupBounds.right) / 2
+      const centerY = (groupBounds.top + groupBounds.bottom) / 2
+      const halfWidth = (groupBounds.right - groupBounds.left) / 2
+      const halfHeight = (groupBounds.bottom - groupBounds.top) / 2
+      return Object.fromEntries(
+        GROUP_HANDLE_NAMES.map((name) => {
+          const handle = TRANSFORM_HANDLES[name]
+          const lift = handle.type === "rotate" ? rotateDistance : 0
+          return [name, { x: centerX + handle.x * halfWidth, y: centerY + handle.y * halfHeight - lift }]
+        }),
+      )
+    }
+
+    return {}
+  }
+
+  // Handle of the selection under a document point
+  const findHandleAt = (x: number, y: number): string | null => {
+    const tolerance = px(HANDLE_HIT_SIZE)
+    const match = Object.entries(getHandlePositions()).find(
+      ([, position]) => Math.abs(x - position.x) <= tolerance && Math.abs(y - position.y) <= tolerance,
+    )
+    return match ? match[0] : null
+  }
+
+  // Mouse event handlers
+  const handleMouseDown = (e: React.MouseEvent) => {
+    if (!canvasRef.current) return
+
+    // Middle button or space-drag pans the view
+    if (onPan && (isSpaceHeld || e.button === 1)) {
+      e.preventDefault()
+      setPanOrigin(getScreenPointer(e))
+      return
+    }
+
+    const { x, y } = getPointer(e)
+
+    // Handles sit on the box's edge, so they're checked before the layers under them
+    const handle = findHandleAt(x, y)
+
+    // Rotating, or scaling a multi-layer selection, transforms every editable selected layer at once
+    if (handle && selectionBounds && (groupBounds || TRANSFORM_HANDLES[handle].type === "rotate")) {
+      const { x: sideX, y: sideY, type } = TRANSFORM_HANDLES[handle]
+      const centerX = (selectionBounds.left + selectionBounds.right) / 2
+      const centerY = (selectionBounds.top + selectionBounds.bottom) / 2
+      onGestureStart?.()
+      setSelectionTransform({
+        handle,
+        type: type === "rotate" ? "rotate" : "scale",
+        // Rotation turns about the centre; scaling keeps the opposite corner in place
+        pivot:
+          type === "rotate"
+            ? { x: centerX, y: centerY }
+            : {
+                x: centerX - (sideX * (selectionBounds.right - selectionBounds.left)) / 2,
+                y: centerY - (sideY * (selectionBounds.bottom - selectionBounds.top)) / 2,
+              },
+        start: { x, y },
+        origins: Object.fromEntries(
+          editableLayers.map((layer) => [
+            layer.id,
+            { x: layer.x, y: layer.y, rotation: layer.rotation, scaleX: layer.scaleX, scaleY: layer.scaleY },
+          ]),
+        ),
+      })
+      return
     }
 
-    if (clickedLayer) {
-      onLayerSelect(clickedLayer.id)
-      setIsDragging(true)
-      setDragStart({ x: x - clickedLayer.x, y: y - clickedLayer.y })
-    } else {
-      onLayerSelect(null)
+    if (resizableLayer && handle) {
+      const box = getBoxTransform(resizableLayer)
+      const { x: sideX, y: sideY } = RESIZE_HANDLES[handle]
+      const anchor = boxOffsetToDocument(box, (-sideX * box.width) / 2, (-sideY * box.height) / 2)
+      onGestureStart?.()
+      setResize({
+        layerId: resizableLayer.id,
+        handle,
+        anchor: { x: box.centerX + anchor.x, y: box.centerY + anchor.y },
+        width: box.width,
+        height: box.height,
+      })
+      return
     }
+
+    const clickedLayer = findLayerAt(x, y)
+
+    if (!clickedLayer) {
+      // Empty space starts a marquee; a plain click without dragging clears the selection on mouse up
+      setMarquee({ startX: x, startY: y, x, y, baseIds: isMultiSelectEvent(e) ? selectedLayerIds : null })
+      return
+    }
+
+    if (isMultiSelectEvent(e)) {
+      const isSelected = selectedLayerIds.includes(clickedLayer.id)
+      onSelectionChange(
+        isSelected
+          ? selectedLayerIds.filter((id) => id !== clickedLayer.id)
+          : [...selectedLayerIds, clickedLayer.id],
+        isSelected ? null : clickedLayer.id,
+      )
+      return
+    }
+
+    // Dragging a layer that's part of the selection moves the whole selection
+    const movingLayers = selectedLayerIds.includes(clickedLayer.id)
+      ? selectedLayers.filter((layer) => !layer.locked)
+      : [clickedLayer]
+    onSelectionChange(
+      movingLayers.map((layer) => layer.id),
+      clickedLayer.id,
+    )
+    onGestureStart?.()
+    setIsDragging(true)
+    setDragStart({ x, y })
+    setDragOrigins(Object.fromEntries(movingLayers.map((layer) => [layer.id, { x: layer.x, y: layer.y }])))
   }
 
   const handleMouseMove = (e: React.MouseEvent) => {
-    if (!isDragging || !selectedLayer) return
+    if (!canvasRef.current) return
 
-    const canvas = canvasRef.current
-    if (!canvas) return
+    if (panOrigin) {
+      const point = getScreenPointer(e)
+      onPan?.(point.x - panOrigin.x, point.y - panOrigin.y)
+      setPanOrigin(point)
+      return
+    }
 
-    const rect = canvas.getBoundingClientRect()
-    const x = e.clientX - rect.left
-    const y = e.clientY - rect.top
+    const { x, y } = getPointer(e)
 
-    onLayerUpdate(selectedLayer.id, {
-      x: x - dragStart.x,
-      y: y - dragStart.y,
-    })
+    if (marquee) {
+      setMarquee({ ...marquee, x, y })
+      return
+    }
+
+    if (resize) {
+      const layer = textLayers.find((l) => l.id === resize.layerId)
+      if (layer) onLayersUpdate({ [layer.id]: resizeBox(layer, resize, { x, y }) })
+      return
+    }
+
+    // Every layer of the gesture in one update, so the store merges the gesture into a single step
+    if (selectionTransform) {
+      onLayersUpdate(transformSelection(textLayers, selectionTransform, { x, y }, e.shiftKey))
+      return
+    }
+
+    if (!isDragging) {
+      setHoverHandle(findHandleAt(x, y))
+      return
+    }
+
+    let dx = x - dragStart.x
+    let dy = y - dragStart.y
+
+    // Snap the dragged layers as one box; Alt turns snapping off for this move
+    if (snapEnabled && !e.altKey) {
+      const movingIds = Object.keys(dragOrigins)
+      const start = unionBounds(
+        textLayers
+          .filter((layer) => movingIds.includes(layer.id))
+          .map((layer) => getLayerBounds({ ...layer, ...dragOrigins[layer.id] })),
+      )
+      if (start) {
+        const result = snapBounds(
+          { left: start.left + dx, right: start.right + dx, top: start.top + dy, bottom: start.bottom + dy },
+          textLayers.filter((layer) => layer.visible && !movingIds.includes(layer.id)).map(getLayerBounds),
+          { left: 0, top: 0, right: imageData.width, bottom: imageData.height },
+          // The threshold is in screen pixels
+          px(snapThreshold),
+          snapLines,
+        )
+        dx += result.dx
+        dy += result.dy
+        onSnapGuidesChange?.(result.guides)
+      }
+    } else if (snapGuides.length > 0) {
+      onSnapGuidesChange?.([])
+    }
+
+    onLayersUpdate(
+      Object.fromEntries(Object.entries(dragOrigins).map(([id, origin]) => [id, { x: origin.x + dx, y: origin.y + dy }])),
+    )
+  }
+
+  const finishMarquee = (box: Marquee) => {
+    const moved = Math.abs(box.x - box.startX) > MARQUEE_THRESHOLD || Math.abs(box.y - box.startY) > MARQUEE_THRESHOLD
+    if (!moved) {
+      if (!box.baseIds) onSelectionChange([])
+      return
+    }
+
+    const left = Math.min(box.startX, box.x)
+    const right = Math.max(box.startX, box.x)
+    const top = Math.min(box.startY, box.y)
+    const bottom = Math.max(box.startY, box.y)
+
+    // Any overlap with the layer's box as drawn counts, so small layers are easy to sweep up
+    const hitIds = textLayers
+      .filter((layer) => layer.visible && !layer.locked)
+      .filter((layer) => {
+        const bounds = getLayerBounds(layer)
+        return bounds.left <= right && bounds.right >= left && bounds.top <= bottom && bounds.bottom >= top
+      })
+      .map((layer) => layer.id)
+
+    onSelectionChange(box.baseIds ? Array.from(new Set([...box.baseIds, ...hitIds])) : hitIds)
   }
 
   const handleMouseUp = () => {
+    if (isDragging) {
+      onSnapGuidesChange?.([])
+      onGestureEnd?.()
+    }
+    if (resize || selectionTransform) onGestureEnd?.()
+    if (marquee) finishMarquee(marquee)
+    setPanOrigin(null)
     setIsDragging(false)
-    setIsTransforming(false)
-    setTransformHandle(null)
+    setDragOrigins({})
+    setMarquee(null)
+    setResize(null)
+    setSelectionTransform(null)
   }
 
-  // Handle double-click for text editing
+  // Double-clicking a layer edits its text in place
   const handleDoubleClick = (e: React.MouseEvent) => {
-    if (!selectedLayer) return
+    if (panOrigin || isSpaceHeld) return
+    const { x, y } = getPointer(e)
+    const layer = findLayerAt(x, y)
+    if (!layer) return
 
-    const newText = prompt("Edit text:", selectedLayer.text)
-    if (newText !== null) {
-      onLayerUpdate(selectedLayer.id, { text: newText })
+    onSelectionChange([layer.id], layer.id)
+    setEditingLayerId(layer.id)
+  }
+
+  // The whole edit is a single update, and only if the text changed
+  const handleEditCommit = (text: string, spans: TextSpan[]) => {
+    const layer = textLayers.find((l) => l.id === editingLayerId)
+    setEditingLayerId(null)
+    const updates = layer ? richTextUpdates(layer, text, spans) : {}
+    if (layer && Object.keys(updates).length > 0) {
+      onLayersUpdate({ [layer.id]: updates })
     }
   }
 
+  const editingLayer = textLayers.find((layer) => layer.id === editingLayerId)
+  const editor = editingLayer && (
+    <InlineTextEditor
+      key={editingLayer.id}
+      layer={editingLayer}
+      viewport={view}
+      onCommit={handleEditCommit}
+    />
+  )
+
+  // Two-finger pinch zooms around the fingers and pans as they move
+  const handleTouchStart = (e: React.TouchEvent) => {
+    if (e.touches.length !== 2 || !onZoom) return
+    pinchRef.current = { distance: touchDistance(e.touches), center: touchCenter(e.touches) }
+  }
+
+  const handleTouchMove = (e: React.TouchEvent) => {
+    const pinch = pinchRef.current
+    if (!pinch || e.touches.length !== 2) return
+
+    const distance = touchDistance(e.touches)
+    const center = touchCenter(e.touches)
+    onPan?.(center.x - pinch.center.x, center.y - pinch.center.y)
+    onZoom?.(distance / pinch.distance, getScreenPointer({ clientX: center.x, clientY: center.y }))
+    pinchRef.current = { distance, center }
+  }
+
+  const handleTouchEnd = () => {
+    pinchRef.current = null
+  }
+
+  const canvas = (
+    <canvas
+      ref={canvasRef}
+      width={canvasWidth}
+      height={canvasHeight}
+      className={panOrigin ? "cursor-grabbing" : isSpaceHeld ? "cursor-grab" : "cursor-crosshair"}
+      style={{
+        display: "block",
+        touchAction: viewportSize ? "none" : undefined,
+        cursor:
+          panOrigin || isSpaceHeld
+            ? undefined
+            : selectionTransform?.type === "rotate"
+              ? "grabbing"
+              : TRANSFORM_HANDLES[resize?.handle ?? selectionTransform?.handle ?? hoverHandle ?? ""]?.cursor,
+      }}
+      onMouseDown={handleMouseDown}
+      onMouseMove={handleMouseMove}
+      onMouseUp={handleMouseUp}
+      onMouseLeave={handleMouseUp}
+      onDoubleClick={handleDoubleClick}
+      onTouchStart={handleTouchStart}
+      onTouchMove={handleTouchMove}
+      onTouchEnd={handleTouchEnd}
+    />
+  )
+
+  // In a viewport the canvas fills the view and the document floats inside it
+  if (viewportSize) {
+    return (
+      <>
+        {canvas}
+        {editor}
+      </>
+    )
+  }
+
   return (
     <div className="flex items-center justify-center w-full h-full">
-      <div className="border border-gray-300 rounded-lg overflow-hidden bg-white shadow-lg">
-        <canvas
-          ref={canvasRef}
-          width={imageData.displayWidth}
-          height={imageData.displayHeight}
-          className="cursor-crosshair"
-          onMouseDown={handleMouseDown}
-          onMouseMove={handleMouseMove}
-          onMouseUp={handleMouseUp}
-          onDoubleClick={handleDoubleClick}
-          style={{ display: "block" }}
-        />
+      <div className="relative border border-gray-300 rounded-lg overflow-hidden bg-white shadow-lg">
+        {canvas}
+        {editor}
       </div>
     </div>
   )
@@ -0,0 +1,267 @@
+"use client"
+
+import type React from "react"
+import { useEffect, useRef, useState } from "react"
+import { Ruler, RULER_SIZE } from "@/components/ruler"
+import { createGuideId, getGridColumns, getGridLines, type GridSettings, type Guide, type GuideOrientation } from "@/lib/guides"
+import { screenToDocument, type Size, type Viewport } from "@/lib/viewport"
+
+interface GuideOverlayProps {
+  // Document size in image pixels
+  imageSize: Size
+  viewport: Viewport
+  viewportSize: Size
+  guides: Guide[]
+  grid: GridSettings
+  showRulers: boolean
+  // Shown but not editable, e.g. while previewing a version
+  readOnly?: boolean
+  onAddGuide?: (guide: Guide) => void
+  onMoveGuide?: (id: string, position: number) => void
+  onRemoveGuide?: (id: string) => void
+}
+
+// A guide being dragged: a new one out of a ruler (id null) or an existing one
+interface GuideDrag {
+  id: string | null
+  orientation: GuideOrientation
+  position: number
+  // Released here, a new guide is dropped and an existing one deleted
+  overRuler: boolean
+}
+
+// Grid lines closer than this on screen are hidden rather than drawn as a solid fill
+const MIN_GRID_GAP = 4
+// Width of the invisible strip that picks up a guide
+const GUIDE_HIT_SIZE = 7
+
+const GUIDE_COLOR = "#06b6d4"
+
+// Rulers, guides and the grid drawn over the canvas. Only the rulers and guide
+// lines take pointer events; everything else falls through to the canvas.
+export function GuideOverlay({
+  imageSize,
+  viewport,
+  viewportSize,
+  guides,
+  grid,
+  showRulers,
+  readOnly = false,
+  onAddGuide,
+  onMoveGuide,
+  onRemoveGuide,
+}: GuideOverlayProps) {
+  const rootRef = useRef<HTMLDivElement>(null)
+  const [drag, setDrag] = useState<GuideDrag | null>(null)
+  // Mirrors `drag` for the window listeners, which must not act inside a state update
+  const dragRef = useRef<GuideDrag | null>(null)
+
+  const updateDrag = (next: GuideDrag | null) => {
+    dragRef.current = next
+    setDrag(next)
+  }
+
+  // Follow the pointer anywhere on the page until the guide is released
+  const dragging = drag !== null
+  useEffect(() => {
+    if (!dragging) return
+
+    const locate = (event: PointerEvent, current: GuideDrag): GuideDrag => {
+      const rect = rootRef.current!.getBoundingClientRect()
+      const point = { x: event.clientX - rect.left, y: event.clientY - rect.top }
+      const horizontal = current.orientation === "horizontal"
+      const along = horizontal ? point.y : point.x
+      const across = horizontal ? point.x : point.y
+      const outside = along < 0 || across < 0 || along > (horizontal ? rect.height : rect.width)
+      const document = screenToDocument(viewport, point)
+      return {
+        ...current,
+        position: Math.round(horizontal ? document.y : document.x),
+        overRuler: outside || (showRulers && along < RULER_SIZE),
+      }
+    }
+
+    const handleMove = (event: PointerEvent) => {
+      if (dragRef.current) updateDrag(locate(event, dragRef.current))
+    }
+    const handleUp = (event: PointerEvent) => {
+      const current = dragRef.current
+      updateDrag(null)
+      if (!current) return
+
+      // The guide is only committed on release, so a drag is a single undo step
+      const released = locate(event, current)
+      if (released.id === null) {
+        if (!released.overRuler) {
+          onAddGuide?.({ id: createGuideId(), orientation: released.orientation, position: released.position })
+        }
+      } else if (released.overRuler) {
+        onRemoveGuide?.(released.id)
+      } else if (released.position !== guides.find((guide) => guide.id === released.id)?.position) {
+        onMoveGuide?.(released.id, released.position)
+      }
+    }
+
+    window.addEventListener("pointermove", handleMove)
+    window.addEventListener("pointerup", handleUp)
+    return () => {
+      window.removeEventListener("pointermove", handleMove)
+      window.removeEventListener("pointerup", handleUp)
+    }
+  }, [dragging, viewport, guides, showRulers, onAddGuide, onMoveGuide, onRemoveGuide])
+
+  const startDrag = (event: React.PointerEvent, next: GuideDrag) => {
+    if (readOnly || event.button !== 0) return
+    event.preventDefault()
+    event.stopPropagation()
+    updateDrag(next)
+  }
+
+  const toScreen = (orientation: GuideOrientation, position: number) =>
+    orientation === "horizontal" ? position * viewport.scale + viewport.y : position * viewport.scale + viewport.x
+
+  const renderGrid = () => {
+    if (!grid.visible) return null
+    const transform = `matrix(${viewport.scale} 0 0 ${viewport.scale} ${viewport.x} ${viewport.y})`
+
+    if (grid.type === "columns") {
+      return (
+        <g transform={transform}>
+          {getGridColumns(grid, imageSize).map((column, index) => (
+            <rect
+              key={index}
+              x={column.left}
+              y={0}
+              width={column.right - column.left}
+              height={imageSize.height}
+              fill="rgba(236, 72, 153, 0.1)"
+              stroke="rgba(236, 72, 153, 0.5)"
+              vectorEffect="non-scaling-stroke"
+            />
+          ))}
+        </g>
+      )
+    }
+
+    if (grid.spacing * viewport.scale < MIN_GRID_GAP) return null
+    const lines = getGridLines(grid, imageSize)
+    return (
+      <g transform={transform} stroke="rgba(59, 130, 246, 0.3)" strokeWidth={1}>
+        {lines.x.map((x) => (
+          <line key={`x${x}`} x1={x} y1={0} x2={x} y2={imageSize.height} vectorEffect="non-scaling-stroke" />
+        ))}
+        {lines.y.map((y) => (
+          <line key={`y${y}`} x1={0} y1={y} x2={imageSize.width} y2={y} vectorEffect="non-scaling-stroke" />
+        ))}
+      </g>
+    )
+  }
+
+  const renderGuide = (guide: Guide, options: { preview?: boolean } = {}) => {
+    const horizontal = guide.orientation === "horizontal"
+    const screen = toScreen(guide.orientation, guide.position)
+    const editable = !readOnly && !guide.locked && !options.preview
+    const label = guide.name?.trim()
+
+    return (
+      <div
+        key={options.preview ? "preview" : guide.id}
+        className={`absolute ${editable ? "pointer-events-auto" : ""} ${horizontal ? "cursor-row-resize" : "cursor-col-resize"}`}
+        style={
+          horizontal
+            ? { left: 0, right: 0, top: screen - (GUIDE_HIT_SIZE - 1) / 2, height: GUIDE_HIT_SIZE }
+            : { top: 0, bottom: 0, left: screen - (GUIDE_HIT_SIZE - 1) / 2, width: GUIDE_HIT_SIZE }
+        }
+        title={editable ? `${label ? `${label}: ` : ""}${guide.position}px (drag onto a ruler to delete)` : undefined}
+        onPointerDown={
+          editable
+            ? (event) => startDrag(event, { id: guide.id, orientation: guide.orientation, position: guide.position, overRuler: false })
+            : undefined
+        }
+      >
+        <div
+          className="absolute"
+          style={{
+            backgroundColor: GUIDE_COLOR,
+            opacity: guide.locked ? 0.6 : 1,
+            ...(horizontal
+              ? { left: 0, right: 0, top: (GUIDE_HIT_SIZE - 1) / 2, height: 1 }
+              : { top: 0, bottom: 0, left: (GUIDE_HIT_SIZE - 1) / 2, width: 1 }),
+          }}
+        />
+        {label && (
+          <span
+            className="absolute text-[10px] leading-none px-1 py-0.5 rounded text-white whitespace-nowrap"
+            style={{
+              backgroundColor: GUIDE_COLOR,
+              ...(horizontal
+                ? { left: showRulers ? RULER_SIZE + 4 : 4, bottom: GUIDE_HIT_SIZE / 2 + 1 }
+                : { top: showRulers ? RULER_SIZE + 4 : 4, left: GUIDE_HIT_SIZE / 2 + 2 }),
+            }}
+          >
+            {label}
+          </span>
+        )}
+      </div>
+    )
+  }
+
+  // While dragging, the guide is drawn where it would land
+  const shownGuides = guides
+    .filter((guide) => !(drag && drag.id === guide.id && drag.overRuler))
+    .map((guide) => (drag && drag.id === guide.id ? { ...guide, position: drag.position } : guide))
+  const newGuide =
+    drag && drag.id === null && !drag.overRuler
+      ? { id: "new", orientation: drag.orientation, position: drag.position }
+      : null
+
+  return (
+    <div ref={rootRef} className="absolute inset-0 overflow-hidden pointer-events-none select-none">
+      <svg className="absolute inset-0" width={viewportSize.width} height={viewportSize.height}>
+        {renderGrid()}
+      </svg>
+
+      {shownGuides.map((guide) => renderGuide(guide))}
+      {newGuide && renderGuide(newGuide, { preview: true })}
+
+      {drag && !drag.overRuler && (
+        <div
+          className="absolute text-[10px] leading-none px-1 py-0.5 rounded bg-gray-900 text-white tabular-nums"
+          style={
+            drag.orientation === "horizontal"
+              ? { left: (showRulers ? RULER_SIZE : 0) + 4, top: toScreen("horizontal", drag.position) + 4 }
+              : { top: (showRulers ? RULER_SIZE : 0) + 4, left: toScreen("vertical", drag.position) + 4 }
+          }
+        >
+          {drag.position}px
+        </div>
+      )}
+
+      {showRulers && (
+        <div className={readOnly ? "" : "pointer-events-auto"}>
+          <Ruler
+            orientation="horizontal"
+            viewport={viewport}
+            length={viewportSize.width}
+            onPointerDown={(event) =>
+              startDrag(event, { id: null, orientation: "horizontal", position: 0, overRuler: true })
+            }
+          />
+          <Ruler
+            orientation="vertical"
+            viewport={viewport}
+            length={viewportSize.height}
+            onPointerDown={(event) =>
+              startDrag(event, { id: null, orientation: "vertical", position: 0, overRuler: true })
+            }
+          />
+          {/* Corner where the rulers meet */}
+          <div
+            className="absolute top-0 left-0 bg-gray-100 border-r border-b border-gray-400"
+            style={{ width: RULER_SIZE, height: RULER_SIZE }}
+          />
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,121 @@
+"use client"
+
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Switch } from "@/components/ui/switch"
+import { Lock, LockOpen, Trash2 } from "lucide-react"
+import type { GridSettings, Guide } from "@/lib/guides"
+
+interface GuidesPanelProps {
+  guides: Guide[]
+  grid: GridSettings
+  onUpdateGuide: (id: string, updates: Partial<Guide>) => void
+  onRemoveGuide: (id: string) => void
+  onGridChange: (updates: Partial<GridSettings>) => void
+}
+
+// Reads a number field, ignoring values the grid can't use
+const readNumber = (value: string, min: number): number | null => {
+  const number = Number.parseFloat(value)
+  return Number.isFinite(number) && number >= min ? number : null
+}
+
+export function GuidesPanel({ guides, grid, onUpdateGuide, onRemoveGuide, onGridChange }: GuidesPanelProps) {
+  const gridField = (label: string, key: "spacing" | "columns" | "gutter" | "margin", min: number) => (
+    <div>
+      <Label className="text-xs">{label}</Label>
+      <Input
+        type="number"
+        min={min}
+        value={grid[key]}
+        onChange={(e) => {
+          const value = readNumber(e.target.value, min)
+          if (value !== null) onGridChange({ [key]: key === "columns" ? Math.round(value) : value })
+        }}
+        className="h-8 mt-1"
+      />
+    </div>
+  )
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        <div className="flex items-center justify-between">
+          <Label htmlFor="grid-visible">Show grid</Label>
+          <Switch id="grid-visible" checked={grid.visible} onCheckedChange={(visible) => onGridChange({ visible })} />
+        </div>
+        <select
+          value={grid.type}
+          onChange={(e) => onGridChange({ type: e.target.value as GridSettings["type"] })}
+          className="w-full px-2 py-1 border border-gray-300 rounded-md text-sm"
+        >
+          <option value="grid">Square grid</option>
+          <option value="columns">Column layout</option>
+        </select>
+        {grid.type === "grid" ? (
+          gridField("Spacing (px)", "spacing", 1)
+        ) : (
+          <div className="grid grid-cols-3 gap-2">
+            {gridField("Columns", "columns", 1)}
+            {gridField("Gutter", "gutter", 0)}
+            {gridField("Margin", "margin", 0)}
+          </div>
+        )}
+      </div>
+
+      <div className="space-y-2">
+        <Label>Guides</Label>
+        {guides.length === 0 ? (
+          <p className="text-xs text-gray-500">Drag from a ruler onto the canvas to add a guide.</p>
+        ) : (
+          guides.map((guide) => (
+            <div key={guide.id} className="flex items-center gap-1">
+              <span
+                className="w-5 text-xs font-medium text-gray-500 text-center"
+                title={guide.orientation === "horizontal" ? "Horizontal guide (y)" : "Vertical guide (x)"}
+              >
+                {guide.orientation === "horizontal" ? "Y" : "X"}
+              </span>
+              <Input
+                type="number"
+                value={guide.position}
+                onChange={(e) => {
+                  const position = Number.parseFloat(e.target.value)
+                  if (Number.isFinite(position)) onUpdateGuide(guide.id, { position })
+                }}
+                disabled={guide.locked}
+                className="h-8 w-20 px-2"
+                title="Position in image pixels"
+              />
+              <Input
+                value={guide.name ?? ""}
+                onChange={(e) => onUpdateGuide(guide.id, { name: e.target.value })}
+                placeholder="Name"
+                className="h-8 flex-1 min-w-0 px-2"
+              />
+              <Button
+                size="sm"
+                variant="ghost"
+                className="h-8 w-8 p-0"
+                onClick={() => onUpdateGuide(guide.id, { locked: !guide.locked })}
+                title={guide.locked ? "Unlock guide" : "Lock guide"}
+              >
+                {guide.locked ? <Lock className="w-4 h-4" /> : <LockOpen className="w-4 h-4" />}
+              </Button>
+              <Button
+                size="sm"
+                variant="ghost"
+                className="h-8 w-8 p-0 text-red-600 hover:text-red-700"
+                onClick={() => onRemoveGuide(guide.id)}
+                title="Delete guide"
+              >
+                <Trash2 className="w-4 h-4" />
+              </Button>
+            </div>
+          ))
+        )}
+      </div>
+    </div>
+  )
+}
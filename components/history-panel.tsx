@@ -0,0 +1,109 @@
+"use client"
+
+import { useState } from "react"
+import { Button } from "@/components/ui/button"
+import { History, Trash2, X } from "lucide-react"
+import type { HistoryEntry } from "@/lib/editor-store"
+import { formatBytes } from "@/lib/utils"
+
+interface HistoryPanelProps {
+  past: HistoryEntry[]
+  future: HistoryEntry[]
+  onJumpToStep: (step: number) => void
+  // Called with the hovered step, or null when the pointer leaves the list
+  onPreviewStep: (step: number | null) => void
+  onClearHistory: () => void
+  onClose: () => void
+}
+
+export function HistoryPanel({ past, future, onJumpToStep, onPreviewStep, onClearHistory, onClose }: HistoryPanelProps) {
+  const [confirmClear, setConfirmClear] = useState(false)
+  const entries = [...past, ...future]
+  const currentStep = past.length
+  const memoryUsed = entries.reduce((sum, entry) => sum + entry.size, 0)
+
+  const renderStep = (step: number, label: string, timestamp: number | null) => {
+    const isCurrent = step === currentStep
+    const isUndone = step > currentStep
+    return (
+      <button
+        key={step}
+        className={`w-full text-left px-3 py-2 rounded text-sm flex items-center justify-between gap-2 transition-colors ${
+          isCurrent
+            ? "bg-blue-50 border border-blue-500 text-blue-900"
+            : isUndone
+              ? "text-gray-400 hover:bg-gray-50 border border-transparent"
+              : "hover:bg-gray-50 border border-transparent"
+        }`}
+        onClick={() => onJumpToStep(step)}
+        onMouseEnter={() => onPreviewStep(isCurrent ? null : step)}
+        title={isCurrent ? "Current state" : "Jump to this step"}
+      >
+        <span className="truncate">{label}</span>
+        {timestamp && <span className="text-xs text-gray-400 flex-shrink-0">{new Date(timestamp).toLocaleTimeString()}</span>}
+      </button>
+    )
+  }
+
+  return (
+    <div className="w-80 bg-white border-l border-gray-200 flex flex-col h-full overflow-hidden">
+      <div className="p-4 border-b border-gray-200 bg-gray-50 flex-shrink-0 flex items-center justify-between">
+        <div>
+          <h3 className="font-semibold text-gray-700 flex items-center gap-2">
+            <History className="w-4 h-4" />
+            History
+          </h3>
+          <p className="text-xs text-gray-500 mt-1">
+            {entries.length} step{entries.length === 1 ? "" : "s"} · {formatBytes(memoryUsed)}
+          </p>
+        </div>
+        <Button size="sm" variant="ghost" className="h-7 w-7 p-0" onClick={onClose} title="Close">
+          <X className="w-4 h-4" />
+        </Button>
+      </div>
+
+      <div
+        className="flex-1 overflow-y-auto p-2 min-h-0 space-y-1 scrollbar-thin scrollbar-thumb-gray-300 scrollbar-track-gray-100"
+        onMouseLeave={() => onPreviewStep(null)}
+      >
+        {renderStep(0, "Start", null)}
+        {entries.map((entry, index) => renderStep(index + 1, entry.label, entry.timestamp))}
+      </div>
+
+      <div className="p-4 border-t border-gray-200 flex-shrink-0">
+        {confirmClear ? (
+          <div className="flex items-center justify-between text-xs">
+            <span className="text-red-600">Undo and redo will be lost</span>
+            <div className="flex gap-1">
+              <Button
+                size="sm"
+                variant="destructive"
+                className="h-6 px-2"
+                onClick={() => {
+                  onClearHistory()
+                  setConfirmClear(false)
+                }}
+              >
+                Clear
+              </Button>
+              <Button size="sm" variant="ghost" className="h-6 px-2" onClick={() => setConfirmClear(false)}>
+                Cancel
+              </Button>
+            </div>
+          </div>
+        ) : (
+          <Button
+            size="sm"
+            variant="outline"
+            className="w-full flex items-center gap-2 bg-transparent"
+            disabled={entries.length === 0}
+            onClick={() => setConfirmClear(true)}
+          >
+            <Trash2 className="w-4 h-4" />
+            Clear History
+          </Button>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,473 @@
+"use client"
+
+import type React from "react"
+import { useEffect, useLayoutEffect, useRef, useState } from "react"
+import { RichTextToolbar } from "@/components/rich-text-toolbar"
+import type { TextLayer, TextSpan } from "@/lib/editor-store"
+import {
+  applySpanStyle,
+  normalizeSpans,
+  rangeStyle,
+  replaceText,
+  styleRanges,
+  toggleFormat,
+  type FormatToggle,
+  type SpanStyle,
+} from "@/lib/rich-text"
+import { colorWithAlpha } from "@/lib/scene"
+import { layoutText } from "@/lib/text-layout"
+import type { Viewport } from "@/lib/viewport"
+
+interface InlineTextEditorProps {
+  layer: TextLayer
+  viewport: Viewport
+  // Called once with the final text and its styled spans when editing ends
+  onCommit: (text: string, spans: TextSpan[]) => void
+}
+
+interface RichText {
+  text: string
+  spans: TextSpan[]
+}
+
+// Offsets into the text, end exclusive
+interface TextRange {
+  start: number
+  end: number
+}
+
+// Style picked with nothing selected, applied to what is typed next at `at`
+interface PendingStyle {
+  at: number
+  style: SpanStyle
+}
+
+// The browser's formatting commands, e.g. from Ctrl+B, mapped to the toolbar's toggles
+const FORMAT_COMMANDS: Record<string, FormatToggle> = {
+  formatBold: "bold",
+  formatItalic: "italic",
+  formatUnderline: "underline",
+}
+
+// Gap between the toolbar and the top of the text, in screen pixels
+const TOOLBAR_GAP = 44
+
+// The editable content mirrors the model as text nodes, <br>s for newlines and a
+// <span> per styled range carrying its style as JSON. A trailing newline needs one
+// extra <br> before the browser shows the empty line, which is marked as filler.
+const STYLE_ATTRIBUTE = "data-style"
+const FILLER_ATTRIBUTE = "data-filler"
+const BLOCK_TAGS = ["DIV", "P"]
+
+// Ratio of the size text is drawn at to the layer's, which auto-fit changes as the text does
+const fitScale = (layer: TextLayer, { text, spans }: RichText) =>
+  layoutText({ ...layer, text: text || " ", spans }).fontSize / (layer.fontSize || 16)
+
+const applySpanCss = (element: HTMLElement, style: SpanStyle, scale: number) => {
+  element.style.fontFamily = style.fontFamily ?? ""
+  element.style.fontWeight = style.fontWeight ?? ""
+  element.style.fontStyle = style.fontStyle ?? ""
+  element.style.color = style.fill ?? ""
+  element.style.fontSize = style.fontSize !== undefined ? `${style.fontSize * scale}px` : ""
+  element.style.textDecoration = style.underline === undefined ? "" : style.underline ? "underline" : "none"
+  element.style.verticalAlign = style.baselineShift ? `${style.baselineShift * scale}px` : ""
+}
+
+const readStyle = (element: Element, inherited: SpanStyle): SpanStyle => {
+  const data = element.getAttribute(STYLE_ATTRIBUTE)
+  if (!data) return inherited
+  try {
+    return { ...inherited, ...JSON.parse(data) }
+  } catch {
+    return inherited
+  }
+}
+
+const renderRichText = (root: HTMLElement, { text, spans }: RichText, scale: number) => {
+  root.replaceChildren()
+  styleRanges(text, spans).forEach(({ start, end, style }) => {
+    let parent: HTMLElement = root
+    if (Object.keys(style).length > 0) {
+      parent = document.createElement("span")
+      parent.setAttribute(STYLE_ATTRIBUTE, JSON.stringify(style))
+      applySpanCss(parent, style, scale)
+      root.append(parent)
+    }
+    text
+      .slice(start, end)
+      .split("\n")
+      .forEach((part, index) => {
+        if (index > 0) parent.append(document.createElement("br"))
+        if (part) parent.append(part)
+      })
+  })
+  if (text.endsWith("\n")) appendFiller(root)
+}
+
+const appendFiller = (root: HTMLElement) => {
+  const filler = document.createElement("br")
+  filler.setAttribute(FILLER_ATTRIBUTE, "")
+  root.append(filler)
+}
+
+// A node of the content and the model text it stands for
+interface Segment {
+  node: Node
+  start: number
+  text: string
+  style: SpanStyle
+  // A block element whose newline comes before its contents
+  block: boolean
+}
+
+const readSegments = (root: HTMLElement): Segment[] => {
+  const segments: Segment[] = []
+  let offset = 0
+  const push = (node: Node, text: string, style: SpanStyle, block = false) => {
+    segments.push({ node, start: offset, text, style, block })
+    offset += text.length
+  }
+  const walk = (parent: Node, style: SpanStyle) => {
+    parent.childNodes.forEach((child) => {
+      if (child.nodeType === Node.TEXT_NODE) {
+        push(child, child.textContent ?? "", style)
+      } else if (child instanceof HTMLElement) {
+        if (child.tagName === "BR") {
+          if (!child.hasAttribute(FILLER_ATTRIBUTE)) push(child, "\n", style)
+          return
+        }
+        // Blocks from markup the browser inserted start a new line
+        if (BLOCK_TAGS.includes(child.tagName) && offset > 0) push(child, "\n", style, true)
+        walk(child, readStyle(child, style))
+      }
+    })
+  }
+  walk(root, {})
+  return segments
+}
+
+const readRichText = (segments: Segment[]): RichText => {
+  const text = segments.map((segment) => segment.text).join("")
+  const styled = segments.filter((segment) => segment.text && Object.keys(segment.style).length > 0)
+  const spans = styled.map((segment) => ({ start: segment.start, end: segment.start + segment.text.length, ...segment.style }))
+  return { text, spans: normalizeSpans(text, spans) }
+}
+
+// Markup the browser added itself, such as styling carried over when typing after deleted text
+const hasForeignMarkup = (root: HTMLElement) =>
+  Array.from(root.querySelectorAll("*")).some(
+    (element) => element.tagName !== "BR" && !(element.tagName === "SPAN" && element.hasAttribute(STYLE_ATTRIBUTE)),
+  )
+
+// Offset in the text of a DOM position inside the content
+const textOffset = (segments: Segment[], container: Node, offset: number): number => {
+  const point = document.createRange()
+  point.setStart(container, offset)
+  let total = 0
+  for (const segment of segments) {
+    if (segment.node === container && container.nodeType === Node.TEXT_NODE) return segment.start + Math.min(offset, segment.text.length)
+    const boundary = document.createRange()
+    if (segment.block) boundary.setStartBefore(segment.node)
+    else boundary.setStartAfter(segment.node)
+    const comparison = point.compareBoundaryPoints(Range.START_TO_START, boundary)
+    if (segment.block ? comparison <= 0 : comparison < 0) return segment.start
+    total = segment.start + segment.text.length
+  }
+  return total
+}
+
+const positionBefore = (node: Node): [Node, number] => {
+  const parent = node.parentNode as Node
+  return [parent, Array.prototype.indexOf.call(parent.childNodes, node)]
+}
+
+// DOM position of an offset in the text, inside a text node where there is one
+const domPosition = (root: HTMLElement, segments: Segment[], offset: number): [Node, number] => {
+  for (const segment of segments) {
+    if (segment.node.nodeType === Node.TEXT_NODE) {
+      if (offset <= segment.start + segment.text.length) return [segment.node, Math.max(0, offset - segment.start)]
+    } else if (offset <= segment.start) {
+      return segment.block ? [segment.node, 0] : positionBefore(segment.node)
+    }
+  }
+  const filler = root.querySelector(`[${FILLER_ATTRIBUTE}]`)
+  return filler ? positionBefore(filler) : [root, root.childNodes.length]
+}
+
+const readSelection = (root: HTMLElement): TextRange | null => {
+  const selection = window.getSelection()
+  if (!selection || selection.rangeCount === 0) return null
+  const range = selection.getRangeAt(0)
+  if (!root.contains(range.startContainer) || !root.contains(range.endContainer)) return null
+  const segments = readSegments(root)
+  return {
+    start: textOffset(segments, range.startContainer, range.startOffset),
+    end: textOffset(segments, range.endContainer, range.endOffset),
+  }
+}
+
+const selectRange = (root: HTMLElement, { start, end }: TextRange) => {
+  const selection = window.getSelection()
+  if (!selection) return
+  const segments = readSegments(root)
+  const range = document.createRange()
+  range.setStart(...domPosition(root, segments, start))
+  range.setEnd(...domPosition(root, segments, end))
+  selection.removeAllRanges()
+  selection.addRange(range)
+}
+
+// Editable text laid over the canvas in the layer's own typography, so text is edited in
+// place, with a toolbar for styling selected characters. Escape, Ctrl/Cmd+Enter or clicking
+// elsewhere finish editing.
+export function InlineTextEditor({ layer, viewport, onCommit }: InlineTextEditorProps) {
+  const [content, setContent] = useState<RichText>(() => ({ text: layer.text, spans: normalizeSpans(layer.text, layer.spans) }))
+  const [selection, setSelection] = useState<TextRange>({ start: 0, end: layer.text.length })
+  const [pendingStyle, setPendingStyle] = useState<PendingStyle | null>(null)
+  const editorRef = useRef<HTMLDivElement>(null)
+  const committedRef = useRef(false)
+  const composingRef = useRef(false)
+  // Latest values for the native event listeners
+  const contentRef = useRef(content)
+  const selectionRef = useRef(selection)
+  const pendingStyleRef = useRef(pendingStyle)
+  const layerRef = useRef(layer)
+  layerRef.current = layer
+
+  const scale = fitScale(layer, content)
+
+  const updatePendingStyle = (pending: PendingStyle | null) => {
+    pendingStyleRef.current = pending
+    setPendingStyle(pending)
+  }
+
+  const updateSelection = (range: TextRange) => {
+    selectionRef.current = range
+    setSelection(range)
+  }
+
+  // Replace the model and redraw the content from it, keeping the selection where it belongs
+  const replaceContent = (next: RichText, range: TextRange) => {
+    contentRef.current = next
+    setContent(next)
+    updateSelection(range)
+    const root = editorRef.current
+    if (!root) return
+    renderRichText(root, next, fitScale(layerRef.current, next))
+    if (document.activeElement === root) selectRange(root, range)
+  }
+
+  // Type, paste or break a line at the selection, in any style picked for it
+  const insertText = (value: string) => {
+    const root = editorRef.current
+    const range = (root && readSelection(root)) ?? selectionRef.current
+    const { text, spans } = contentRef.current
+    let next = replaceText(text, spans, range.start, range.end, value)
+    const pending = pendingStyleRef.current
+    if (pending?.at === range.start) {
+      next = { ...next, spans: applySpanStyle(next.text, next.spans, range.start, range.start + value.length, pending.style) }
+    }
+    updatePendingStyle(null)
+    const caret = range.start + value.length
+    replaceContent(next, { start: caret, end: caret })
+  }
+
+  // Style the selection, or what is typed next when nothing is selected
+  const applyStyle = (patch: SpanStyle) => {
+    const range = selectionRef.current
+    if (range.start === range.end) {
+      const pending = pendingStyleRef.current
+      updatePendingStyle({ at: range.start, style: { ...(pending?.at === range.start ? pending.style : {}), ...patch } })
+      return
+    }
+    const { text, spans } = contentRef.current
+    replaceContent({ text, spans: applySpanStyle(text, spans, range.start, range.end, patch) }, range)
+  }
+
+  const toolbarStyle = {
+    ...rangeStyle(content.text, content.spans, selection.start, selection.end),
+    ...(pendingStyle?.at === selection.start && selection.start === selection.end ? pendingStyle.style : {}),
+  }
+
+  useLayoutEffect(() => {
+    const root = editorRef.current
+    if (!root) return
+    renderRichText(root, contentRef.current, fitScale(layerRef.current, contentRef.current))
+    root.focus()
+    selectRange(root, selectionRef.current)
+  }, [])
+
+  // Auto-fit resizes the text while typing; restyle the spans in place so the caret stays put
+  useEffect(() => {
+    editorRef.current?.querySelectorAll<HTMLElement>(`[${STYLE_ATTRIBUTE}]`).forEach((element) => {
+      applySpanCss(element, readStyle(element, {}), scale)
+    })
+  }, [scale])
+
+  useEffect(() => {
+    const onSelectionChange = () => {
+      const root = editorRef.current
+      const range = root && readSelection(root)
+      if (!range) return
+      const current = selectionRef.current
+      if (range.start !== current.start || range.end !== current.end) updateSelection(range)
+    }
+    document.addEventListener("selectionchange", onSelectionChange)
+    return () => document.removeEventListener("selectionchange", onSelectionChange)
+  }, [])
+
+  // Line breaks and the browser's own formatting commands go through the model
+  useEffect(() => {
+    const root = editorRef.current
+    if (!root) return
+    const onBeforeInput = (event: InputEvent) => {
+      if (event.inputType === "insertParagraph" || event.inputType === "insertLineBreak") {
+        event.preventDefault()
+        insertText("\n")
+      } else if (event.inputType === "insertFromDrop" || event.inputType.startsWith("format")) {
+        event.preventDefault()
+        const toggle = FORMAT_COMMANDS[event.inputType]
+        if (toggle) applyStyle(toggleFormat(layer, toolbarStyle, toggle))
+      }
+    }
+    root.addEventListener("beforeinput", onBeforeInput)
+    return () => root.removeEventListener("beforeinput", onBeforeInput)
+  })
+
+  const handleInput = () => {
+    const root = editorRef.current
+    if (!root) return
+    const previous = contentRef.current
+    const next = readRichText(readSegments(root))
+    // Keep the browser's markup while an input method is composing text; the finished
+    // composition is then handled as one insertion
+    if (composingRef.current) {
+      setContent(next)
+      return
+    }
+
+    const caret = readSelection(root) ?? { start: next.text.length, end: next.text.length }
+    const pending = pendingStyleRef.current
+    const typed = next.text.length - previous.text.length
+    if (pending && typed > 0 && pending.at === caret.start - typed) {
+      updatePendingStyle(null)
+      replaceContent({ ...next, spans: applySpanStyle(next.text, next.spans, pending.at, caret.start, pending.style) }, caret)
+    } else if (hasForeignMarkup(root)) {
+      replaceContent(next, caret)
+    } else {
+      if (next.text.endsWith("\n") && !root.querySelector(`[${FILLER_ATTRIBUTE}]`)) appendFiller(root)
+      contentRef.current = next
+      setContent(next)
+    }
+  }
+
+  const commit = () => {
+    if (committedRef.current) return
+    committedRef.current = true
+    onCommit(contentRef.current.text, contentRef.current.spans)
+  }
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLDivElement>) => {
+    // Keys that confirm an IME composition belong to the input method
+    if (e.nativeEvent.isComposing) return
+
+    if (e.key === "Escape" || (e.key === "Enter" && (e.ctrlKey || e.metaKey))) {
+      e.preventDefault()
+      commit()
+    }
+  }
+
+  // The box grows from the layer's corner but keeps turning around the centre it's drawn with
+  const box = layoutText(layer)
+  // Text in a fixed box wraps at its width while typing
+  const wraps = (layer.boxMode ?? "auto") !== "auto" && Boolean(layer.width)
+  // Edit at the size the text is drawn, refitted as it changes, and show every line
+  const fontSize = (layer.fontSize || 16) * scale
+  const size = layoutText({
+    ...layer,
+    // A trailing empty line still needs its line box
+    text: content.text || " ",
+    spans: content.spans,
+    fontSize,
+    ...(wraps ? { boxMode: "fixedWidth" as const } : { width: undefined }),
+  })
+  const width = wraps ? box.width : size.width + fontSize / 4
+  const height = Math.max(size.height, wraps ? box.height : 0)
+
+  const shadow =
+    layer.shadowBlur || layer.shadowOffsetX || layer.shadowOffsetY
+      ? `${layer.shadowOffsetX}px ${layer.shadowOffsetY}px ${layer.shadowBlur}px ${colorWithAlpha(layer.shadowColor, layer.shadowOpacity ?? 1)}`
+      : undefined
+
+  return (
+    <div
+      className="absolute top-0 left-0 z-10"
+      onKeyDown={handleKeyDown}
+      onBlur={(e) => {
+        // Moving between the text and its toolbar doesn't end editing
+        if (!e.currentTarget.contains(e.relatedTarget as Node | null)) commit()
+      }}
+    >
+      <div
+        className="absolute top-0 left-0"
+        style={{
+          transformOrigin: "0 0",
+          transform: `translate(${viewport.x}px, ${viewport.y}px) scale(${viewport.scale})`,
+        }}
+      >
+        <div
+          ref={editorRef}
+          contentEditable
+          suppressContentEditableWarning
+          role="textbox"
+          aria-multiline
+          onInput={handleInput}
+          onPaste={(e) => {
+            e.preventDefault()
+            insertText(e.clipboardData.getData("text/plain").replace(/\r\n?/g, "\n"))
+          }}
+          onCompositionStart={() => {
+            composingRef.current = true
+          }}
+          onCompositionEnd={() => {
+            composingRef.current = false
+            handleInput()
+          }}
+          spellCheck={false}
+          className={`absolute block m-0 p-0 border-0 bg-transparent overflow-hidden ${wraps ? "whitespace-pre-wrap break-words" : "whitespace-pre"}`}
+          style={{
+            left: layer.x,
+            top: layer.y,
+            width,
+            height,
+            transformOrigin: `${box.width / 2}px ${box.height / 2}px`,
+            transform: `rotate(${layer.rotation || 0}deg) scale(${layer.scaleX || 1}, ${layer.scaleY || 1})`,
+            outline: `${1 / viewport.scale}px solid #0066ff`,
+            fontFamily: layer.fontFamily || "Arial",
+            fontSize,
+            fontWeight: layer.fontWeight || "normal",
+            fontStyle: layer.fontStyle === "italic" ? "italic" : "normal",
+            textDecoration: layer.textDecoration || "none",
+            lineHeight: layer.lineHeight || 1.2,
+            letterSpacing: layer.letterSpacing || 0,
+            hyphens: layer.hyphenation ?? "manual",
+            textAlign: (layer.align || "left") as React.CSSProperties["textAlign"],
+            color: layer.fill || "#000000",
+            caretColor: layer.fill || "#000000",
+            opacity: layer.opacity ?? 1,
+            textShadow: shadow,
+          }}
+        />
+      </div>
+      <div
+        className="absolute"
+        style={{
+          left: viewport.x + layer.x * viewport.scale,
+          top: Math.max(0, viewport.y + layer.y * viewport.scale - TOOLBAR_GAP),
+        }}
+      >
+        <RichTextToolbar layer={layer} style={toolbarStyle} onApply={applyStyle} />
+      </div>
+    </div>
+  )
+}
@@ -1,28 +1,155 @@
 "use client"
 
 import { useRef, useEffect, useState } from "react"
-import { Stage, Layer, Text, Image as KonvaImage, Transformer, Group } from "react-konva"
-import type { TextLayer, ImageData } from "@/lib/editor-store"
+import { Stage, Layer, Text, Image as KonvaImage, Transformer, Group, Rect, Line, Shape } from "react-konva"
+import { InlineTextEditor } from "@/components/inline-text-editor"
+import { useFontsLoaded } from "@/hooks/use-fonts-loaded"
+import type { TextLayer, TextSpan, ImageData } from "@/lib/editor-store"
+import type { SnapLines } from "@/lib/guides"
+import { getLayerBounds, measureLayerText, unionBounds } from "@/lib/layer-bounds"
+import { richTextUpdates } from "@/lib/rich-text"
+import { buildScene, drawTextContent, type TextNode } from "@/lib/scene"
+import { DEFAULT_SNAP_THRESHOLD, snapBounds, snapPoint, type SnapGuide } from "@/lib/snapping"
+import { IDENTITY_VIEWPORT, screenToDocument, type Size, type Viewport } from "@/lib/viewport"
 
 interface KonvaCanvasProps {
   imageData: ImageData
   textLayers: TextLayer[]
-  selectedLayerId: string | null
-  onLayerSelect: (id: string | null) => void
-  onLayerUpdate: (id: string, updates: Partial<TextLayer>) => void
+  selectedLayerIds: string[]
+  onSelectionChange: (ids: string[], primaryId?: string | null) => void
+  onLayersUpdate: (updates: Record<string, Partial<TextLayer>>) => void
+  // Bracket a drag or transform so its updates become a single undo step
+  onGestureStart?: () => void
+  onGestureEnd?: () => void
+  snapEnabled?: boolean
+  snapThreshold?: number
+  snapGuides?: SnapGuide[]
+  onSnapGuidesChange?: (guides: SnapGuide[]) => void
+  // Guide and grid lines that layers snap to, in image pixels
+  snapLines?: SnapLines
+  // Zoomed and panned view filling `viewportSize`; without one the stage is the document's size
+  viewport?: Viewport
+  viewportSize?: Size | null
 }
 
+interface SelectionRect {
+  startX: number
+  startY: number
+  x: number
+  y: number
+  additive: boolean
+}
+
+const isMultiSelectEvent = (e: any) => e.evt.shiftKey || e.evt.ctrlKey || e.evt.metaKey
+
+// Holding this key while dragging turns snapping off
+const SNAP_OVERRIDE_KEY = "Alt"
+const SNAP_GUIDE_COLOR = "#ff00ff"
+
 export function KonvaCanvas({
   imageData,
   textLayers,
-  selectedLayerId,
-  onLayerSelect,
-  onLayerUpdate,
+  selectedLayerIds,
+  onSelectionChange,
+  onLayersUpdate,
+  onGestureStart,
+  onGestureEnd,
+  snapEnabled = true,
+  snapThreshold = DEFAULT_SNAP_THRESHOLD,
+  snapGuides = [],
+  onSnapGuidesChange,
+  snapLines,
+  viewport = IDENTITY_VIEWPORT,
+  viewportSize,
 }: KonvaCanvasProps) {
   const stageRef = useRef<any>(null)
   const transformerRef = useRef<any>(null)
   const imageRef = useRef<HTMLImageElement | null>(null)
   const [isDragging, setIsDragging] = useState(false)
+  // Layer whose text is being edited in place; its node is hidden meanwhile
+  const [editingLayerId, setEditingLayerId] = useState<string | null>(null)
+  const [selectionRect, setSelectionRect] = useState<SelectionRect | null>(null)
+  const snapOverrideRef = useRef(false)
+  // Transformer anchor of the current transform, which decides what it changes
+  const transformAnchorRef = useRef<string | null>(null)
+  // Node sizes come from measured text, so re-render once fonts finish loading
+  useFontsLoaded()
+
+  // Track the snap override key; dragBoundFunc doesn't receive the pointer event
+  useEffect(() => {
+    const handleKey = (event: KeyboardEvent) => {
+      if (event.key === SNAP_OVERRIDE_KEY) snapOverrideRef.current = event.type === "keydown"
+    }
+    const handleBlur = () => {
+      snapOverrideRef.current = false
+    }
+    window.addEventListener("keydown", handleKey)
+    window.addEventListener("keyup", handleKey)
+    window.addEventListener("blur", handleBlur)
+    return () => {
+      window.removeEventListener("keydown", handleKey)
+      window.removeEventListener("keyup", handleKey)
+      window.removeEventListener("blur", handleBlur)
+    }
+  }, [])
+
+  const canvasBounds = { left: 0, top: 0, right: imageData.width, bottom: imageData.height }
+  const isSnapping = () => snapEnabled && !snapOverrideRef.current
+  // The threshold is in screen pixels
+  const documentThreshold = snapThreshold / viewport.scale
+  const toScreen = (point: { x: number; y: number }) => ({
+    x: point.x * viewport.scale + viewport.x,
+    y: point.y * viewport.scale + viewport.y,
+  })
+
+  // Layers a drag of `layer` moves: the whole selection if it's part of it
+  const getMovingLayers = (layer: TextLayer) =>
+    selectedLayerIds.includes(layer.id)
+      ? textLayers.filter((l) => selectedLayerIds.includes(l.id) && !l.locked)
+      : [layer]
+
+  const getSnapTargets = (excludeIds: string[]) =>
+    textLayers.filter((l) => l.visible && !excludeIds.includes(l.id)).map(getLayerBounds)
+
+  // Snap the dragged layers as one box; the transformer moves the rest of the selection by the same offset.
+  // Konva passes and expects absolute (screen) positions.
+  // `node` is where the layer sits before the drag; its position is the centre of the text box.
+  const snapDragPosition = (layer: TextLayer, node: TextNode, absolutePos: { x: number; y: number }) => {
+    const pos = screenToDocument(viewport, absolutePos)
+    if (!isSnapping()) {
+      if (snapGuides.length > 0) onSnapGuidesChange?.([])
+      return absolutePos
+    }
+
+    const movingLayers = getMovingLayers(layer)
+    const start = unionBounds(movingLayers.map(getLayerBounds))
+    if (!start) return absolutePos
+
+    const dx = pos.x - node.x
+    const dy = pos.y - node.y
+    const moved = { left: start.left + dx, right: start.right + dx, top: start.top + dy, bottom: start.bottom + dy }
+    const result = snapBounds(
+      moved,
+      getSnapTargets(movingLayers.map((l) => l.id)),
+      canvasBounds,
+      documentThreshold,
+      snapLines,
+    )
+    onSnapGuidesChange?.(result.guides)
+    return toScreen({ x: pos.x + result.dx, y: pos.y + result.dy })
+  }
+
+  const snapAnchorPosition = (absolutePos: { x: number; y: number }) => {
+    if (!isSnapping()) {
+      if (snapGuides.length > 0) onSnapGuidesChange?.([])
+      return absolutePos
+    }
+
+    const pos = screenToDocument(viewport, absolutePos)
+    const result = snapPoint(pos, getSnapTargets(selectedLayerIds), canvasBounds, documentThreshold, snapLines)
+    onSnapGuidesChange?.(result.guides)
+    return toScreen({ x: pos.x + result.dx, y: pos.y + result.dy })
+  }
 
   // Load image
   useEffect(() => {
@@ -39,153 +166,240 @@ export function KonvaCanvas({
     }
   }, [imageData?.src])
 
-  // Handle transformer
+  // Attach the transformer to every selected, unlocked layer
   useEffect(() => {
-    if (selectedLayerId && transformerRef.current && stageRef.current) {
-      const selectedNode = stageRef.current.findOne(`#${selectedLayerId}`)
-      if (selectedNode) {
-        transformerRef.current.nodes([selectedNode])
-        transformerRef.current.getLayer().batchDraw()
-      }
-    } else if (transformerRef.current) {
-      transformerRef.current.nodes([])
-      transformerRef.current.getLayer().batchDraw()
-    }
-  }, [selectedLayerId])
+    if (!transformerRef.current || !stageRef.current) return
 
-  // Update layer dimensions when text changes
-  useEffect(() => {
-    textLayers.forEach(layer => {
-      updateLayerDimensions(layer)
-    })
-  }, [textLayers])
+    const nodes = textLayers
+      .filter((layer) => selectedLayerIds.includes(layer.id) && !layer.locked && layer.id !== editingLayerId)
+      .map((layer) => stageRef.current.findOne(`#${layer.id}`))
+      .filter(Boolean)
+    transformerRef.current.nodes(nodes)
+    transformerRef.current.getLayer().batchDraw()
+  }, [selectedLayerIds, textLayers, editingLayerId])
 
   // Enhanced drag handling
-  const handleDragStart = () => {
+  const handleDragStart = (layer: TextLayer) => {
     setIsDragging(true)
+    onGestureStart?.()
+    // Dragging an unselected layer selects just that layer
+    if (!selectedLayerIds.includes(layer.id)) {
+      onSelectionChange([layer.id], layer.id)
+    }
   }
 
+  // The transformer moves the other selected nodes along with the dragged one,
+  // so read every attached node back in one update
   const handleDragEnd = (layer: TextLayer, e: any) => {
     setIsDragging(false)
-    onLayerUpdate(layer.id, {
-      x: e.target.x(),
-      y: e.target.y(),
-    })
+    const nodes: any[] = transformerRef.current?.nodes() ?? []
+    const movedNodes = nodes.some((node) => node.id() === layer.id) ? nodes : [e.target]
+    // Nodes are positioned by their centre; layers by their top-left corner
+    onLayersUpdate(
+      Object.fromEntries(
+        movedNodes.map((node) => [node.id(), { x: node.x() - node.offsetX(), y: node.y() - node.offsetY() }]),
+      ),
+    )
+    onSnapGuidesChange?.([])
+    onGestureEnd?.()
+  }
+
+  const handleTransformStart = () => {
+    transformAnchorRef.current = transformerRef.current?.getActiveAnchor() ?? null
+    onGestureStart?.()
   }
 
-  // Enhanced transform handling
-  const handleTransformEnd = (layer: TextLayer, e: any) => {
-    const node = e.target
-    const scaleX = node.scaleX()
-    const scaleY = node.scaleY()
-
-    // Reset scale to 1 and adjust fontSize instead for better text handling
-    node.scaleX(1)
-    node.scaleY(1)
-
-    // Calculate new dimensions
-    const newWidth = layer.width ? layer.width * scaleX : (layer.text.length * (layer.fontSize || 16) * 0.6) * scaleX
-
-    onLayerUpdate(layer.id, {
-      x: node.x(),
-      y: node.y(),
-      rotation: node.rotation(),
-      fontSize: layer.fontSize * scaleX, // Scale font size instead of using scale
-      width: newWidth, // Update width for transformer bounds
-      scaleX: 1,
-      scaleY: 1,
+  // Resizing changes the text box rather than the font size, so the text re-wraps.
+  // Applied to every transformed node at once.
+  const handleTransformEnd = () => {
+    const nodes: any[] = transformerRef.current?.nodes() ?? []
+    const anchor = transformAnchorRef.current
+    const updates: Record<string, Partial<TextLayer>> = {}
+
+    nodes.forEach((node) => {
+      const layer = textLayers.find((l) => l.id === node.id())
+      if (!layer) return
+
+      // The transformer scales the node on top of the layer's own scale
+      const scaleX = Math.abs(node.scaleX() / (layer.scaleX || 1))
+      const scaleY = Math.abs(node.scaleY() / (layer.scaleY || 1))
+      node.scaleX(layer.scaleX || 1)
+      node.scaleY(layer.scaleY || 1)
+
+      // Rotating a group also swings each node around the group's centre
+      if (anchor === "rotater") {
+        updates[layer.id] = { x: node.x() - node.offsetX(), y: node.y() - node.offsetY(), rotation: node.rotation() }
+        return
+      }
+
+      // The node is positioned by its centre, which the new box keeps
+      const size = measureLayerText(layer)
+      const width = size.width * scaleX
+      const height = size.height * scaleY
+      const position = { x: node.x() - width / 2, y: node.y() - height / 2, rotation: node.rotation() }
+
+      // Side anchors only fix the width; the height then follows the wrapped text
+      updates[layer.id] =
+        (anchor === "middle-left" || anchor === "middle-right") && layer.boxMode !== "fixedSize"
+          ? { ...position, width, boxMode: "fixedWidth" }
+          : { ...position, width, height, boxMode: "fixedSize" }
     })
+
+    onLayersUpdate(updates)
+    onSnapGuidesChange?.([])
+    onGestureEnd?.()
   }
 
-  // Update layer dimensions when text changes
-  const updateLayerDimensions = (layer: TextLayer) => {
-    const textWidth = layer.text.length * (layer.fontSize || 16) * 0.6
-    const textHeight = (layer.fontSize || 16) * (layer.lineHeight || 1.2)
-    
-    if (layer.width !== textWidth) {
-      onLayerUpdate(layer.id, { width: textWidth })
+  const handleLayerClick = (layer: TextLayer, e: any) => {
+    if (isMultiSelectEvent(e)) {
+      const isSelected = selectedLayerIds.includes(layer.id)
+      onSelectionChange(
+        isSelected ? selectedLayerIds.filter((id) => id !== layer.id) : [...selectedLayerIds, layer.id],
+        isSelected ? null : layer.id,
+      )
+    } else {
+      onSelectionChange([layer.id], layer.id)
     }
   }
 
+  const handleLayerDoubleClick = (layer: TextLayer) => {
+    if (layer.locked) return
+    onSelectionChange([layer.id], layer.id)
+    setEditingLayerId(layer.id)
+  }
+
+  // The whole edit is a single update, and only if the text changed
+  const handleEditCommit = (text: string, spans: TextSpan[]) => {
+    const layer = textLayers.find((l) => l.id === editingLayerId)
+    setEditingLayerId(null)
+    const updates = layer ? richTextUpdates(layer, text, spans) : {}
+    if (layer && Object.keys(updates).length > 0) {
+      onLayersUpdate({ [layer.id]: updates })
+    }
+  }
+
+  const editingLayer = textLayers.find((layer) => layer.id === editingLayerId)
+  const scene = buildScene(imageData, textLayers)
+
+  // Marquee selection on empty stage space; shift adds to the current selection
+  const handleStageMouseDown = (e: any) => {
+    // Prevent stage click when dragging
+    if (isDragging) {
+      e.evt.preventDefault()
+      return
+    }
+    if (e.target !== e.target.getStage()) return
+
+    const { x, y } = e.target.getStage().getRelativePointerPosition()
+    setSelectionRect({ startX: x, startY: y, x, y, additive: isMultiSelectEvent(e) })
+  }
+
+  const handleStageMouseMove = (e: any) => {
+    if (!selectionRect) return
+    const { x, y } = e.target.getStage().getRelativePointerPosition()
+    setSelectionRect({ ...selectionRect, x, y })
+  }
+
+  const handleStageMouseUp = () => {
+    if (!selectionRect || !stageRef.current) return
+
+    const box = {
+      x: Math.min(selectionRect.startX, selectionRect.x),
+      y: Math.min(selectionRect.startY, selectionRect.y),
+      width: Math.abs(selectionRect.x - selectionRect.startX),
+      height: Math.abs(selectionRect.y - selectionRect.startY),
+    }
+    setSelectionRect(null)
+
+    // A click without a drag clears the selection
+    if (box.width < 3 && box.height < 3) {
+      if (!selectionRect.additive) onSelectionChange([])
+      return
+    }
+
+    const hitIds = textLayers
+      .filter((layer) => layer.visible && !layer.locked)
+      .filter((layer) => {
+        const rect = stageRef.current.findOne(`#${layer.id}`)?.getClientRect({ relativeTo: stageRef.current })
+        return (
+          rect &&
+          rect.x <= box.x + box.width &&
+          rect.x + rect.width >= box.x &&
+          rect.y <= box.y + box.height &&
+          rect.y + rect.height >= box.y
+        )
+      })
+      .map((layer) => layer.id)
+
+    onSelectionChange(selectionRect.additive ? Array.from(new Set([...selectedLayerIds, ...hitIds])) : hitIds)
+  }
+
   return (
     <div className="relative bg-white shadow-lg rounded-lg overflow-hidden">
       <Stage
         ref={stageRef}
-        width={imageData.displayWidth}
-        height={imageData.displayHeight}
-        onClick={(e) => {
-          if (e.target === e.target.getStage()) {
-            onLayerSelect(null)
-          }
-        }}
-        onMouseDown={(e) => {
-          // Prevent stage click when dragging
-          if (isDragging) {
-            e.evt.preventDefault()
-          }
-        }}
+        width={viewportSize ? viewportSize.width : imageData.width}
+        height={viewportSize ? viewportSize.height : imageData.height}
+        scaleX={viewport.scale}
+        scaleY={viewport.scale}
+        x={viewport.x}
+        y={viewport.y}
+        onMouseDown={handleStageMouseDown}
+        onMouseMove={handleStageMouseMove}
+        onMouseUp={handleStageMouseUp}
       >
         <Layer>
-          {/* Background Image */}
-          {imageRef.current && (
-            <KonvaImage image={imageRef.current} width={imageData.displayWidth} height={imageData.displayHeight} />
-          )}
+          {/* Only the image area is exported, so nothing outside it is shown */}
+          <Group clipX={0} clipY={0} clipWidth={imageData.width} clipHeight={imageData.height}>
+            {/* Background and text layers, drawn from the same scene as the exporter */}
+            {scene.nodes.map((node) => {
+              if (node.kind === "image") {
+                return (
+                  imageRef.current && (
+                    <KonvaImage key="image" image={imageRef.current} width={node.width} height={node.height} />
+                  )
+                )
+              }
+
+              const layer = textLayers.find((l) => l.id === node.id)
+              if (!layer) return null
+              const { width: textWidth, height: textHeight } = node.layout
 
-          {/* Text Layers - sorted by zIndex */}
-          {textLayers
-            .filter((layer) => layer.visible)
-            .sort((a, b) => (a.zIndex || 0) - (b.zIndex || 0))
-            .map((layer) => {
-              // Calculate text dimensions for proper transformer bounds
-              const textWidth = layer.width || (layer.text.length * (layer.fontSize || 16) * 0.6)
-              const textHeight = (layer.fontSize || 16) * (layer.lineHeight || 1.2)
-              
               return (
                 <Group
                   key={layer.id}
                   id={layer.id}
-                  x={layer.x}
-                  y={layer.y}
+                  // Positioned by the centre of the text box, which rotation and scale pivot around
+                  x={node.x}
+                  y={node.y}
+                  offsetX={textWidth / 2}
+                  offsetY={textHeight / 2}
+                  rotation={node.rotation}
+                  scaleX={node.scaleX}
+                  scaleY={node.scaleY}
+                  visible={layer.id !== editingLayerId}
                   draggable={!layer.locked}
-                  onClick={() => onLayerSelect(layer.id)}
-                  onDragStart={handleDragStart}
+                  dragBoundFunc={(pos) => snapDragPosition(layer, node, pos)}
+                  onClick={(e) => handleLayerClick(layer, e)}
+                  onDblClick={() => handleLayerDoubleClick(layer)}
+                  onDragStart={() => handleDragStart(layer)}
                   onDragEnd={(e) => handleDragEnd(layer, e)}
-                  onTransformEnd={(e) => handleTransformEnd(layer, e)}
                 >
-                  <Text
-                    text={layer.text}
-                    fontSize={layer.fontSize}
-                    fontFamily={layer.fontFamily}
-                    fill={layer.fill}
-                    fontStyle={layer.fontStyle}
-                    textDecoration={layer.textDecoration}
-                    align={layer.align}
-                    opacity={layer.opacity}
-                    rotation={layer.rotation}
-                    scaleX={layer.scaleX}
-                    scaleY={layer.scaleY}
-                    lineHeight={layer.lineHeight}
-                    letterSpacing={layer.letterSpacing}
-                    shadowColor={layer.shadowColor}
-                    shadowBlur={layer.shadowBlur}
-                    shadowOffsetX={layer.shadowOffsetX}
-                    shadowOffsetY={layer.shadowOffsetY}
-                    shadowOpacity={layer.shadowOpacity}
-                    // Position text properly for transformer bounds
-                    x={0}
-                    y={0}
-                    offsetX={0}
-                    offsetY={0}
-                    // Ensure proper text alignment
-                    textAlign={layer.align}
-                    verticalAlign="middle"
-                    // Set explicit dimensions for transformer
+                  <Shape
+                    // Sized explicitly so the transformer hugs the text box
                     width={textWidth}
                     height={textHeight}
+                    sceneFunc={(context) => drawTextContent(context._context, node)}
+                    hitFunc={(context, shape) => {
+                      context.beginPath()
+                      context.rect(0, 0, textWidth, textHeight)
+                      context.closePath()
+                      context.fillStrokeShape(shape)
+                    }}
                   />
-                  
+
                   {/* Z-index indicator (only show when selected) */}
-                  {selectedLayerId === layer.id && (
+                  {selectedLayerIds.includes(layer.id) && (
                     <Text
                       text={`Z: ${layer.zIndex || 0}`}
                       fontSize={10}
@@ -199,11 +413,15 @@ export function KonvaCanvas({
                 </Group>
               )
             })}
+          </Group>
 
-          {/* Enhanced Transformer for selected layer */}
-          {selectedLayerId && (
+          {/* Enhanced Transformer for the selected layers */}
+          {selectedLayerIds.length > 0 && (
             <Transformer
               ref={transformerRef}
+              onTransformStart={handleTransformStart}
+              onTransformEnd={handleTransformEnd}
+              anchorDragBoundFunc={(_oldPos, newPos) => snapAnchorPosition(newPos)}
               boundBoxFunc={(oldBox, newBox) => {
                 // Prevent text from becoming too small
                 if (newBox.width < 20 || newBox.height < 20) {
@@ -212,7 +430,7 @@ export function KonvaCanvas({
                 return newBox
               }}
               // Enable all transformation handles
-              enabledAnchors={['middle-left', 'middle-right', 'top-middle', 'bottom-middle', 'top-left', 'top-right', 'bottom-left', 'bottom-right']}
+              enabledAnchors={['middle-left', 'middle-right', 'top-center', 'bottom-center', 'top-left', 'top-right', 'bottom-left', 'bottom-right']}
               // Enable rotation
               rotateEnabled={true}
               // Custom handle styles
@@ -246,8 +464,45 @@ export function KonvaCanvas({
               centeredRotation={true}
             />
           )}
+
+          {/* Marquee selection */}
+          {selectionRect && (
+            <Rect
+              x={Math.min(selectionRect.startX, selectionRect.x)}
+              y={Math.min(selectionRect.startY, selectionRect.y)}
+              width={Math.abs(selectionRect.x - selectionRect.startX)}
+              height={Math.abs(selectionRect.y - selectionRect.startY)}
+              fill="rgba(0, 102, 255, 0.08)"
+              stroke="#0066ff"
+              strokeWidth={1}
+              dash={[4, 3]}
+              listening={false}
+            />
+          )}
+        </Layer>
+
+        {/* Snap guides overlay */}
+        <Layer listening={false}>
+          {snapGuides.map((guide, index) => (
+            <Line
+              key={index}
+              points={guide.points}
+              stroke={SNAP_GUIDE_COLOR}
+              strokeWidth={1 / viewport.scale}
+              dash={guide.kind === "spacing" ? [4, 2] : undefined}
+            />
+          ))}
         </Layer>
       </Stage>
+
+      {editingLayer && (
+        <InlineTextEditor
+          key={editingLayer.id}
+          layer={editingLayer}
+          viewport={viewport}
+          onCommit={handleEditCommit}
+        />
+      )}
     </div>
   )
 }
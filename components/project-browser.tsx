@@ -0,0 +1,208 @@
+"use client"
+
+import { useState, useEffect, useCallback } from "react"
+import { formatDistanceToNow } from "date-fns"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { Copy, Pencil, Plus, Search, Trash2 } from "lucide-react"
+import { ProjectLibrary, type ProjectRecord } from "@/lib/project-library"
+import { TabCoordinator } from "@/lib/tab-coordinator"
+import { BlobThumbnail } from "@/components/blob-thumbnail"
+
+interface ProjectBrowserProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  activeProjectId: string | null
+  onOpenProject: (project: ProjectRecord) => void
+  onCreateProject: () => void
+  onActiveProjectChanged: (project: ProjectRecord | null) => void
+}
+
+const isOpenElsewhere = (projectId: string) => {
+  const owner = TabCoordinator.getOwner(projectId)
+  return !!owner && owner.tabId !== TabCoordinator.tabId
+}
+
+export function ProjectBrowser({
+  open,
+  onOpenChange,
+  activeProjectId,
+  onOpenProject,
+  onCreateProject,
+  onActiveProjectChanged,
+}: ProjectBrowserProps) {
+  const [projects, setProjects] = useState<ProjectRecord[]>([])
+  const [searchTerm, setSearchTerm] = useState("")
+  const [renamingId, setRenamingId] = useState<string | null>(null)
+  const [renameValue, setRenameValue] = useState("")
+  const [confirmDeleteId, setConfirmDeleteId] = useState<string | null>(null)
+
+  const refresh = useCallback(async () => {
+    try {
+      setProjects(await ProjectLibrary.list(searchTerm))
+    } catch (error) {
+      console.error("Failed to list projects:", error)
+    }
+  }, [searchTerm])
+
+  useEffect(() => {
+    if (open) {
+      refresh()
+    } else {
+      setRenamingId(null)
+      setConfirmDeleteId(null)
+    }
+  }, [open, refresh])
+
+  const handleRename = useCallback(
+    async (id: string) => {
+      const renamed = await ProjectLibrary.rename(id, renameValue)
+      setRenamingId(null)
+      if (renamed && id === activeProjectId) {
+        onActiveProjectChanged(renamed)
+      }
+      refresh()
+    },
+    [renameValue, activeProjectId, onActiveProjectChanged, refresh],
+  )
+
+  const handleDuplicate = useCallback(
+    async (id: string) => {
+      await ProjectLibrary.duplicate(id)
+      refresh()
+    },
+    [refresh],
+  )
+
+  const handleDelete = useCallback(
+    async (id: string) => {
+      await ProjectLibrary.delete(id)
+      setConfirmDeleteId(null)
+      if (id === activeProjectId) {
+        onActiveProjectChanged(null)
+      }
+      refresh()
+    },
+    [activeProjectId, onActiveProjectChanged, refresh],
+  )
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>Projects</DialogTitle>
+          <DialogDescription>Projects are stored in this browser and saved automatically.</DialogDescription>
+        </DialogHeader>
+
+        <div className="flex items-center gap-2">
+          <div className="relative flex-1">
+            <Search className="absolute left-2 top-2.5 h-4 w-4 text-gray-400" />
+            <Input
+              placeholder="Search projects..."
+              value={searchTerm}
+              onChange={(e) => setSearchTerm(e.target.value)}
+              className="pl-8"
+            />
+          </div>
+          <Button onClick={onCreateProject} className="flex items-center gap-2">
+            <Plus className="w-4 h-4" />
+            New Project
+          </Button>
+        </div>
+
+        <div className="max-h-[60vh] overflow-y-auto">
+          {projects.length === 0 ? (
+            <p className="text-sm text-gray-500 text-center py-8">
+              {searchTerm ? "No projects match your search" : "No projects yet"}
+            </p>
+          ) : (
+            <div className="grid grid-cols-3 gap-3">
+              {projects.map((project) => (
+                <div
+                  key={project.id}
+                  className={`p-2 border rounded-lg transition-colors ${
+                    project.id === activeProjectId ? "border-blue-500 bg-blue-50" : "border-gray-200 hover:border-gray-300"
+                  }`}
+                >
+                  <button className="w-full text-left" onClick={() => onOpenProject(project)} title="Open project">
+                    <BlobThumbnail thumbnail={project.thumbnail} />
+                  </button>
+
+                  {renamingId === project.id ? (
+                    <Input
+                      autoFocus
+                      value={renameValue}
+                      onChange={(e) => setRenameValue(e.target.value)}
+                      onBlur={() => handleRename(project.id)}
+                      onKeyDown={(e) => {
+                        if (e.key === "Enter") handleRename(project.id)
+                        if (e.key === "Escape") setRenamingId(null)
+                      }}
+                      className="mt-2 h-7 text-sm"
+                    />
+                  ) : (
+                    <p className="mt-2 text-sm font-medium truncate" title={project.name}>
+                      {project.name}
+                    </p>
+                  )}
+                  <p className="text-xs text-gray-500">
+                    Edited {formatDistanceToNow(project.updatedAt, { addSuffix: true })}
+                  </p>
+                  {isOpenElsewhere(project.id) && <p className="text-xs text-amber-600">Open in another tab</p>}
+
+                  {confirmDeleteId === project.id ? (
+                    <div className="flex items-center justify-between mt-2 text-xs">
+                      <span className="text-red-600">Delete project?</span>
+                      <div className="flex gap-1">
+                        <Button size="sm" variant="destructive" className="h-6 px-2" onClick={() => handleDelete(project.id)}>
+                          Delete
+                        </Button>
+                        <Button size="sm" variant="ghost" className="h-6 px-2" onClick={() => setConfirmDeleteId(null)}>
+                          Cancel
+                        </Button>
+                      </div>
+                    </div>
+                  ) : (
+                    <div className="flex items-center gap-1 mt-2">
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        className="h-6 w-6 p-0"
+                        title="Rename"
+                        onClick={() => {
+                          setRenamingId(project.id)
+                          setRenameValue(project.name)
+                        }}
+                      >
+                        <Pencil className="w-3 h-3" />
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        className="h-6 w-6 p-0"
+                        title="Duplicate"
+                        onClick={() => handleDuplicate(project.id)}
+                      >
+                        <Copy className="w-3 h-3" />
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        className="h-6 w-6 p-0 text-red-500 hover:text-red-700"
+                        title="Delete"
+                        onClick={() => setConfirmDeleteId(project.id)}
+                      >
+                        <Trash2 className="w-3 h-3" />
+                      </Button>
+                    </div>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,145 @@
+"use client"
+
+import type React from "react"
+import { Button } from "@/components/ui/button"
+import { Bold, Italic, RemoveFormatting, Subscript, Superscript, Underline } from "lucide-react"
+import type { TextLayer } from "@/lib/editor-store"
+import { fontManager } from "@/lib/font-manager"
+import { isFormatActive, toggleFormat, type FormatToggle, type SpanStyle } from "@/lib/rich-text"
+
+interface RichTextToolbarProps {
+  layer: TextLayer
+  // Style the selected characters have in common
+  style: SpanStyle
+  onApply: (patch: SpanStyle) => void
+}
+
+// Superscript and subscript size and shift, as fractions of the surrounding text's size
+const SCRIPT_SIZE = 0.65
+const SUPERSCRIPT_SHIFT = 0.35
+const SUBSCRIPT_SHIFT = 0.15
+
+const CLEAR_STYLE: SpanStyle = {
+  fontFamily: undefined,
+  fontWeight: undefined,
+  fontStyle: undefined,
+  fill: undefined,
+  fontSize: undefined,
+  underline: undefined,
+  baselineShift: undefined,
+}
+
+// Spans only record what differs from the layer, so a value equal to the layer's clears the key
+const unlessLayer = <T,>(value: T, layerValue: T): T | undefined => (value === layerValue ? undefined : value)
+
+const roundSize = (size: number) => Math.round(size * 10) / 10
+
+// Formatting for the characters selected in the inline editor. Buttons keep the editor
+// focused; the inputs take focus and the editor keeps its selection meanwhile.
+export function RichTextToolbar({ layer, style, onApply }: RichTextToolbarProps) {
+  const fonts = fontManager.getAllFonts()
+  const fontFamily = style.fontFamily ?? layer.fontFamily
+  const fontSize = style.fontSize ?? layer.fontSize
+  const shift = style.baselineShift ?? 0
+
+  // Scripts are sized from the text around them, not from an already shrunk script
+  const toggleScript = (direction: 1 | -1) => {
+    if (Math.sign(shift) === direction) {
+      onApply({ fontSize: undefined, baselineShift: undefined })
+      return
+    }
+    const base = shift ? layer.fontSize : fontSize
+    onApply({
+      fontSize: roundSize(base * SCRIPT_SIZE),
+      baselineShift: roundSize(base * (direction > 0 ? SUPERSCRIPT_SHIFT : -SUBSCRIPT_SHIFT)),
+    })
+  }
+
+  const selectFont = (family: string) => {
+    const googleFont = fonts.google.find((font) => font.family === family)
+    if (googleFont && !fontManager.isFontLoaded(family)) {
+      // Text is laid out again once the font arrives
+      void fontManager.loadGoogleFontWithRetry(family, googleFont.variants, 2)
+    }
+    onApply({ fontFamily: unlessLayer(family, layer.fontFamily) })
+  }
+
+  const toggleButton = (active: boolean, title: string, icon: React.ReactNode, onClick: () => void) => (
+    <Button size="sm" variant={active ? "secondary" : "ghost"} className="h-7 w-7 p-0" title={title} onClick={onClick}>
+      {icon}
+    </Button>
+  )
+
+  const formatButton = (toggle: FormatToggle, title: string, icon: React.ReactNode) =>
+    toggleButton(isFormatActive(layer, style, toggle), title, icon, () => onApply(toggleFormat(layer, style, toggle)))
+
+  const knownFonts = [...fonts.system, ...fonts.google.map((font) => font.family), ...fonts.custom.map((font) => font.family)]
+
+  return (
+    <div
+      className="flex items-center gap-1 bg-white border border-gray-200 shadow-sm rounded-lg px-2 py-1"
+      onMouseDown={(e) => {
+        // Clicking anything but a field leaves the caret and selection in the text
+        if (!(e.target instanceof HTMLInputElement || e.target instanceof HTMLSelectElement)) e.preventDefault()
+      }}
+    >
+      <select
+        value={fontFamily}
+        onChange={(e) => selectFont(e.target.value)}
+        className="h-7 w-32 px-1 border border-gray-300 rounded text-xs"
+        title="Font"
+      >
+        {!knownFonts.includes(fontFamily) && <option value={fontFamily}>{fontFamily}</option>}
+        <optgroup label="System">
+          {fonts.system.map((family) => (
+            <option key={family} value={family}>
+              {family}
+            </option>
+          ))}
+        </optgroup>
+        <optgroup label="Google">
+          {fonts.google.map((font) => (
+            <option key={font.family} value={font.family}>
+              {font.family}
+            </option>
+          ))}
+        </optgroup>
+        {fonts.custom.length > 0 && (
+          <optgroup label="Custom">
+            {fonts.custom.map((font) => (
+              <option key={font.id} value={font.family}>
+                {font.name}
+              </option>
+            ))}
+          </optgroup>
+        )}
+      </select>
+      <input
+        type="number"
+        min={1}
+        value={Math.round(fontSize * 10) / 10}
+        onChange={(e) => {
+          const value = Number.parseFloat(e.target.value)
+          if (Number.isFinite(value) && value >= 1) onApply({ fontSize: unlessLayer(value, layer.fontSize) })
+        }}
+        className="h-7 w-14 px-1 border border-gray-300 rounded text-xs"
+        title="Font size"
+      />
+      <input
+        type="color"
+        value={style.fill ?? layer.fill}
+        onChange={(e) => onApply({ fill: unlessLayer(e.target.value, layer.fill) })}
+        className="h-7 w-7 p-0.5 border border-gray-300 rounded"
+        title="Text color"
+      />
+      <div className="w-px h-5 bg-gray-200 mx-1" />
+      {formatButton("bold", "Bold (Ctrl+B)", <Bold className="w-4 h-4" />)}
+      {formatButton("italic", "Italic (Ctrl+I)", <Italic className="w-4 h-4" />)}
+      {formatButton("underline", "Underline (Ctrl+U)", <Underline className="w-4 h-4" />)}
+      {toggleButton(shift > 0, "Superscript", <Superscript className="w-4 h-4" />, () => toggleScript(1))}
+      {toggleButton(shift < 0, "Subscript", <Subscript className="w-4 h-4" />, () => toggleScript(-1))}
+      <div className="w-px h-5 bg-gray-200 mx-1" />
+      {toggleButton(false, "Clear formatting", <RemoveFormatting className="w-4 h-4" />, () => onApply(CLEAR_STYLE))}
+    </div>
+  )
+}
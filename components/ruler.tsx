@@ -0,0 +1,110 @@
+"use client"
+
+import type React from "react"
+import { useEffect, useRef } from "react"
+import type { Viewport } from "@/lib/viewport"
+
+export const RULER_SIZE = 20
+
+interface RulerProps {
+  // A horizontal ruler runs along the top and measures x; a vertical one runs down the side and measures y
+  orientation: "horizontal" | "vertical"
+  viewport: Viewport
+  // Length in screen pixels, starting at the view's edge
+  length: number
+  onPointerDown?: (event: React.PointerEvent<HTMLCanvasElement>) => void
+}
+
+// Labelled ticks are at least this far apart on screen
+const MIN_LABEL_GAP = 50
+const STEPS = [1, 2, 5]
+
+// Smallest 1/2/5 × 10^n image-pixel step that leaves room for labels at this scale
+const labelStep = (scale: number) => {
+  for (let magnitude = 1; ; magnitude *= 10) {
+    const step = STEPS.map((base) => base * magnitude).find((candidate) => candidate * scale >= MIN_LABEL_GAP)
+    if (step) return step
+  }
+}
+
+export function Ruler({ orientation, viewport, length, onPointerDown }: RulerProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null)
+  const horizontal = orientation === "horizontal"
+
+  useEffect(() => {
+    const canvas = canvasRef.current
+    const ctx = canvas?.getContext("2d")
+    if (!canvas || !ctx) return
+
+    // Draw at device resolution so ticks and labels stay crisp
+    const ratio = window.devicePixelRatio || 1
+    const width = horizontal ? length : RULER_SIZE
+    const height = horizontal ? RULER_SIZE : length
+    canvas.width = Math.round(width * ratio)
+    canvas.height = Math.round(height * ratio)
+    ctx.setTransform(ratio, 0, 0, ratio, 0, 0)
+
+    ctx.fillStyle = "#f3f4f6"
+    ctx.fillRect(0, 0, width, height)
+    ctx.strokeStyle = "#9ca3af"
+    ctx.fillStyle = "#4b5563"
+    ctx.font = "9px sans-serif"
+    ctx.lineWidth = 1
+
+    const offset = horizontal ? viewport.x : viewport.y
+    const step = labelStep(viewport.scale)
+    const minor = step / 10
+    const first = Math.floor(-offset / viewport.scale / minor) * minor
+    const last = (length - offset) / viewport.scale
+
+    ctx.beginPath()
+    for (let value = first; value <= last; value += minor) {
+      const screen = Math.round(value * viewport.scale + offset) + 0.5
+      const index = Math.round(value / minor)
+      const size = index % 10 === 0 ? RULER_SIZE : index % 5 === 0 ? RULER_SIZE / 2 : RULER_SIZE / 4
+      if (horizontal) {
+        ctx.moveTo(screen, RULER_SIZE)
+        ctx.lineTo(screen, RULER_SIZE - size)
+      } else {
+        ctx.moveTo(RULER_SIZE, screen)
+        ctx.lineTo(RULER_SIZE - size, screen)
+      }
+
+      if (index % 10 === 0) {
+        const label = String(Math.round(value))
+        if (horizontal) {
+          ctx.fillText(label, screen + 3, 9)
+        } else {
+          // Vertical labels read bottom to top
+          ctx.save()
+          ctx.translate(9, screen - 3)
+          ctx.rotate(-Math.PI / 2)
+          ctx.fillText(label, 0, 0)
+          ctx.restore()
+        }
+      }
+    }
+    ctx.stroke()
+
+    // Edge towards the canvas
+    ctx.beginPath()
+    if (horizontal) {
+      ctx.moveTo(0, RULER_SIZE - 0.5)
+      ctx.lineTo(width, RULER_SIZE - 0.5)
+    } else {
+      ctx.moveTo(RULER_SIZE - 0.5, 0)
+      ctx.lineTo(RULER_SIZE - 0.5, height)
+    }
+    ctx.stroke()
+  }, [horizontal, length, viewport.scale, viewport.x, viewport.y])
+
+  return (
+    <canvas
+      ref={canvasRef}
+      onPointerDown={onPointerDown}
+      className={`absolute top-0 left-0 ${horizontal ? "cursor-row-resize" : "cursor-col-resize"}`}
+      style={horizontal ? { width: length, height: RULER_SIZE } : { width: RULER_SIZE, height: length }}
+      title="Drag to add a guide"
+    />
+  )
+}
@@ -0,0 +1,51 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Progress } from "@/components/ui/progress"
+import { AutosaveManager, type StorageUsage } from "@/lib/autosave-manager"
+import { formatBytes } from "@/lib/utils"
+
+interface StorageUsageIndicatorProps {
+  // Changes whenever usage should be measured again, e.g. after a save
+  refreshKey?: unknown
+}
+
+export function StorageUsageIndicator({ refreshKey }: StorageUsageIndicatorProps) {
+  const [usage, setUsage] = useState<StorageUsage | null>(null)
+
+  useEffect(() => {
+    let cancelled = false
+    AutosaveManager.getStorageUsage()
+      .then((result) => {
+        if (!cancelled) setUsage(result)
+      })
+      .catch((error) => console.warn("Could not measure storage usage:", error))
+    return () => {
+      cancelled = true
+    }
+  }, [refreshKey])
+
+  if (!usage) return null
+
+  const localPercent = Math.min(100, (usage.localStorageBytes / usage.localStorageLimit) * 100)
+
+  return (
+    <div className="space-y-1 mt-2">
+      <div className="flex justify-between">
+        <span>Local storage</span>
+        <span>
+          {formatBytes(usage.localStorageBytes)} of ~{formatBytes(usage.localStorageLimit)}
+        </span>
+      </div>
+      <Progress value={localPercent} className={`h-1.5 ${localPercent > 80 ? "[&>div]:bg-amber-500" : ""}`} />
+      {usage.usage !== null && usage.quota !== null && (
+        <div className="flex justify-between">
+          <span>Browser storage</span>
+          <span>
+            {formatBytes(usage.usage)} of {formatBytes(usage.quota)}
+          </span>
+        </div>
+      )}
+    </div>
+  )
+}
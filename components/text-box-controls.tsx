@@ -0,0 +1,161 @@
+"use client"
+
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Switch } from "@/components/ui/switch"
+import type { AutoFit, Hyphenation, TextBoxMode, TextLayer, TextOverflow } from "@/lib/editor-store"
+import { measureLayerText } from "@/lib/layer-bounds"
+import { layoutText } from "@/lib/text-layout"
+import { DEFAULT_AUTO_FIT } from "@/lib/text-style"
+
+type LayerUpdates = Partial<TextLayer> | ((layer: TextLayer) => Partial<TextLayer>)
+
+interface TextBoxControlsProps {
+  // Layer whose settings are shown; changes apply to the whole selection
+  layer: TextLayer
+  onUpdate: (updates: LayerUpdates) => void
+}
+
+const SELECT_CLASS = "mt-1 w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+
+// Switching to a fixed box starts from the size the text has now
+const boxModeUpdates =
+  (mode: TextBoxMode) =>
+  (layer: TextLayer): Partial<TextLayer> => {
+    // Auto-fit only works in a box with both sides fixed
+    if (mode === "auto") return { boxMode: "auto", width: undefined, height: undefined, autoFit: undefined }
+    const size = measureLayerText(layer)
+    return mode === "fixedWidth"
+      ? { boxMode: mode, width: size.width, autoFit: undefined }
+      : { boxMode: mode, width: size.width, height: size.height }
+  }
+
+// Turning auto-fit on fixes the box first if needed
+const autoFitUpdates =
+  (enabled: boolean) =>
+  (layer: TextLayer): Partial<TextLayer> => {
+    if (!enabled) return { autoFit: undefined }
+    const box = layer.boxMode === "fixedSize" ? {} : boxModeUpdates("fixedSize")(layer)
+    return { ...box, autoFit: DEFAULT_AUTO_FIT }
+  }
+
+export function TextBoxControls({ layer, onUpdate }: TextBoxControlsProps) {
+  const mode = layer.boxMode ?? "auto"
+  const size = measureLayerText(layer)
+  const autoFit = mode === "fixedSize" ? layer.autoFit : undefined
+
+  // Keeps the range valid by moving the other bound along with the one being edited
+  const autoFitField = (label: string, key: keyof AutoFit) => (
+    <div>
+      <Label className="text-xs">{label}</Label>
+      <Input
+        type="number"
+        min={1}
+        value={autoFit?.[key] ?? ""}
+        onChange={(e) => {
+          const value = Number.parseFloat(e.target.value)
+          if (!autoFit || !Number.isFinite(value) || value < 1) return
+          const range = { ...autoFit, [key]: value }
+          if (key === "minFontSize") range.maxFontSize = Math.max(range.maxFontSize, value)
+          else range.minFontSize = Math.min(range.minFontSize, value)
+          onUpdate({ autoFit: range })
+        }}
+        className="h-8 mt-1"
+      />
+    </div>
+  )
+
+  const sizeField = (label: string, key: "width" | "height") => (
+    <div>
+      <Label>{label}</Label>
+      <Input
+        type="number"
+        min={1}
+        value={Math.round(size[key])}
+        onChange={(e) => {
+          const value = Number.parseFloat(e.target.value)
+          if (Number.isFinite(value) && value >= 1) onUpdate({ [key]: value })
+        }}
+        className="mt-1"
+      />
+    </div>
+  )
+
+  return (
+    <div className="space-y-2">
+      <div>
+        <Label>Text Box</Label>
+        <select
+          value={mode}
+          onChange={(e) => onUpdate(boxModeUpdates(e.target.value as TextBoxMode))}
+          className={SELECT_CLASS}
+        >
+          <option value="auto">Auto width</option>
+          <option value="fixedWidth">Fixed width (wraps)</option>
+          <option value="fixedSize">Fixed width and height</option>
+        </select>
+      </div>
+
+      {mode !== "auto" && (
+        <div className="grid grid-cols-2 gap-2">
+          {sizeField("Box Width", "width")}
+          {mode === "fixedSize" ? (
+            sizeField("Box Height", "height")
+          ) : (
+            <div>
+              <Label>Box Height</Label>
+              <Input value={`${Math.round(size.height)} (auto)`} disabled className="mt-1" />
+            </div>
+          )}
+        </div>
+      )}
+
+      {mode !== "auto" && (
+        <div className="grid grid-cols-2 gap-2">
+          <div>
+            <Label>Hyphenation</Label>
+            <select
+              value={layer.hyphenation ?? "manual"}
+              onChange={(e) => onUpdate({ hyphenation: e.target.value as Hyphenation })}
+              className={SELECT_CLASS}
+              title="Manual breaks at hyphens and soft hyphens; automatic may break any word"
+            >
+              <option value="none">None</option>
+              <option value="manual">Manual</option>
+              <option value="auto">Automatic</option>
+            </select>
+          </div>
+          {mode === "fixedSize" && (
+            <div>
+              <Label>Overflow</Label>
+              <select
+                value={layer.overflow ?? "visible"}
+                onChange={(e) => onUpdate({ overflow: e.target.value as TextOverflow })}
+                className={SELECT_CLASS}
+              >
+                <option value="visible">Visible</option>
+                <option value="clip">Clip</option>
+                <option value="ellipsis">Ellipsis (…)</option>
+                <option value="shrink">Shrink to fit</option>
+              </select>
+            </div>
+          )}
+        </div>
+      )}
+
+      <div className="flex items-center justify-between">
+        <Label htmlFor="text-auto-fit">Auto-fit text to box</Label>
+        <Switch id="text-auto-fit" checked={Boolean(autoFit)} onCheckedChange={(enabled) => onUpdate(autoFitUpdates(enabled))} />
+      </div>
+      {autoFit && (
+        <div className="grid grid-cols-3 gap-2 items-end">
+          {autoFitField("Min size", "minFontSize")}
+          {autoFitField("Max size", "maxFontSize")}
+          <p className="text-xs text-gray-500 pb-2" title="Largest size at which the text fits the box">
+            {Math.round(layoutText(layer).fontSize * 10) / 10}px
+          </p>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,146 @@
+"use client"
+
+import { useState, useRef, useCallback, useEffect } from "react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Progress } from "@/components/ui/progress"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog"
+import { AlertTriangle } from "lucide-react"
+import { importImageFromUrl, UrlImportError, type DownloadProgress } from "@/lib/url-image-loader"
+import type { DecodedImage } from "@/lib/image-decoder"
+import { formatBytes } from "@/lib/utils"
+
+interface UrlImportDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  onImport: (image: DecodedImage) => void
+  svgRasterSize?: number
+}
+
+export function UrlImportDialog({ open, onOpenChange, onImport, svgRasterSize }: UrlImportDialogProps) {
+  const [url, setUrl] = useState("")
+  const [progress, setProgress] = useState<DownloadProgress | null>(null)
+  const [error, setError] = useState<UrlImportError | Error | null>(null)
+  const abortRef = useRef<AbortController | null>(null)
+
+  const isLoading = progress !== null
+
+  // Cancel any running download when the dialog closes
+  useEffect(() => {
+    if (!open) {
+      abortRef.current?.abort()
+      abortRef.current = null
+      setProgress(null)
+      setError(null)
+    }
+  }, [open])
+
+  const handleSubmit = useCallback(async () => {
+    const controller = new AbortController()
+    abortRef.current = controller
+    setError(null)
+    setProgress({ loaded: 0, total: null })
+
+    try {
+      const image = await importImageFromUrl(url, {
+        signal: controller.signal,
+        onProgress: setProgress,
+        svgRasterSize,
+      })
+      onImport(image)
+      setUrl("")
+      onOpenChange(false)
+    } catch (err) {
+      if (err instanceof UrlImportError && err.code === "aborted") return
+      console.error("URL import failed:", err)
+      setError(err instanceof Error ? err : new Error("Import failed"))
+    } finally {
+      if (abortRef.current === controller) {
+        abortRef.current = null
+        setProgress(null)
+      }
+    }
+  }, [url, svgRasterSize, onImport, onOpenChange])
+
+  const handleCancel = useCallback(() => {
+    if (abortRef.current) {
+      abortRef.current.abort()
+    } else {
+      onOpenChange(false)
+    }
+  }, [onOpenChange])
+
+  const percent = progress?.total ? Math.round((progress.loaded / progress.total) * 100) : null
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Open image from URL</DialogTitle>
+          <DialogDescription>
+            The image is downloaded into the editor, so the host must allow cross-origin (CORS) requests.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-3">
+          <div>
+            <Label htmlFor="image-url">Image URL</Label>
+            <Input
+              id="image-url"
+              type="url"
+              value={url}
+              onChange={(e) => setUrl(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === "Enter" && url && !isLoading) {
+                  handleSubmit()
+                }
+              }}
+              placeholder="https://cdn.example.com/banner.jpg"
+              disabled={isLoading}
+              className="mt-1"
+            />
+          </div>
+
+          {progress && (
+            <div className="space-y-1">
+              <Progress value={percent ?? 0} className={`h-2 ${percent === null ? "animate-pulse" : ""}`} />
+              <p className="text-xs text-gray-500">
+                {formatBytes(progress.loaded)}
+                {progress.total ? ` of ${formatBytes(progress.total)} (${percent}%)` : " downloaded"}
+              </p>
+            </div>
+          )}
+
+          {error && (
+            <div className="flex gap-2 p-3 rounded bg-red-50 text-sm text-red-800">
+              <AlertTriangle className="w-4 h-4 flex-shrink-0 mt-0.5" />
+              <div>
+                <p className="font-medium">
+                  {error instanceof UrlImportError && error.code === "cors" ? "Blocked by CORS" : "Could not open image"}
+                </p>
+                <p className="text-red-700 mt-1">{error.message}</p>
+              </div>
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={handleCancel}>
+            Cancel
+          </Button>
+          <Button onClick={handleSubmit} disabled={!url || isLoading}>
+            {isLoading ? "Downloading..." : "Open"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
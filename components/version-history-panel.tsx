@@ -0,0 +1,241 @@
+"use client"
+
+import { useState, useEffect, useCallback, useMemo } from "react"
+import { formatDistanceToNow } from "date-fns"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Badge } from "@/components/ui/badge"
+import { Card } from "@/components/ui/card"
+import { Check, Clock, Copy, Eye, Pencil, RotateCcw, Trash2, X } from "lucide-react"
+import { BlobThumbnail } from "@/components/blob-thumbnail"
+import type { ImageData, TextLayer } from "@/lib/editor-store"
+import { VersionHistory, diffDocuments, type LayerChangeStatus, type ProjectVersion } from "@/lib/version-history"
+
+interface VersionHistoryPanelProps {
+  projectId: string
+  // The editor's current document, to diff versions against
+  imageData: ImageData | null
+  textLayers: TextLayer[]
+  previewVersionId: string | null
+  // Changes whenever the version list should be reloaded
+  refreshKey?: unknown
+  onPreview: (version: ProjectVersion | null) => void
+  onCreateVersion: (label: string) => Promise<void>
+  onRestore: (version: ProjectVersion) => void
+  onRestoreAsCopy: (version: ProjectVersion) => void
+  onClose: () => void
+}
+
+const STATUS_STYLES: Record<LayerChangeStatus, string> = {
+  added: "bg-green-100 text-green-800",
+  removed: "bg-red-100 text-red-800",
+  changed: "bg-amber-100 text-amber-800",
+  unchanged: "bg-gray-100 text-gray-600",
+}
+
+function VersionDiff({ version, imageData, textLayers }: { version: ProjectVersion; imageData: ImageData | null; textLayers: TextLayer[] }) {
+  const diff = useMemo(
+    () => diffDocuments(version.document, { imageData, textLayers }),
+    [version, imageData, textLayers],
+  )
+  const changedLayers = diff.layers.filter((layer) => layer.status !== "unchanged")
+  const unchangedCount = diff.layers.length - changedLayers.length
+
+  return (
+    <div className="space-y-1 text-xs">
+      <p className="font-medium text-gray-700">Changes since this version</p>
+      {diff.backgroundChanged && <p className="text-amber-700">Background image replaced</p>}
+      {changedLayers.length === 0 && !diff.backgroundChanged && <p className="text-gray-500">No differences</p>}
+      {changedLayers.map((layer) => (
+        <div key={layer.id} className="flex items-start gap-2">
+          <span className={`px-1.5 rounded ${STATUS_STYLES[layer.status]}`}>{layer.status}</span>
+          <div className="min-w-0">
+            <p className="truncate">{layer.text || "(empty text)"}</p>
+            {layer.changes.length > 0 && <p className="text-gray-500 truncate">{layer.changes.join(", ")}</p>}
+          </div>
+        </div>
+      ))}
+      {unchangedCount > 0 && (
+        <p className="text-gray-500">
+          {unchangedCount} unchanged layer{unchangedCount === 1 ? "" : "s"}
+        </p>
+      )}
+    </div>
+  )
+}
+
+export function VersionHistoryPanel({
+  projectId,
+  imageData,
+  textLayers,
+  previewVersionId,
+  refreshKey,
+  onPreview,
+  onCreateVersion,
+  onRestore,
+  onRestoreAsCopy,
+  onClose,
+}: VersionHistoryPanelProps) {
+  const [versions, setVersions] = useState<ProjectVersion[]>([])
+  const [newLabel, setNewLabel] = useState("")
+  const [isSaving, setIsSaving] = useState(false)
+  const [editingId, setEditingId] = useState<string | null>(null)
+  const [editLabel, setEditLabel] = useState("")
+
+  const refresh = useCallback(async () => {
+    try {
+      setVersions(await VersionHistory.list(projectId))
+    } catch (error) {
+      console.error("Failed to list versions:", error)
+    }
+  }, [projectId])
+
+  useEffect(() => {
+    refresh()
+  }, [refresh, refreshKey])
+
+  const handleCreate = useCallback(async () => {
+    setIsSaving(true)
+    try {
+      await onCreateVersion(newLabel)
+      setNewLabel("")
+      refresh()
+    } finally {
+      setIsSaving(false)
+    }
+  }, [newLabel, onCreateVersion, refresh])
+
+  const handleLabel = useCallback(
+    async (id: string) => {
+      await VersionHistory.setLabel(id, editLabel)
+      setEditingId(null)
+      refresh()
+    },
+    [editLabel, refresh],
+  )
+
+  const handleDelete = useCallback(
+    async (id: string) => {
+      if (id === previewVersionId) onPreview(null)
+      await VersionHistory.delete(id)
+      refresh()
+    },
+    [previewVersionId, onPreview, refresh],
+  )
+
+  return (
+    <div className="w-80 bg-white border-l border-gray-200 flex flex-col h-full overflow-hidden">
+      <div className="p-4 border-b border-gray-200 bg-gray-50 flex-shrink-0 flex items-center justify-between">
+        <div>
+          <h3 className="font-semibold text-gray-700">Version History</h3>
+          <p className="text-xs text-gray-500 mt-1">Versions are saved every few minutes while you work</p>
+        </div>
+        <Button size="sm" variant="ghost" className="h-7 w-7 p-0" onClick={onClose} title="Close">
+          <X className="w-4 h-4" />
+        </Button>
+      </div>
+
+      <div className="p-4 border-b border-gray-200 flex gap-2 flex-shrink-0">
+        <Input
+          placeholder="Version name (optional)"
+          value={newLabel}
+          onChange={(e) => setNewLabel(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === "Enter") handleCreate()
+          }}
+          className="h-8 text-sm"
+        />
+        <Button size="sm" onClick={handleCreate} disabled={isSaving || !imageData}>
+          Save
+        </Button>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-4 min-h-0 space-y-3 scrollbar-thin scrollbar-thumb-gray-300 scrollbar-track-gray-100">
+        {versions.length === 0 && <p className="text-sm text-gray-500 text-center py-8">No versions yet</p>}
+        {versions.map((version) => {
+          const isPreviewed = version.id === previewVersionId
+          return (
+            <Card key={version.id} className={`p-3 space-y-2 ${isPreviewed ? "border-blue-500 bg-blue-50" : ""}`}>
+              <div className="flex gap-3">
+                <BlobThumbnail thumbnail={version.thumbnail} className="w-20 h-14 flex-shrink-0" />
+                <div className="min-w-0 flex-1">
+                  {editingId === version.id ? (
+                    <Input
+                      autoFocus
+                      value={editLabel}
+                      onChange={(e) => setEditLabel(e.target.value)}
+                      onBlur={() => handleLabel(version.id)}
+                      onKeyDown={(e) => {
+                        if (e.key === "Enter") handleLabel(version.id)
+                        if (e.key === "Escape") setEditingId(null)
+                      }}
+                      className="h-7 text-sm"
+                    />
+                  ) : (
+                    <p className="text-sm font-medium truncate" title={version.label ?? undefined}>
+                      {version.label ?? new Date(version.createdAt).toLocaleString()}
+                    </p>
+                  )}
+                  <p className="text-xs text-gray-500 flex items-center gap-1">
+                    <Clock className="w-3 h-3" />
+                    {formatDistanceToNow(version.createdAt, { addSuffix: true })}
+                  </p>
+                  <Badge variant="secondary" className="mt-1 text-[10px] px-1.5 py-0">
+                    {version.kind === "auto" ? "Automatic" : "Saved"}
+                  </Badge>
+                </div>
+              </div>
+
+              <div className="flex items-center gap-1">
+                <Button
+                  size="sm"
+                  variant={isPreviewed ? "default" : "outline"}
+                  className="h-7 px-2 text-xs"
+                  onClick={() => onPreview(isPreviewed ? null : version)}
+                >
+                  {isPreviewed ? <Check className="w-3 h-3 mr-1" /> : <Eye className="w-3 h-3 mr-1" />}
+                  Preview
+                </Button>
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  className="h-7 w-7 p-0"
+                  title="Name this version"
+                  onClick={() => {
+                    setEditingId(version.id)
+                    setEditLabel(version.label ?? "")
+                  }}
+                >
+                  <Pencil className="w-3 h-3" />
+                </Button>
+                <Button size="sm" variant="ghost" className="h-7 w-7 p-0" title="Restore" onClick={() => onRestore(version)}>
+                  <RotateCcw className="w-3 h-3" />
+                </Button>
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  className="h-7 w-7 p-0"
+                  title="Restore as a copy"
+                  onClick={() => onRestoreAsCopy(version)}
+                >
+                  <Copy className="w-3 h-3" />
+                </Button>
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  className="h-7 w-7 p-0 text-red-500 hover:text-red-700"
+                  title="Delete version"
+                  onClick={() => handleDelete(version.id)}
+                >
+                  <Trash2 className="w-3 h-3" />
+                </Button>
+              </div>
+
+              {isPreviewed && <VersionDiff version={version} imageData={imageData} textLayers={textLayers} />}
+            </Card>
+          )
+        })}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,47 @@
+"use client"
+
+import { Button } from "@/components/ui/button"
+import { Minus, Plus } from "lucide-react"
+import type { ZoomPreset } from "@/lib/viewport"
+
+interface ZoomControlsProps {
+  // Screen pixels per image pixel
+  zoom: number
+  preset: ZoomPreset | null
+  onZoomIn: () => void
+  onZoomOut: () => void
+  onPreset: (preset: ZoomPreset) => void
+}
+
+const PRESETS: { preset: ZoomPreset; label: string; title: string }[] = [
+  { preset: "fit", label: "Fit", title: "Fit image in view (Ctrl+0)" },
+  { preset: "fill", label: "Fill", title: "Fill the view" },
+  { preset: "actual", label: "100%", title: "Actual pixels (Ctrl+1)" },
+]
+
+export function ZoomControls({ zoom, preset, onZoomIn, onZoomOut, onPreset }: ZoomControlsProps) {
+  return (
+    <div className="flex items-center gap-1 bg-white border border-gray-200 shadow-sm rounded-lg px-2 py-1">
+      <Button size="sm" variant="ghost" className="h-7 w-7 p-0" onClick={onZoomOut} title="Zoom out (Ctrl+-)">
+        <Minus className="w-4 h-4" />
+      </Button>
+      <span className="w-12 text-center text-xs tabular-nums text-gray-700">{Math.round(zoom * 100)}%</span>
+      <Button size="sm" variant="ghost" className="h-7 w-7 p-0" onClick={onZoomIn} title="Zoom in (Ctrl+=)">
+        <Plus className="w-4 h-4" />
+      </Button>
+      <div className="w-px h-5 bg-gray-200 mx-1" />
+      {PRESETS.map((item) => (
+        <Button
+          key={item.preset}
+          size="sm"
+          variant={preset === item.preset ? "secondary" : "ghost"}
+          className="h-7 px-2 text-xs"
+          onClick={() => onPreset(item.preset)}
+          title={item.title}
+        >
+          {item.label}
+        </Button>
+      ))}
+    </div>
+  )
+}
@@ -0,0 +1,21 @@
+import * as React from "react"
+import { clearTextLayoutCache } from "@/lib/text-layout"
+
+// Counter that changes whenever the document finishes loading fonts, so text
+// measured with a fallback font can be laid out again with the real one
+export function useFontsLoaded() {
+  const [version, setVersion] = React.useState(0)
+
+  React.useEffect(() => {
+    if (typeof document === "undefined" || !document.fonts) return
+    const onLoaded = () => {
+      clearTextLayoutCache()
+      setVersion((current) => current + 1)
+    }
+    document.fonts.addEventListener("loadingdone", onLoaded)
+    document.fonts.ready.then(onLoaded)
+    return () => document.fonts.removeEventListener("loadingdone", onLoaded)
+  }, [])
+
+  return version
+}
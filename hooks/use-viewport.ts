@@ -0,0 +1,79 @@
+import * as React from "react"
+import {
+  IDENTITY_VIEWPORT,
+  ZOOM_STEP,
+  clampScale,
+  getZoom,
+  presetViewport,
+  zoomAt,
+  type Size,
+  type Viewport,
+  type ZoomPreset,
+} from "@/lib/viewport"
+
+// Zoom and pan state for a document shown in a resizable container.
+// While a preset is active it is re-applied when the container or document size changes;
+// any manual zoom or pan leaves preset mode.
+export function useViewport(content: Size | null, imagePixelsPerUnit: number) {
+  const [container, setContainer] = React.useState<HTMLDivElement | null>(null)
+  const [containerSize, setContainerSize] = React.useState<Size | null>(null)
+  const [viewport, setViewport] = React.useState<Viewport>(IDENTITY_VIEWPORT)
+  const [preset, setPreset] = React.useState<ZoomPreset | null>("fit")
+
+  React.useEffect(() => {
+    if (!container) return
+    const observer = new ResizeObserver(([entry]) => {
+      const { width, height } = entry.contentRect
+      setContainerSize({ width: Math.floor(width), height: Math.floor(height) })
+    })
+    observer.observe(container)
+    return () => observer.disconnect()
+  }, [container])
+
+  const contentWidth = content?.width
+  const contentHeight = content?.height
+
+  // A new document starts fitted to the view
+  React.useEffect(() => {
+    setPreset("fit")
+  }, [contentWidth, contentHeight])
+
+  React.useEffect(() => {
+    if (!preset || !contentWidth || !contentHeight || !containerSize) return
+    setViewport(
+      presetViewport(preset, { width: contentWidth, height: contentHeight }, containerSize, imagePixelsPerUnit),
+    )
+  }, [preset, contentWidth, contentHeight, containerSize, imagePixelsPerUnit])
+
+  // Zoom by a factor around a screen point, by default the middle of the view
+  const zoomBy = React.useCallback(
+    (factor: number, anchor?: { x: number; y: number }) => {
+      setPreset(null)
+      setViewport((current) => {
+        const point = anchor ?? { x: (containerSize?.width ?? 0) / 2, y: (containerSize?.height ?? 0) / 2 }
+        return zoomAt(current, clampScale(current.scale * factor, imagePixelsPerUnit), point)
+      })
+    },
+    [containerSize, imagePixelsPerUnit],
+  )
+
+  const panBy = React.useCallback((dx: number, dy: number) => {
+    setPreset(null)
+    setViewport((current) => ({ ...current, x: current.x + dx, y: current.y + dy }))
+  }, [])
+
+  return {
+    // Attach to the element the canvas fills
+    containerRef: setContainer,
+    containerSize,
+    viewport,
+    // Screen pixels per image pixel, 1 at 100%
+    zoom: getZoom(viewport, imagePixelsPerUnit),
+    preset,
+    applyPreset: setPreset,
+    zoomBy,
+    zoomIn: React.useCallback(() => zoomBy(ZOOM_STEP), [zoomBy]),
+    zoomOut: React.useCallback(() => zoomBy(1 / ZOOM_STEP), [zoomBy]),
+    panBy,
+  }
+}
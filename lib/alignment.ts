@@ -0,0 +1,72 @@
+import type { TextLayer } from "./editor-store"
+import { getLayerBounds, type Bounds } from "./layer-bounds"
+
+export type AlignEdge = "left" | "center" | "right" | "top" | "middle" | "bottom"
+export type DistributeAxis = "horizontal" | "vertical"
+// What layers are aligned to: the selection's bounds, the canvas, or the primary ("key") layer
+export type AlignReference = "selection" | "canvas" | "key"
+
+type PositionUpdates = Record<string, Pick<TextLayer, "x" | "y">>
+
+// Translating a layer moves its bounds by the same amount, so alignment only
+// needs the offset between the current and the target bounds
+const offsetFor = (bounds: Bounds, edge: AlignEdge, target: Bounds): { dx: number; dy: number } => {
+  switch (edge) {
+    case "left":
+      return { dx: target.left - bounds.left, dy: 0 }
+    case "center":
+      return { dx: (target.left + target.right) / 2 - (bounds.left + bounds.right) / 2, dy: 0 }
+    case "right":
+      return { dx: target.right - bounds.right, dy: 0 }
+    case "top":
+      return { dx: 0, dy: target.top - bounds.top }
+    case "middle":
+      return { dx: 0, dy: (target.top + target.bottom) / 2 - (bounds.top + bounds.bottom) / 2 }
+    case "bottom":
+      return { dx: 0, dy: target.bottom - bounds.bottom }
+  }
+}
+
+export const alignLayers = (layers: TextLayer[], edge: AlignEdge, target: Bounds): PositionUpdates => {
+  const updates: PositionUpdates = {}
+  layers.forEach((layer) => {
+    const { dx, dy } = offsetFor(getLayerBounds(layer), edge, target)
+    if (dx !== 0 || dy !== 0) updates[layer.id] = { x: layer.x + dx, y: layer.y + dy }
+  })
+  return updates
+}
+
+// Space layers so the gaps between neighbours are equal, keeping the outermost layers in place
+export const distributeLayers = (layers: TextLayer[], axis: DistributeAxis): PositionUpdates => {
+  if (layers.length < 3) return {}
+
+  const horizontal = axis === "horizontal"
+  const items = layers
+    .map((layer) => {
+      const bounds = getLayerBounds(layer)
+      return {
+        layer,
+        start: horizontal ? bounds.left : bounds.top,
+        size: horizontal ? bounds.right - bounds.left : bounds.bottom - bounds.top,
+      }
+    })
+    .sort((a, b) => a.start - b.start)
+
+  const first = items[0]
+  const end = Math.max(...items.map((item) => item.start + item.size))
+  const totalSize = items.reduce((sum, item) => sum + item.size, 0)
+  const gap = (end - first.start - totalSize) / (items.length - 1)
+
+  const updates: PositionUpdates = {}
+  let position = first.start
+  items.forEach((item) => {
+    const delta = position - item.start
+    if (delta !== 0) {
+      updates[item.layer.id] = horizontal
+        ? { x: item.layer.x + delta, y: item.layer.y }
+        : { x: item.layer.x, y: item.layer.y + delta }
+    }
+    position += item.size + gap
+  })
+  return updates
+}
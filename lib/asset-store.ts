@@ -0,0 +1,88 @@
+import type { ImageData } from "./editor-store"
+import { STORES, withStore } from "./indexed-db"
+
+// Content-addressed binary storage for background images.
+// Assets are keyed by the SHA-256 of their bytes, so storing the same image
+// twice is free and a reference stays valid across reloads.
+
+interface AssetRecord {
+  id: string
+  blob: Blob
+  type: string
+  size: number
+  createdAt: number
+}
+
+export class AssetStore {
+  // Object URLs created this session, so each asset is only materialized once
+  private static objectUrls = new Map<string, string>()
+
+  static async hashBlob(blob: Blob): Promise<string> {
+    const digest = await crypto.subtle.digest("SHA-256", await blob.arrayBuffer())
+    return Array.from(new Uint8Array(digest))
+      .map((byte) => byte.toString(16).padStart(2, "0"))
+      .join("")
+  }
+
+  // Store a blob and return its content hash
+  static async putBlob(blob: Blob): Promise<string> {
+    const id = await this.hashBlob(blob)
+    const existing = await withStore(STORES.assets, "readonly", (store) => store.getKey(id))
+
+    if (existing === undefined) {
+      const record: AssetRecord = { id, blob, type: blob.type, size: blob.size, createdAt: Date.now() }
+      await withStore(STORES.assets, "readwrite", (store) => store.put(record))
+    }
+
+    return id
+  }
+
+  static async getBlob(id: string): Promise<Blob | null> {
+    const record = await withStore<AssetRecord | undefined>(STORES.assets, "readonly", (store) => store.get(id))
+    return record?.blob ?? null
+  }
+
+  static async deleteAsset(id: string): Promise<void> {
+    await withStore(STORES.assets, "readwrite", (store) => store.delete(id))
+    const url = this.objectUrls.get(id)
+    if (url) {
+      URL.revokeObjectURL(url)
+      this.objectUrls.delete(id)
+    }
+  }
+
+  // Resolve an asset to an object URL usable by <img> and canvases
+  static async getObjectURL(id: string): Promise<string | null> {
+    const cached = this.objectUrls.get(id)
+    if (cached) return cached
+
+    const blob = await this.getBlob(id)
+    if (!blob) return null
+
+    const url = URL.createObjectURL(blob)
+    this.objectUrls.set(id, url)
+    return url
+  }
+
+  // Store the image bytes and return image data that references the asset
+  static async attachAsset(imageData: ImageData, blob: Blob): Promise<ImageData> {
+    const assetId = await this.putBlob(blob)
+    this.objectUrls.set(assetId, imageData.src)
+    return { ...imageData, assetId }
+  }
+
+  // Drop the session-only object URL before the state is written anywhere.
+  // Images without an asset (legacy saves) keep their src unchanged.
+  static toPersistedImageData(imageData: ImageData | null): ImageData | null {
+    if (!imageData?.assetId) return imageData
+    return { ...imageData, src: "" }
+  }
+
+  // Recreate the object URL for persisted image data; null if the asset is gone
+  static async resolveImageData(imageData: ImageData | null): Promise<ImageData | null> {
+    if (!imageData?.assetId) return imageData
+
+    const src = await this.getObjectURL(imageData.assetId)
+    return src ? { ...imageData, src } : null
+  }
+}
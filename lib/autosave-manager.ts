@@ -1,80 +1,381 @@
-interface AutosaveData {
+import { AssetStore } from "./asset-store"
+import type { GridSettings, Guide } from "./guides"
+import { STORES, isIndexedDBAvailable, withStore } from "./indexed-db"
+
+export interface AutosaveData {
   imageData: any
   textLayers: any[]
   customFonts: any[]
+  // Missing from saves made before guides existed
+  guides?: Guide[]
+  grid?: GridSettings
   timestamp: number
 }
 
+export type AutosaveListener = (projectId: string, data: AutosaveData) => void
+
+// A save was held back because another tab stored a newer snapshot
+export interface AutosaveConflict {
+  projectId: string
+  // Revision this tab's edits are based on
+  baseTimestamp: number
+  // Newer revision currently in storage
+  storedTimestamp: number
+}
+
+export type ConflictListener = (conflict: AutosaveConflict) => void
+export type RemoteSaveListener = (projectId: string, timestamp: number) => void
+export type SaveFailureListener = (projectId: string, error: AutosaveError) => void
+
+export type AutosaveErrorCode = "quota-exceeded" | "storage-unavailable" | "write-failed"
+
+export class AutosaveError extends Error {
+  constructor(
+    public code: AutosaveErrorCode,
+    message: string,
+  ) {
+    super(message)
+    this.name = "AutosaveError"
+  }
+}
+
+export interface StorageUsage {
+  // Bytes this app occupies in localStorage and the browser's nominal limit
+  localStorageBytes: number
+  localStorageLimit: number
+  // Origin-wide usage and quota (IndexedDB included), when the browser reports it
+  usage: number | null
+  quota: number | null
+}
+
+// States too large for localStorage are kept in IndexedDB; the slot then holds
+// only this pointer so timestamps stay readable synchronously and other tabs
+// still receive storage events.
+interface SlotPointer {
+  storage: "indexeddb"
+  timestamp: number
+}
+
+type SlotValue = AutosaveData | SlotPointer
+
+interface AutosaveRecord {
+  id: string
+  data: AutosaveData
+}
+
+const isPointer = (value: SlotValue): value is SlotPointer => "storage" in value
+
+const isQuotaError = (error: unknown): boolean =>
+  error instanceof DOMException && (error.name === "QuotaExceededError" || error.name === "NS_ERROR_DOM_QUOTA_REACHED")
+
+const errorMessage = (error: unknown): string => (error instanceof Error ? error.message : String(error))
+
 export class AutosaveManager {
+  // Each project has its own slot: `${STORAGE_KEY}:${projectId}`
   private static readonly STORAGE_KEY = "image-text-composer-autosave"
   private static readonly SAVE_INTERVAL = 2000 // 2 seconds
+  // Browsers allow roughly 5 MB of localStorage per origin
+  private static readonly LOCAL_STORAGE_LIMIT = 5 * 1024 * 1024
+  // Larger states go straight to IndexedDB instead of crowding out other slots
+  private static readonly LOCAL_SLOT_LIMIT = 512 * 1024
 
   private static saveTimeout: NodeJS.Timeout | null = null
+  private static pendingSave: { projectId: string; data: Omit<AutosaveData, "timestamp"> } | null = null
+  private static listeners = new Set<AutosaveListener>()
+  private static failureListeners = new Set<SaveFailureListener>()
+  private static conflictListeners = new Set<ConflictListener>()
+  private static remoteSaveListeners = new Set<RemoteSaveListener>()
+  private static storageListenerAttached = false
+
+  // The saved timestamp each open project's edits are based on. Timestamps act as
+  // revision markers: a stored snapshot newer than the base came from another tab.
+  private static revisions = new Map<string, number>()
+  // Saves held back until the user resolves a conflict, by project
+  private static conflicts = new Map<string, Omit<AutosaveData, "timestamp">>()
+
+  private static slotKey(projectId: string): string {
+    return `${this.STORAGE_KEY}:${projectId}`
+  }
+
+  private static readSlot(projectId: string): SlotValue | null {
+    const saved = localStorage.getItem(this.slotKey(projectId))
+    return saved ? (JSON.parse(saved) as SlotValue) : null
+  }
+
+  // localStorage keeps strings as UTF-16, two bytes per character
+  static estimateSize(data: AutosaveData): number {
+    return JSON.stringify(data).length * 2
+  }
+
+  // Get notified after every successful save
+  static subscribe(listener: AutosaveListener): () => void {
+    this.listeners.add(listener)
+    return () => {
+      this.listeners.delete(listener)
+    }
+  }
+
+  // Get notified when a save could not be written anywhere
+  static subscribeToFailures(listener: SaveFailureListener): () => void {
+    this.failureListeners.add(listener)
+    return () => {
+      this.failureListeners.delete(listener)
+    }
+  }
+
+  static subscribeToConflicts(listener: ConflictListener): () => void {
+    this.conflictListeners.add(listener)
+    return () => {
+      this.conflictListeners.delete(listener)
+    }
+  }
+
+  // Get notified when another tab saves a project
+  static subscribeToRemoteSaves(listener: RemoteSaveListener): () => void {
+    if (!this.storageListenerAttached && typeof window !== "undefined") {
+      this.storageListenerAttached = true
+      window.addEventListener("storage", (event) => {
+        const prefix = `${this.STORAGE_KEY}:`
+        if (!event.key?.startsWith(prefix) || !event.newValue) return
+
+        try {
+          const { timestamp } = JSON.parse(event.newValue) as SlotValue
+          const projectId = event.key.slice(prefix.length)
+          this.remoteSaveListeners.forEach((remoteListener) => remoteListener(projectId, timestamp))
+        } catch (error) {
+          console.error("Failed to read autosave from another tab:", error)
+        }
+      })
+    }
+
+    this.remoteSaveListeners.add(listener)
+    return () => {
+      this.remoteSaveListeners.delete(listener)
+    }
+  }
+
+  // Save current state of a project with debouncing
+  static saveState(projectId: string, document: Omit<AutosaveData, "timestamp">): void {
+    // A pending save for another project must not be dropped
+    if (this.pendingSave && this.pendingSave.projectId !== projectId) {
+      void this.flush()
+    }
 
-  // Save current state to localStorage with debouncing
-  static saveState(imageData: any, textLayers: any[], customFonts: any[] = []): void {
     // Clear existing timeout
     if (this.saveTimeout) {
       clearTimeout(this.saveTimeout)
     }
 
-    // Debounce saves to avoid excessive localStorage writes
-    this.saveTimeout = setTimeout(() => {
+    const data = { ...document, imageData: AssetStore.toPersistedImageData(document.imageData) }
+
+    // Keep collecting edits while a conflict is unresolved, but don't write them
+    if (this.conflicts.has(projectId)) {
+      this.conflicts.set(projectId, data)
+      return
+    }
+
+    this.pendingSave = { projectId, data }
+
+    // Debounce saves to avoid excessive storage writes
+    this.saveTimeout = setTimeout(() => this.flush(), this.SAVE_INTERVAL)
+  }
+
+  // Write any pending debounced save right away
+  static async flush(): Promise<void> {
+    if (this.saveTimeout) {
+      clearTimeout(this.saveTimeout)
+      this.saveTimeout = null
+    }
+
+    const pending = this.pendingSave
+    this.pendingSave = null
+    if (!pending) return
+
+    // Never let an older snapshot silently replace a newer one from another tab
+    const baseTimestamp = this.revisions.get(pending.projectId)
+    const storedTimestamp = this.getSaveTimestamp(pending.projectId)?.getTime()
+    if (baseTimestamp !== undefined && storedTimestamp !== undefined && storedTimestamp > baseTimestamp) {
+      this.conflicts.set(pending.projectId, pending.data)
+      const conflict = { projectId: pending.projectId, baseTimestamp, storedTimestamp }
+      this.conflictListeners.forEach((listener) => listener(conflict))
+      return
+    }
+
+    await this.writeState(pending.projectId, { ...pending.data, timestamp: Date.now() })
+  }
+
+  // Settle a conflict by overwriting the newer snapshot or dropping this tab's edits
+  static async resolveConflict(projectId: string, resolution: "overwrite" | "discard"): Promise<void> {
+    const data = this.conflicts.get(projectId)
+    this.conflicts.delete(projectId)
+    if (data && resolution === "overwrite") {
+      await this.writeState(projectId, { ...data, timestamp: Date.now() })
+    }
+  }
+
+  static hasConflict(projectId: string): boolean {
+    return this.conflicts.has(projectId)
+  }
+
+  // Write a slot to localStorage, or to IndexedDB when it is too large or the
+  // localStorage quota is exhausted
+  private static async writeSlot(projectId: string, autosaveData: AutosaveData): Promise<void> {
+    const key = this.slotKey(projectId)
+    const previous = this.readSlot(projectId)
+
+    if (this.estimateSize(autosaveData) <= this.LOCAL_SLOT_LIMIT) {
       try {
-        const autosaveData: AutosaveData = {
-          imageData,
-          textLayers,
-          customFonts,
-          timestamp: Date.now(),
+        localStorage.setItem(key, JSON.stringify(autosaveData))
+        if (previous && isPointer(previous)) {
+          // The state shrank back below the limit; drop the IndexedDB copy
+          withStore(STORES.autosaves, "readwrite", (store) => store.delete(projectId)).catch(() => {})
         }
-
-        localStorage.setItem(this.STORAGE_KEY, JSON.stringify(autosaveData))
-        console.log("Autosaved at", new Date().toLocaleTimeString())
+        return
       } catch (error) {
-        console.error("Autosave failed:", error)
+        if (!isQuotaError(error)) {
+          throw new AutosaveError("write-failed", errorMessage(error))
+        }
       }
-    }, this.SAVE_INTERVAL)
-  }
+    }
+
+    if (!isIndexedDBAvailable()) {
+      throw new AutosaveError("quota-exceeded", "The project is too large for this browser's local storage.")
+    }
 
-  // Load saved state from localStorage
-  static loadState(): AutosaveData | null {
     try {
-      const saved = localStorage.getItem(this.STORAGE_KEY)
-      if (!saved) return null
+      await withStore(STORES.autosaves, "readwrite", (store) => store.put({ id: projectId, data: autosaveData }))
+    } catch (error) {
+      if (isQuotaError(error)) {
+        throw new AutosaveError("quota-exceeded", "The browser's storage quota for this site is full.")
+      }
+      throw new AutosaveError("storage-unavailable", errorMessage(error))
+    }
 
-      const autosaveData: AutosaveData = JSON.parse(saved)
+    const pointer: SlotPointer = { storage: "indexeddb", timestamp: autosaveData.timestamp }
+    try {
+      localStorage.setItem(key, JSON.stringify(pointer))
+    } catch {
+      throw new AutosaveError("quota-exceeded", "Local storage is full, so the save could not be recorded.")
+    }
+  }
 
-      // Check if save is not too old (24 hours)
-      const maxAge = 24 * 60 * 60 * 1000
-      if (Date.now() - autosaveData.timestamp > maxAge) {
-        this.clearSave()
-        return null
-      }
+  // Write a slot immediately, bypassing the debounce. Returns whether the write succeeded.
+  static async writeState(projectId: string, autosaveData: AutosaveData): Promise<boolean> {
+    try {
+      await this.writeSlot(projectId, autosaveData)
+      this.revisions.set(projectId, autosaveData.timestamp)
+      this.listeners.forEach((listener) => listener(projectId, autosaveData))
+      return true
+    } catch (error) {
+      console.error("Autosave failed:", error)
+      const failure = error instanceof AutosaveError ? error : new AutosaveError("write-failed", errorMessage(error))
+      this.failureListeners.forEach((listener) => listener(projectId, failure))
+      return false
+    }
+  }
 
-      return autosaveData
+  // Load a project's saved state from localStorage or IndexedDB
+  static async loadState(projectId: string): Promise<AutosaveData | null> {
+    try {
+      const saved = this.readSlot(projectId)
+      if (!saved) return null
+      if (!isPointer(saved)) return saved
+
+      const record = await withStore<AutosaveRecord | undefined>(STORES.autosaves, "readonly", (store) =>
+        store.get(projectId),
+      )
+      return record?.data ?? null
     } catch (error) {
       console.error("Failed to load autosave:", error)
       return null
     }
   }
 
-  // Clear saved state
-  static clearSave(): void {
+  // Load a project for editing, remembering which revision the edits start from
+  static async openState(projectId: string): Promise<AutosaveData | null> {
+    const saved = await this.loadState(projectId)
+    this.revisions.set(projectId, saved?.timestamp ?? 0)
+    this.conflicts.delete(projectId)
+    return saved
+  }
+
+  // Clear a project's saved state
+  static clearSave(projectId: string): void {
     try {
-      localStorage.removeItem(this.STORAGE_KEY)
+      const saved = this.readSlot(projectId)
+      localStorage.removeItem(this.slotKey(projectId))
+      if (saved && isPointer(saved)) {
+        withStore(STORES.autosaves, "readwrite", (store) => store.delete(projectId)).catch((error) =>
+          console.error("Failed to clear autosave:", error),
+        )
+      }
     } catch (error) {
       console.error("Failed to clear autosave:", error)
     }
   }
 
+  // Copy one project's saved state into another slot
+  static async copyState(fromProjectId: string, toProjectId: string): Promise<boolean> {
+    const saved = await this.loadState(fromProjectId)
+    if (!saved) return false
+    try {
+      await this.writeSlot(toProjectId, { ...saved, timestamp: Date.now() })
+      return true
+    } catch (error) {
+      console.error("Failed to copy autosave:", error)
+      return false
+    }
+  }
+
   // Check if there's a saved state
-  static hasSavedState(): boolean {
-    return localStorage.getItem(this.STORAGE_KEY) !== null
+  static hasSavedState(projectId: string): boolean {
+    return localStorage.getItem(this.slotKey(projectId)) !== null
   }
 
   // Get save timestamp
-  static getSaveTimestamp(): Date | null {
-    const saved = this.loadState()
-    return saved ? new Date(saved.timestamp) : null
+  static getSaveTimestamp(projectId: string): Date | null {
+    try {
+      const saved = this.readSlot(projectId)
+      return saved ? new Date(saved.timestamp) : null
+    } catch (error) {
+      console.error("Failed to read autosave timestamp:", error)
+      return null
+    }
+  }
+
+  // How much storage autosaves and assets are using
+  static async getStorageUsage(): Promise<StorageUsage> {
+    let localStorageBytes = 0
+    for (let i = 0; i < localStorage.length; i++) {
+      const key = localStorage.key(i)
+      if (key) {
+        localStorageBytes += (key.length + (localStorage.getItem(key)?.length ?? 0)) * 2
+      }
+    }
+
+    let usage: number | null = null
+    let quota: number | null = null
+    try {
+      const estimate = await navigator.storage?.estimate()
+      usage = estimate?.usage ?? null
+      quota = estimate?.quota ?? null
+    } catch (error) {
+      console.warn("Storage estimate unavailable:", error)
+    }
+
+    return { localStorageBytes, localStorageLimit: this.LOCAL_STORAGE_LIMIT, usage, quota }
+  }
+
+  // Read and remove the single global slot used before projects existed
+  static takeLegacyState(): AutosaveData | null {
+    try {
+      const saved = localStorage.getItem(this.STORAGE_KEY)
+      if (!saved) return null
+      localStorage.removeItem(this.STORAGE_KEY)
+      return JSON.parse(saved) as AutosaveData
+    } catch (error) {
+      console.error("Failed to read legacy autosave:", error)
+      return null
+    }
   }
 }
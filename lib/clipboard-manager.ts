@@ -0,0 +1,107 @@
+import type { ImageData, TextLayer } from "./editor-store"
+import { ExportManager } from "./export-manager"
+import { isSupportedImageFile } from "./image-decoder"
+import { parseTextLayer } from "./project-schema"
+
+// Internal clipboard payload, embedded in the text/html flavor so it survives
+// round trips through the system clipboard alongside plain text and PNG data
+interface ClipboardPayload {
+  type: "image-text-composer/layers"
+  version: 1
+  layers: unknown[]
+}
+
+export type ClipboardContent =
+  | { kind: "layers"; layers: TextLayer[] }
+  | { kind: "image"; file: File }
+  | { kind: "text"; text: string }
+
+const PAYLOAD_ATTRIBUTE = "data-image-text-composer"
+
+const escapeHTML = (value: string): string =>
+  value.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;")
+
+export class ClipboardManager {
+  // Build the text/html flavor carrying the serialized layers
+  private static toHTML(layers: TextLayer[]): string {
+    const payload: ClipboardPayload = { type: "image-text-composer/layers", version: 1, layers }
+    const encoded = escapeHTML(JSON.stringify(payload))
+    const text = escapeHTML(layers.map((layer) => layer.text).join("\n"))
+    return `<span ${PAYLOAD_ATTRIBUTE}="${encoded}">${text}</span>`
+  }
+
+  // Extract layers from a text/html flavor written by toHTML()
+  private static fromHTML(html: string): TextLayer[] | null {
+    if (!html.includes(PAYLOAD_ATTRIBUTE)) return null
+
+    try {
+      const doc = new DOMParser().parseFromString(html, "text/html")
+      const raw = doc.querySelector(`[${PAYLOAD_ATTRIBUTE}]`)?.getAttribute(PAYLOAD_ATTRIBUTE)
+      if (!raw) return null
+
+      const payload = JSON.parse(raw) as ClipboardPayload
+      if (payload.type !== "image-text-composer/layers" || !Array.isArray(payload.layers)) return null
+      // Any page can put HTML on the clipboard, so only well-formed layers are kept
+      return payload.layers.map(parseTextLayer).filter((layer): layer is TextLayer => layer !== null)
+    } catch (error) {
+      console.error("Failed to read clipboard payload:", error)
+      return null
+    }
+  }
+
+  // Copy a layer as internal JSON, plain text and a PNG rendering.
+  // The synchronous flavors are written to the copy event first so that copying
+  // still works where the async Clipboard API or image writes are unavailable.
+  static async copyLayer(layer: TextLayer, imageData: ImageData | null, event?: ClipboardEvent): Promise<void> {
+    const html = this.toHTML([layer])
+
+    if (event?.clipboardData) {
+      event.preventDefault()
+      event.clipboardData.setData("text/plain", layer.text)
+      event.clipboardData.setData("text/html", html)
+    }
+
+    if (!imageData || typeof ClipboardItem === "undefined" || !navigator.clipboard?.write) {
+      return
+    }
+
+    try {
+      await navigator.clipboard.write([
+        new ClipboardItem({
+          "text/plain": new Blob([layer.text], { type: "text/plain" }),
+          "text/html": new Blob([html], { type: "text/html" }),
+          "image/png": ExportManager.renderLayerToPNG(layer),
+        }),
+      ])
+    } catch (error) {
+      // Text flavors were already written above; only the PNG is missing
+      console.warn("Could not write PNG to clipboard:", error)
+    }
+  }
+
+  // Work out what a paste event carries, preferring our own payload, then images, then text
+  static readPasteEvent(event: ClipboardEvent): ClipboardContent | null {
+    const data = event.clipboardData
+    if (!data) return null
+
+    const layers = this.fromHTML(data.getData("text/html"))
+    if (layers && layers.length > 0) {
+      return { kind: "layers", layers }
+    }
+
+    for (const item of Array.from(data.items)) {
+      if (item.kind !== "file") continue
+      const file = item.getAsFile()
+      if (file && isSupportedImageFile(file)) {
+        return { kind: "image", file }
+      }
+    }
+
+    const text = data.getData("text/plain")
+    if (text.trim()) {
+      return { kind: "text", text }
+    }
+
+    return null
+  }
+}
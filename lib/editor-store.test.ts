@@ -0,0 +1,122 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest"
+import { useEditorStore, type TextLayer } from "./editor-store"
+import { createTextLayer } from "./text-style"
+
+const layer = (id: string, text = id): TextLayer => ({ ...createTextLayer(text, 0, 0), id })
+
+const store = () => useEditorStore.getState()
+const textLayer = (id: string) => store().present.textLayers.find((l) => l.id === id)
+const zOrder = () => [...store().present.textLayers].sort((a, b) => a.zIndex - b.zIndex).map((l) => l.id)
+
+describe("editor history", () => {
+  beforeEach(() => {
+    vi.useFakeTimers()
+    store().reset()
+    store().addTextLayers([layer("a"), layer("b")])
+    store().clearHistory()
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it("merges quick edits of the same property into one step", () => {
+    store().updateTextLayer("a", { x: 1 })
+    vi.advanceTimersByTime(500)
+    store().updateTextLayer("a", { x: 2 })
+
+    expect(store().past).toHaveLength(1)
+    store().undo()
+    expect(textLayer("a")?.x).toBe(0)
+  })
+
+  it("keeps edits apart once the merge window has passed", () => {
+    store().updateTextLayer("a", { x: 1 })
+    vi.advanceTimersByTime(1500)
+    store().updateTextLayer("a", { x: 2 })
+
+    expect(store().past).toHaveLength(2)
+    store().undo()
+    expect(textLayer("a")?.x).toBe(1)
+  })
+
+  it("keeps edits of different properties or layers apart", () => {
+    store().updateTextLayer("a", { x: 1 })
+    store().updateTextLayer("a", { y: 1 })
+    store().updateTextLayer("b", { y: 1 })
+
+    expect(store().past).toHaveLength(3)
+  })
+
+  it("never merges labelled commands", () => {
+    store().updateTextLayers({ a: { x: 1 } }, { label: "Aligned left" })
+    store().updateTextLayers({ a: { x: 2 } }, { label: "Aligned left" })
+
+    expect(store().past).toHaveLength(2)
+  })
+
+  it("records a whole gesture as one step, however long it takes", () => {
+    store().beginGesture()
+    for (let x = 1; x <= 5; x++) {
+      store().updateTextLayers({ a: { x }, b: { x } })
+      vi.advanceTimersByTime(2000)
+    }
+    store().endGesture()
+
+    expect(store().past).toHaveLength(1)
+    expect(textLayer("b")?.x).toBe(5)
+    store().undo()
+    expect(textLayer("a")?.x).toBe(0)
+    expect(textLayer("b")?.x).toBe(0)
+  })
+
+  it("starts a new step after the gesture ends, even when it is ended twice", () => {
+    store().beginGesture()
+    store().updateTextLayer("a", { x: 1 })
+    store().endGesture()
+    store().endGesture()
+    store().updateTextLayer("a", { x: 2 })
+
+    expect(store().activeGestureId).toBeNull()
+    expect(store().past).toHaveLength(2)
+  })
+
+  it("adds several layers as one step", () => {
+    store().addTextLayers([layer("c"), layer("d")])
+
+    expect(store().past).toHaveLength(1)
+    expect(zOrder()).toEqual(["a", "b", "c", "d"])
+    expect(store().selectedLayerIds).toEqual(["c", "d"])
+    store().undo()
+    expect(zOrder()).toEqual(["a", "b"])
+    expect(store().selectedLayerIds).toEqual([])
+  })
+
+  it("undoes and redoes reordering", () => {
+    store().moveLayerUp("a")
+    expect(zOrder()).toEqual(["b", "a"])
+
+    store().undo()
+    expect(zOrder()).toEqual(["a", "b"])
+    store().redo()
+    expect(zOrder()).toEqual(["b", "a"])
+
+    store().sendToBack("a")
+    store().undo()
+    expect(zOrder()).toEqual(["b", "a"])
+  })
+
+  it("freezes the document so it can't be changed behind the history", () => {
+    const layers = store().present.textLayers
+    expect(() => layers.sort((first, second) => second.zIndex - first.zIndex)).toThrow()
+    expect(() => {
+      layers[0].x = 10
+    }).toThrow()
+  })
+
+  it("doesn't record edits that change nothing", () => {
+    store().updateTextLayer("a", { x: 0 })
+
+    expect(store().past).toHaveLength(0)
+  })
+})
@@ -1,13 +1,53 @@
 import { create } from "zustand"
 import { subscribeWithSelector } from "zustand/middleware"
+import { applyPatches, enablePatches, produceWithPatches, type Draft, type Patch } from "immer"
 import type { CustomFont } from "./font-manager"
+import { DEFAULT_GRID, type GridSettings, type Guide } from "./guides"
+import { describeGridUpdate, describeGuideUpdate, describeLayerUpdate, guideName, layerName, layersName } from "./history-labels"
+import { remapSpans } from "./rich-text"
+import { DEFAULT_SNAP_THRESHOLD, type SnapGuide } from "./snapping"
 
 export interface ImageData {
   src: string
+  // Original size in pixels. Layer geometry is stored in these pixels too, so it
+  // doesn't depend on how large the canvas is shown.
   width: number
   height: number
-  displayWidth: number
-  displayHeight: number
+  mimeType?: string
+  // Content hash of the image in the asset store. When set, `src` is only a
+  // session object URL and is resolved again from the asset on restore/import.
+  assetId?: string
+}
+
+// How a text layer's box is sized: to its text, to a set width that the text wraps
+// in, or to a set width and height
+export type TextBoxMode = "auto" | "fixedWidth" | "fixedSize"
+
+// What happens to text that doesn't fit a fixed-size box
+export type TextOverflow = "visible" | "clip" | "ellipsis" | "shrink"
+
+// Where words may break: only at spaces, also at hyphens and soft hyphens, or anywhere with a hyphen added
+export type Hyphenation = "none" | "manual" | "auto"
+
+// Font size range that auto-fit searches for the largest size at which the text fits its box
+export interface AutoFit {
+  minFontSize: number
+  maxFontSize: number
+}
+
+// Styling for a range of a layer's text; properties it leaves out follow the layer
+export interface TextSpan {
+  // UTF-16 offsets into the layer's text, end exclusive
+  start: number
+  end: number
+  fontFamily?: string
+  fontWeight?: string
+  fontStyle?: string
+  fill?: string
+  fontSize?: number
+  underline?: boolean
+  // Pixels the text is raised above the baseline; negative values lower it
+  baselineShift?: number
 }
 
 export interface TextLayer {
@@ -28,6 +68,15 @@ export interface TextLayer {
   shadowOffsetX: number
   shadowOffsetY: number
   width?: number
+  // Box height, used by fixed-size boxes
+  height?: number
+  boxMode?: TextBoxMode
+  overflow?: TextOverflow
+  hyphenation?: Hyphenation
+  // Size the text to fill a fixed-size box; `fontSize` is kept for when it's turned off
+  autoFit?: AutoFit
+  // Character ranges styled differently from the rest of the layer; later spans win where they overlap
+  spans?: TextSpan[]
   rotation?: number
   scaleX?: number
   scaleY?: number
@@ -39,324 +88,658 @@ export interface TextLayer {
   zIndex: number
 }
 
-interface EditorState {
+// The document: everything that is saved and undoable
+export interface EditorDocument {
   imageData: ImageData | null
   textLayers: TextLayer[]
+  customFonts: CustomFont[]
+  guides: Guide[]
+  grid: GridSettings
+}
+
+// Ephemeral editor state, never part of undo history
+interface EditorUIState {
+  // Primary selected layer (shown in the properties panel); always one of selectedLayerIds
   selectedLayerId: string | null
   selectedLayerIds: string[]
-  snapGuides: { x?: number; y?: number }
-  customFonts: CustomFont[]
+  // Guides for the snap applied by the drag in progress
+  snapGuides: SnapGuide[]
+}
+
+// Editor settings that outlive the open document
+interface EditorPreferences {
+  snapEnabled: boolean
+  // Distance in display pixels within which layers snap
+  snapThreshold: number
+  showRulers: boolean
+}
+
+// One undoable step: the patches that redo it and the inverse patches that undo it
+export interface HistoryEntry {
+  // Human-readable description, e.g. "Changed font size of 'Sale'"
+  label: string
+  // Store action that produced the entry, and the layers it touched
+  action: string
+  layerIds: string[]
+  patches: Patch[]
+  inversePatches: Patch[]
+  // Consecutive commits with the same key merge into one entry while a
+  // gesture is active, or when they follow each other quickly
+  mergeKey: string | null
+  gestureId: number | null
+  timestamp: number
+  // Estimated memory footprint in bytes
+  size: number
 }
 
 interface HistoryState {
-  past: EditorState[]
-  present: EditorState
-  future: EditorState[]
+  past: HistoryEntry[]
+  present: EditorDocument
+  future: HistoryEntry[]
 }
 
-interface EditorStore extends HistoryState {
+interface EditorStore extends HistoryState, EditorUIState, EditorPreferences {
+  // Gesture in progress (drag, slider), whose edits become a single history entry
+  activeGestureId: number | null
+
   // Actions
   setImageData: (imageData: ImageData | null) => void
+  loadDocument: (
+    // Documents saved before guides existed have none
+    document: {
+      imageData: ImageData | null
+      textLayers: TextLayer[]
+      customFonts: CustomFont[]
+      guides?: Guide[]
+      grid?: GridSettings
+    },
+    options?: { resetHistory?: boolean; label?: string },
+  ) => void
   addTextLayer: (layer: TextLayer) => void
+  // Several layers added as one undoable step, stacked above the rest in the given order
+  addTextLayers: (layers: TextLayer[]) => void
   updateTextLayer: (id: string, updates: Partial<TextLayer>) => void
+  // Several layers changed as one undoable step, e.g. a group drag or restyle.
+  // A label marks a discrete command (such as an alignment) that never merges with other edits.
+  updateTextLayers: (updates: Record<string, Partial<TextLayer>>, options?: { label?: string }) => void
   deleteTextLayer: (id: string) => void
+  deleteTextLayers: (ids: string[]) => void
   moveLayerUp: (id: string) => void
   moveLayerDown: (id: string) => void
   bringToFront: (id: string) => void
   sendToBack: (id: string) => void
   duplicateLayer: (id: string) => void
+  duplicateLayers: (ids: string[]) => void
   toggleLayerLock: (id: string) => void
+  setLayersLocked: (ids: string[], locked: boolean) => void
   toggleLayerVisibility: (id: string) => void
+  // Select a single layer (or nothing)
   setSelectedLayerId: (id: string | null) => void
-  setSelectedLayerIds: (ids: string[]) => void
-  setSnapGuides: (guides: { x?: number; y?: number }) => void
+  // Replace the selection; the primary layer defaults to the last id
+  setSelectedLayerIds: (ids: string[], primaryId?: string | null) => void
+  // Add or remove a layer, as with shift/ctrl-click
+  toggleLayerSelection: (id: string) => void
+  setSnapGuides: (guides: SnapGuide[]) => void
+  setSnapEnabled: (enabled: boolean) => void
+  setSnapThreshold: (threshold: number) => void
+  setShowRulers: (show: boolean) => void
+
+  // Guide and grid actions
+  addGuide: (guide: Guide) => void
+  updateGuide: (id: string, updates: Partial<Guide>) => void
+  removeGuide: (id: string) => void
+  setGrid: (updates: Partial<GridSettings>) => void
 
   addCustomFont: (font: CustomFont) => void
   removeCustomFont: (fontId: string) => void
 
   // History actions
+  beginGesture: () => void
+  endGesture: () => void
   undo: () => void
   redo: () => void
   canUndo: () => boolean
   canRedo: () => boolean
   getHistoryInfo: () => { currentStep: number; totalSteps: number }
+  // Steps count entries applied so far: 0 is the oldest state still in history
+  jumpToStep: (step: number) => void
+  getStateAtStep: (step: number) => EditorDocument
+  clearHistory: () => void
 
   // Utility actions
   reset: () => void
 }
 
-const initialState: EditorState = {
+const initialDocument: EditorDocument = {
   imageData: null,
   textLayers: [],
+  customFonts: [],
+  guides: [],
+  grid: DEFAULT_GRID,
+}
+
+const initialUIState: EditorUIState = {
   selectedLayerId: null,
   selectedLayerIds: [],
-  snapGuides: {},
-  customFonts: [],
+  snapGuides: [],
 }
 
-const MAX_HISTORY_SIZE = 25
+enablePatches()
 
-// Helper function to create a new history state
-const createHistoryState = (newPresent: EditorState, currentHistory: HistoryState): HistoryState => {
-  const newPast = [...currentHistory.past, currentHistory.present].slice(-MAX_HISTORY_SIZE)
+// Undo history is trimmed, oldest first, once its patches exceed this estimate
+const MAX_HISTORY_BYTES = 16 * 1024 * 1024
+// Repeated edits of the same property (typing, arrow-key nudges) merge within this window
+const MERGE_WINDOW = 1000
 
-  return {
-    past: newPast,
-    present: newPresent,
-    future: [],
+let nextGestureId = 1
+
+// Rough size of an entry; strings dominate (text, data and object URLs)
+const estimateEntrySize = (patches: Patch[], inversePatches: Patch[]): number =>
+  (JSON.stringify(patches).length + JSON.stringify(inversePatches).length) * 2
+
+const trimHistory = (past: HistoryEntry[]): HistoryEntry[] => {
+  let total = past.reduce((sum, entry) => sum + entry.size, 0)
+  let start = 0
+  // Always keep the latest entry, however large
+  while (total > MAX_HISTORY_BYTES && start < past.length - 1) {
+    total -= past[start].size
+    start++
   }
+  return start > 0 ? past.slice(start) : past
 }
 
-// Helper function to check if state should be saved to history
-const shouldSaveToHistory = (action: string): boolean => {
-  const nonHistoryActions = ["setSelectedLayerId", "setSelectedLayerIds", "setSnapGuides"]
-  return !nonHistoryActions.includes(action)
+interface EntryMetadata {
+  label: string
+  action: string
+  layerIds?: string[]
 }
 
-export const useEditorStore = create<EditorStore>()(
-  subscribeWithSelector((set, get) => ({
-    // Initial history state
-    past: [],
-    present: initialState,
-    future: [],
-
-    // Image actions
-    setImageData: (imageData) => {
-      const current = get()
-      const newPresent = { ...current.present, imageData }
-      set(createHistoryState(newPresent, current))
-    },
+// Apply a recipe to the present state and record it as a labelled history entry,
+// merging it into the previous entry when it continues the same edit
+const commit = (
+  current: EditorStore,
+  metadata: EntryMetadata,
+  recipe: (draft: Draft<EditorDocument>) => void | EditorDocument,
+  options: { mergeKey?: string } = {},
+): HistoryState | null => {
+  const [present, patches, inversePatches] = produceWithPatches(current.present, recipe)
+  if (patches.length === 0) return null
+
+  const now = Date.now()
+  const mergeKey = options.mergeKey ?? null
+  const gestureId = current.activeGestureId
+  const last = current.past[current.past.length - 1]
+
+  const continuesLast =
+    !!last &&
+    current.future.length === 0 &&
+    mergeKey !== null &&
+    last.mergeKey === mergeKey &&
+    (gestureId !== null ? last.gestureId === gestureId : last.gestureId === null && now - last.timestamp < MERGE_WINDOW)
+
+  let entry: HistoryEntry
+  if (continuesLast) {
+    const mergedPatches = [...last.patches, ...patches]
+    const mergedInverse = [...inversePatches, ...last.inversePatches]
+    entry = {
+      ...last,
+      patches: mergedPatches,
+      inversePatches: mergedInverse,
+      timestamp: now,
+      size: estimateEntrySize(mergedPatches, mergedInverse),
+    }
+  } else {
+    entry = {
+      label: metadata.label,
+      action: metadata.action,
+      layerIds: metadata.layerIds ?? [],
+      patches,
+      inversePatches,
+      mergeKey,
+      gestureId,
+      timestamp: now,
+      size: estimateEntrySize(patches, inversePatches),
+    }
+  }
 
-    // Text layer actions
-    addTextLayer: (layer) => {
-      const current = get()
-      // Calculate the next z-index value
-      const maxZIndex = current.present.textLayers.length > 0 
-        ? Math.max(...current.present.textLayers.map(l => l.zIndex))
-        : 0
-      const layerWithZIndex = { ...layer, zIndex: maxZIndex + 1 }
-      
-      const newPresent = {
-        ...current.present,
-        textLayers: [...current.present.textLayers, layerWithZIndex],
-        selectedLayerId: layer.id,
-      }
-      set(createHistoryState(newPresent, current))
-    },
+  const past = continuesLast ? [...current.past.slice(0, -1), entry] : [...current.past, entry]
+  return { past: trimHistory(past), present, future: [] }
+}
 
-    updateTextLayer: (id, updates) => {
-      const current = get()
-      const newPresent = {
-        ...current.present,
-        textLayers: current.present.textLayers.map((layer) => (layer.id === id ? { ...layer, ...updates } : layer)),
-      }
-      set(createHistoryState(newPresent, current))
-    },
+// Drop selected ids whose layers no longer exist, e.g. after undoing their creation
+const repairSelection = (ui: EditorUIState, document: EditorDocument): EditorUIState => {
+  const ids = new Set(document.textLayers.map((layer) => layer.id))
+  const selectedLayerIds = ui.selectedLayerIds.filter((id) => ids.has(id))
+  const selectedLayerId =
+    ui.selectedLayerId && ids.has(ui.selectedLayerId)
+      ? ui.selectedLayerId
+      : (selectedLayerIds[selectedLayerIds.length - 1] ?? null)
 
-    deleteTextLayer: (id) => {
-      const current = get()
-      const newPresent = {
-        ...current.present,
-        textLayers: current.present.textLayers.filter((layer) => layer.id !== id),
-        selectedLayerId: current.present.selectedLayerId === id ? null : current.present.selectedLayerId,
-      }
-      set(createHistoryState(newPresent, current))
-    },
+  return {
+    selectedLayerId,
+    selectedLayerIds: selectedLayerIds.length === ui.selectedLayerIds.length ? ui.selectedLayerIds : selectedLayerIds,
+    snapGuides: ui.snapGuides,
+  }
+}
 
-    moveLayerUp: (id) => {
-      const current = get()
-      const layers = [...current.present.textLayers]
-      const index = layers.findIndex((layer) => layer.id === id)
-
-      if (index < layers.length - 1) {
-        // Swap z-index values instead of array positions
-        const tempZIndex = layers[index].zIndex
-        layers[index].zIndex = layers[index + 1].zIndex
-        layers[index + 1].zIndex = tempZIndex
-        
-        const newPresent = { ...current.present, textLayers: layers }
-        set(createHistoryState(newPresent, current))
-      }
-    },
+const findLayer = (draft: Draft<EditorDocument>, id: string) => draft.textLayers.find((layer) => layer.id === id)
 
-    moveLayerDown: (id) => {
-      const current = get()
-      const layers = [...current.present.textLayers]
-      const index = layers.findIndex((layer) => layer.id === id)
-
-      if (index > 0) {
-        // Swap z-index values instead of array positions
-        const tempZIndex = layers[index].zIndex
-        layers[index].zIndex = layers[index - 1].zIndex
-        layers[index - 1].zIndex = tempZIndex
-        
-        const newPresent = { ...current.present, textLayers: layers }
-        set(createHistoryState(newPresent, current))
-      }
-    },
+// Move the present state along the history to `step`, undoing or redoing entries on the way
+const travelTo = (current: HistoryState, step: number): HistoryState => {
+  const target = Math.max(0, Math.min(step, current.past.length + current.future.length))
+  let { past, present, future } = current
 
-    bringToFront: (id) => {
-      const current = get()
-      const layers = [...current.present.textLayers]
-      const layer = layers.find((l) => l.id === id)
-      
-      if (layer) {
-        const maxZIndex = Math.max(...layers.map(l => l.zIndex))
-        layer.zIndex = maxZIndex + 1
-        
-        const newPresent = { ...current.present, textLayers: layers }
-        set(createHistoryState(newPresent, current))
-      }
-    },
+  while (past.length > target) {
+    const entry = past[past.length - 1]
+    present = applyPatches(present, entry.inversePatches)
+    past = past.slice(0, -1)
+    future = [entry, ...future]
+  }
+  while (past.length < target) {
+    const [entry, ...rest] = future
+    present = applyPatches(present, entry.patches)
+    past = [...past, entry]
+    future = rest
+  }
 
-    sendToBack: (id) => {
-      const current = get()
-      const layers = [...current.present.textLayers]
-      const layer = layers.find((l) => l.id === id)
-      
-      if (layer) {
-        const minZIndex = Math.min(...layers.map(l => l.zIndex))
-        layer.zIndex = minZIndex - 1
-        
-        const newPresent = { ...current.present, textLayers: layers }
-        set(createHistoryState(newPresent, current))
-      }
-    },
+  return { past, present, future }
+}
 
-    duplicateLayer: (id) => {
-      const current = get()
-      const layerToDuplicate = current.present.textLayers.find((layer) => layer.id === id)
-
-      if (layerToDuplicate) {
-        const maxZIndex = Math.max(...current.present.textLayers.map(l => l.zIndex))
-        const newLayer: TextLayer = {
-          ...layerToDuplicate,
-          id: `text-${Date.now()}`,
-          x: layerToDuplicate.x + 20,
-          y: layerToDuplicate.y + 20,
-          zIndex: maxZIndex + 1,
+export const useEditorStore = create<EditorStore>()(
+  subscribeWithSelector((set, get) => {
+    // Replace history and document, keeping the selection valid for the new document
+    const setHistory = (history: HistoryState, selection?: Partial<EditorUIState>) => {
+      set({ ...history, ...repairSelection({ ...get(), ...selection }, history.present) })
+    }
+
+    // Commit a change, skipping no-ops so they don't clear the redo stack. The
+    // selection to apply afterwards is not part of the history entry.
+    const apply = (
+      metadata: EntryMetadata,
+      recipe: (draft: Draft<EditorDocument>) => void | EditorDocument,
+      options?: { mergeKey?: string; selection?: Partial<EditorUIState> },
+    ) => {
+      const next = commit(get(), metadata, recipe, options)
+      if (next) setHistory(next, options?.selection)
+    }
+
+    const getLayer = (id: string) => get().present.textLayers.find((layer) => layer.id === id)
+
+    return {
+      // Initial history state
+      past: [],
+      present: initialDocument,
+      future: [],
+      activeGestureId: null,
+      ...initialUIState,
+      snapEnabled: true,
+      snapThreshold: DEFAULT_SNAP_THRESHOLD,
+      showRulers: true,
+
+      // Image actions
+      setImageData: (imageData) => {
+        const label = imageData ? "Changed background image" : "Removed background image"
+        apply({ label, action: "setImageData" }, (draft) => {
+          draft.imageData = imageData
+        })
+      },
+
+      // Replace the whole document as a single undoable step, keeping layer order as given.
+      // Opening a different project starts with a fresh history instead.
+      loadDocument: ({ imageData, textLayers, customFonts, guides = [], grid = DEFAULT_GRID }, options) => {
+        const newPresent = { imageData, textLayers, customFonts, guides, grid }
+        if (options?.resetHistory) {
+          set({ past: [], present: newPresent, future: [], activeGestureId: null, ...initialUIState })
+        } else {
+          apply({ label: options?.label ?? "Loaded document", action: "loadDocument" }, () => newPresent)
         }
-        const newPresent = {
-          ...current.present,
-          textLayers: [...current.present.textLayers, newLayer],
-          selectedLayerId: newLayer.id,
+      },
+
+      // Text layer actions
+      addTextLayer: (layer) => {
+        get().addTextLayers([layer])
+      },
+
+      addTextLayers: (layers) => {
+        if (layers.length === 0) return
+        const ids = layers.map((layer) => layer.id)
+
+        apply(
+          { label: `Added ${layers.length === 1 ? "layer " : ""}${layersName(layers)}`, action: "addTextLayers", layerIds: ids },
+          (draft) => {
+            // Calculate the next z-index value
+            const maxZIndex = draft.textLayers.length > 0 ? Math.max(...draft.textLayers.map((l) => l.zIndex)) : 0
+            layers.forEach((layer, index) => {
+              draft.textLayers.push({ ...layer, zIndex: maxZIndex + 1 + index })
+            })
+          },
+          { selection: { selectedLayerId: ids[ids.length - 1], selectedLayerIds: ids } },
+        )
+      },
+
+      updateTextLayer: (id, updates) => {
+        get().updateTextLayers({ [id]: updates })
+      },
+
+      updateTextLayers: (updates, options) => {
+        const ids = Object.keys(updates).sort()
+        const layers = get().present.textLayers.filter((layer) => layer.id in updates)
+        if (layers.length === 0) return
+
+        // Label by the properties of the first update; group edits set the same properties on each layer
+        const keys = Object.keys(updates[ids[0]]).sort()
+        apply(
+          {
+            label: options?.label ?? describeLayerUpdate(layersName(layers), updates[ids[0]]),
+            action: "updateTextLayers",
+            layerIds: ids,
+          },
+          (draft) => {
+            draft.textLayers.forEach((layer) => {
+              if (!(layer.id in updates)) return
+              const update = updates[layer.id]
+              // Styled ranges follow the characters they cover when only the text is replaced
+              if (update.text !== undefined && !("spans" in update) && layer.spans) {
+                layer.spans = remapSpans(layer.text, update.text, layer.spans)
+              }
+              Object.assign(layer, update)
+            })
+          },
+          { mergeKey: options?.label ? undefined : `update:${ids.join(",")}:${keys.join(",")}` },
+        )
+      },
+
+      deleteTextLayer: (id) => {
+        get().deleteTextLayers([id])
+      },
+
+      deleteTextLayers: (ids) => {
+        const layers = get().present.textLayers.filter((layer) => ids.includes(layer.id))
+        if (layers.length === 0) return
+
+        apply({ label: `Deleted ${layers.length === 1 ? "layer " : ""}${layersName(layers)}`, action: "deleteTextLayers", layerIds: ids }, (draft) => {
+          draft.textLayers = draft.textLayers.filter((layer) => !ids.includes(layer.id))
+        })
+      },
+
+      moveLayerUp: (id) => {
+        apply({ label: `Moved ${layerName(getLayer(id))} up`, action: "moveLayerUp", layerIds: [id] }, (draft) => {
+          const layers = draft.textLayers
+          const index = layers.findIndex((layer) => layer.id === id)
+
+          if (index !== -1 && index < layers.length - 1) {
+            // Swap z-index values instead of array positions
+            const tempZIndex = layers[index].zIndex
+            layers[index].zIndex = layers[index + 1].zIndex
+            layers[index + 1].zIndex = tempZIndex
+          }
+        })
+      },
+
+      moveLayerDown: (id) => {
+        apply({ label: `Moved ${layerName(getLayer(id))} down`, action: "moveLayerDown", layerIds: [id] }, (draft) => {
+          const layers = draft.textLayers
+          const index = layers.findIndex((layer) => layer.id === id)
+
+          if (index > 0) {
+            // Swap z-index values instead of array positions
+            const tempZIndex = layers[index].zIndex
+            layers[index].zIndex = layers[index - 1].zIndex
+            layers[index - 1].zIndex = tempZIndex
+          }
+        })
+      },
+
+      bringToFront: (id) => {
+        const label = `Brought ${layerName(getLayer(id))} to front`
+        apply({ label, action: "bringToFront", layerIds: [id] }, (draft) => {
+          const layer = findLayer(draft, id)
+          if (layer) {
+            layer.zIndex = Math.max(...draft.textLayers.map((l) => l.zIndex)) + 1
+          }
+        })
+      },
+
+      sendToBack: (id) => {
+        apply({ label: `Sent ${layerName(getLayer(id))} to back`, action: "sendToBack", layerIds: [id] }, (draft) => {
+          const layer = findLayer(draft, id)
+          if (layer) {
+            layer.zIndex = Math.min(...draft.textLayers.map((l) => l.zIndex)) - 1
+          }
+        })
+      },
+
+      duplicateLayer: (id) => {
+        get().duplicateLayers([id])
+      },
+
+      // Copies are offset, stacked above everything and become the new selection
+      duplicateLayers: (ids) => {
+        const layers = get()
+          .present.textLayers.filter((layer) => ids.includes(layer.id))
+          .sort((a, b) => a.zIndex - b.zIndex)
+        if (layers.length === 0) return
+
+        const stamp = Date.now()
+        const newIds = layers.map((_, index) => (index === 0 ? `text-${stamp}` : `text-${stamp}-${index}`))
+        apply(
+          { label: `Duplicated ${layersName(layers)}`, action: "duplicateLayers", layerIds: ids },
+          (draft) => {
+            const maxZIndex = Math.max(...draft.textLayers.map((l) => l.zIndex))
+            layers.forEach((layer, index) => {
+              draft.textLayers.push({
+                ...layer,
+                id: newIds[index],
+                x: layer.x + 20,
+                y: layer.y + 20,
+                zIndex: maxZIndex + 1 + index,
+              })
+            })
+          },
+          { selection: { selectedLayerId: newIds[newIds.length - 1], selectedLayerIds: newIds } },
+        )
+      },
+
+      toggleLayerLock: (id) => {
+        const layer = get().present.textLayers.find((l) => l.id === id)
+        if (layer) get().setLayersLocked([id], !layer.locked)
+      },
+
+      setLayersLocked: (ids, locked) => {
+        const layers = get().present.textLayers.filter((layer) => ids.includes(layer.id))
+        if (layers.length === 0) return
+
+        const { selectedLayerId, selectedLayerIds } = get()
+        // Locked layers can't be edited, so they leave the selection
+        const remaining = selectedLayerIds.filter((selectedId) => !ids.includes(selectedId))
+        const selection = locked
+          ? {
+              selectedLayerId: selectedLayerId && ids.includes(selectedLayerId) ? null : selectedLayerId,
+              selectedLayerIds: remaining,
+            }
+          : undefined
+        apply(
+          { label: `${locked ? "Locked" : "Unlocked"} ${layersName(layers)}`, action: "setLayersLocked", layerIds: ids },
+          (draft) => {
+            draft.textLayers.forEach((layer) => {
+              if (ids.includes(layer.id)) layer.locked = locked
+            })
+          },
+          { selection },
+        )
+      },
+
+      toggleLayerVisibility: (id) => {
+        const layer = get().present.textLayers.find((l) => l.id === id)
+        if (!layer) return
+
+        const label = `${layer.visible === false ? "Showed" : "Hid"} ${layerName(layer)}`
+        apply({ label, action: "toggleLayerVisibility", layerIds: [id] }, (draft) => {
+          const target = findLayer(draft, id)
+          if (target) target.visible = target.visible === false
+        })
+      },
+
+      // Selection actions (UI slice, never in history)
+      setSelectedLayerId: (id) => {
+        set({ selectedLayerId: id, selectedLayerIds: id ? [id] : [] })
+      },
+
+      setSelectedLayerIds: (ids, primaryId) => {
+        const current = get().selectedLayerId
+        const selectedLayerId =
+          primaryId !== undefined && primaryId !== null && ids.includes(primaryId)
+            ? primaryId
+            : current && ids.includes(current)
+              ? current
+              : (ids[ids.length - 1] ?? null)
+        set({ selectedLayerIds: ids, selectedLayerId })
+      },
+
+      toggleLayerSelection: (id) => {
+        const { selectedLayerIds } = get()
+        if (selectedLayerIds.includes(id)) {
+          get().setSelectedLayerIds(selectedLayerIds.filter((selectedId) => selectedId !== id))
+        } else {
+          get().setSelectedLayerIds([...selectedLayerIds, id], id)
         }
-        set(createHistoryState(newPresent, current))
-      }
-    },
-
-    toggleLayerLock: (id) => {
-      const current = get()
-      const layer = current.present.textLayers.find((l) => l.id === id)
-
-      if (layer) {
-        const newPresent = {
-          ...current.present,
-          textLayers: current.present.textLayers.map((l) => (l.id === id ? { ...l, locked: !l.locked } : l)),
-          selectedLayerId: layer.locked ? current.present.selectedLayerId : null,
+      },
+
+      setSnapGuides: (guides) => {
+        set({ snapGuides: guides })
+      },
+
+      setSnapEnabled: (enabled) => {
+        set({ snapEnabled: enabled, snapGuides: [] })
+      },
+
+      setSnapThreshold: (threshold) => {
+        set({ snapThreshold: threshold })
+      },
+
+      setShowRulers: (show) => {
+        set({ showRulers: show })
+      },
+
+      // Guide and grid actions
+      addGuide: (guide) => {
+        apply({ label: `Added ${guideName(guide)}`, action: "addGuide" }, (draft) => {
+          draft.guides.push(guide)
+        })
+      },
+
+      // Dragging a guide or typing its name merges into one step
+      updateGuide: (id, updates) => {
+        const guide = get().present.guides.find((g) => g.id === id)
+        if (!guide) return
+
+        apply(
+          { label: describeGuideUpdate(guide, updates), action: "updateGuide" },
+          (draft) => {
+            const target = draft.guides.find((g) => g.id === id)
+            if (target) Object.assign(target, updates)
+          },
+          { mergeKey: `guide:${id}:${Object.keys(updates).sort().join(",")}` },
+        )
+      },
+
+      removeGuide: (id) => {
+        const guide = get().present.guides.find((g) => g.id === id)
+        if (!guide) return
+
+        apply({ label: `Deleted ${guideName(guide)}`, action: "removeGuide" }, (draft) => {
+          draft.guides = draft.guides.filter((g) => g.id !== id)
+        })
+      },
+
+      setGrid: (updates) => {
+        apply(
+          { label: describeGridUpdate(updates), action: "setGrid" },
+          (draft) => {
+            Object.assign(draft.grid, updates)
+          },
+          { mergeKey: `grid:${Object.keys(updates).sort().join(",")}` },
+        )
+      },
+
+      addCustomFont: (font) => {
+        apply({ label: `Added font ${font.name}`, action: "addCustomFont" }, (draft) => {
+          draft.customFonts.push(font)
+        })
+      },
+
+      removeCustomFont: (fontId) => {
+        const font = get().present.customFonts.find((f) => f.id === fontId)
+        apply({ label: `Removed font ${font?.name ?? ""}`.trim(), action: "removeCustomFont" }, (draft) => {
+          draft.customFonts = draft.customFonts.filter((f) => f.id !== fontId)
+        })
+      },
+
+      // History actions
+      beginGesture: () => {
+        set({ activeGestureId: nextGestureId++ })
+      },
+
+      endGesture: () => {
+        set({ activeGestureId: null })
+      },
+
+      undo: () => {
+        const current = get()
+        if (current.past.length === 0) return
+
+        const entry = current.past[current.past.length - 1]
+        setHistory({
+          past: current.past.slice(0, -1),
+          present: applyPatches(current.present, entry.inversePatches),
+          future: [entry, ...current.future],
+        })
+      },
+
+      redo: () => {
+        const current = get()
+        if (current.future.length === 0) return
+
+        const [entry, ...future] = current.future
+        setHistory({
+          past: [...current.past, entry],
+          present: applyPatches(current.present, entry.patches),
+          future,
+        })
+      },
+
+      jumpToStep: (step) => {
+        setHistory(travelTo(get(), step))
+      },
+
+      getStateAtStep: (step) => travelTo(get(), step).present,
+
+      // Forget all steps but keep the current document
+      clearHistory: () => {
+        set({ past: [], future: [], activeGestureId: null })
+      },
+
+      canUndo: () => get().past.length > 0,
+      canRedo: () => get().future.length > 0,
+
+      getHistoryInfo: () => {
+        const current = get()
+        return {
+          currentStep: current.past.length + 1,
+          totalSteps: current.past.length + current.future.length + 1,
         }
-        set(createHistoryState(newPresent, current))
-      }
-    },
-
-    toggleLayerVisibility: (id) => {
-      const current = get()
-      const newPresent = {
-        ...current.present,
-        textLayers: current.present.textLayers.map((layer) =>
-          layer.id === id ? { ...layer, visible: layer.visible === false } : layer,
-        ),
-      }
-      set(createHistoryState(newPresent, current))
-    },
-
-    // Selection actions (don't save to history)
-    setSelectedLayerId: (id) => {
-      set((state) => ({
-        ...state,
-        present: { ...state.present, selectedLayerId: id },
-      }))
-    },
-
-    setSelectedLayerIds: (ids) => {
-      set((state) => ({
-        ...state,
-        present: { ...state.present, selectedLayerIds: ids },
-      }))
-    },
-
-    setSnapGuides: (guides) => {
-      set((state) => ({
-        ...state,
-        present: { ...state.present, snapGuides: guides },
-      }))
-    },
-
-    addCustomFont: (font) => {
-      const current = get()
-      const newPresent = {
-        ...current.present,
-        customFonts: [...current.present.customFonts, font],
-      }
-      set(createHistoryState(newPresent, current))
-    },
-
-    removeCustomFont: (fontId) => {
-      const current = get()
-      const newPresent = {
-        ...current.present,
-        customFonts: current.present.customFonts.filter((f) => f.id !== fontId),
-      }
-      set(createHistoryState(newPresent, current))
-    },
-
-    // History actions
-    undo: () => {
-      const current = get()
-      if (current.past.length === 0) return
-
-      const previous = current.past[current.past.length - 1]
-      const newPast = current.past.slice(0, current.past.length - 1)
-
-      set({
-        past: newPast,
-        present: previous,
-        future: [current.present, ...current.future],
-      })
-    },
-
-    redo: () => {
-      const current = get()
-      if (current.future.length === 0) return
-
-      const next = current.future[0]
-      const newFuture = current.future.slice(1)
-
-      set({
-        past: [...current.past, current.present],
-        present: next,
-        future: newFuture,
-      })
-    },
-
-    canUndo: () => get().past.length > 0,
-    canRedo: () => get().future.length > 0,
-
-    getHistoryInfo: () => {
-      const current = get()
-      return {
-        currentStep: current.past.length + 1,
-        totalSteps: current.past.length + current.future.length + 1,
-      }
-    },
-
-    // Utility actions
-    reset: () => {
-      set({
-        past: [],
-        present: initialState,
-        future: [],
-      })
-    },
-  })),
+      },
+
+      // Utility actions
+      reset: () => {
+        set({
+          past: [],
+          present: initialDocument,
+          future: [],
+          activeGestureId: null,
+          ...initialUIState,
+        })
+      },
+    }
+  }),
 )
@@ -1,153 +1,61 @@
-import type { ImageData, TextLayer } from "./editor-store"
+import type { EditorDocument, ImageData, TextLayer } from "./editor-store"
+import { AssetStore } from "./asset-store"
+import { fontManager, type CustomFont } from "./font-manager"
+import { ProjectBundle, BUNDLE_EXTENSION } from "./project-bundle"
+import { hydrateDocument, type HydratedDocument } from "./project-document"
+import { CURRENT_PROJECT_VERSION, ProjectValidationError, parseProject, toPersistedFonts } from "./project-schema"
+import { buildScene, buildTextNode, drawTextNode, renderScene } from "./scene"
+import { clearTextLayoutCache } from "./text-layout"
 
 export class ExportManager {
-  // Export the composition as PNG at original resolution using native Canvas API
-  static async exportToPNG(imageData: ImageData, textLayers: TextLayer[], filename = "composition.png"): Promise<void> {
-    try {
-      console.log("Starting export with:", { imageData, textLayersCount: textLayers.length })
-      
-      // Calculate scale factor from display to original dimensions
-      const scaleX = imageData.width / imageData.displayWidth
-      const scaleY = imageData.height / imageData.displayHeight
-      
-      console.log("Scale factors:", { scaleX, scaleY, originalWidth: imageData.width, originalHeight: imageData.height, displayWidth: imageData.displayWidth, displayHeight: imageData.displayHeight })
-
-      // Create offscreen canvas at original dimensions
-      const canvas = document.createElement("canvas")
-      canvas.width = imageData.width
-      canvas.height = imageData.height
-      const ctx = canvas.getContext("2d")
-      
-      if (!ctx) {
-        throw new Error("Failed to get 2D canvas context")
-      }
-
-      // Load and draw background image
-      const img = new Image()
-      img.crossOrigin = "anonymous"
-
-      console.log("Loading image from:", imageData.src)
-      
-      await new Promise<void>((resolve, reject) => {
-        img.onload = () => {
-          console.log("Image loaded successfully:", { width: img.width, height: img.height })
-          resolve()
-        }
-        img.onerror = (error) => {
-          console.error("Image loading error:", error)
-          reject(new Error("Failed to load image"))
-        }
-        img.src = imageData.src
-      })
+  // Draw the composition onto a new canvas at original resolution times outputScale
+  static async renderComposition(imageData: ImageData, textLayers: TextLayer[], outputScale = 1): Promise<HTMLCanvasElement> {
+    // Create offscreen canvas at original dimensions
+    const canvas = document.createElement("canvas")
+    canvas.width = Math.max(1, Math.round(imageData.width * outputScale))
+    canvas.height = Math.max(1, Math.round(imageData.height * outputScale))
+    const ctx = canvas.getContext("2d")
+
+    if (!ctx) {
+      throw new Error("Failed to get 2D canvas context")
+    }
+    ctx.scale(outputScale, outputScale)
 
-      // Draw background image
-      ctx.drawImage(img, 0, 0, imageData.width, imageData.height)
-      console.log("Background image drawn")
-
-      // Sort text layers by zIndex to maintain proper stacking order
-      const sortedTextLayers = [...textLayers].sort((a, b) => (a.zIndex || 0) - (b.zIndex || 0))
-      
-      console.log("Sorted text layers:", sortedTextLayers.map(l => ({ id: l.id, text: l.text, x: l.x, y: l.y, zIndex: l.zIndex, visible: l.visible })))
-      
-      // Draw text layers scaled to original dimensions
-      for (const textLayer of sortedTextLayers) {
-        if (textLayer.visible === false) {
-          console.log("Skipping hidden layer:", textLayer.id)
-          continue
-        }
-        
-        console.log("Drawing layer:", { id: textLayer.id, text: textLayer.text, x: textLayer.x, y: textLayer.y, fontSize: textLayer.fontSize, fontFamily: textLayer.fontFamily })
-
-        ctx.save()
-
-        // Set text properties first
-        const scaledFontSize = textLayer.fontSize * Math.min(scaleX, scaleY)
-        const fontWeight = textLayer.fontWeight || "normal"
-        const fontFamily = textLayer.fontFamily || "Arial"
-        ctx.font = `${fontWeight} ${scaledFontSize}px ${fontFamily}`
-        
-        console.log("Font set:", { fontWeight, scaledFontSize, fontFamily, originalFontSize: textLayer.fontSize })
-        ctx.fillStyle = textLayer.fill
-        ctx.globalAlpha = textLayer.opacity
-        ctx.textAlign = textLayer.align as CanvasTextAlign
-        ctx.textBaseline = "top"
-
-        // Apply text shadow
-        if (textLayer.shadowBlur > 0) {
-          ctx.shadowColor = textLayer.shadowColor
-          ctx.shadowBlur = textLayer.shadowBlur * Math.min(scaleX, scaleY)
-          ctx.shadowOffsetX = textLayer.shadowOffsetX * scaleX
-          ctx.shadowOffsetY = textLayer.shadowOffsetY * scaleY
-        }
+    // Load and draw background image
+    const img = new Image()
+    img.crossOrigin = "anonymous"
 
-        // Calculate position for transformations
-        const x = textLayer.x * scaleX
-        const y = textLayer.y * scaleY
-
-        // Apply transformations if needed
-        if (textLayer.rotation || textLayer.scaleX || textLayer.scaleY) {
-          // Calculate center point for rotation/scale
-          const centerX = x + (textLayer.width ? (textLayer.width * scaleX) / 2 : 0)
-          const centerY = y + scaledFontSize / 2
-
-          ctx.translate(centerX, centerY)
-          if (textLayer.rotation) {
-            ctx.rotate((textLayer.rotation * Math.PI) / 180)
-          }
-          if (textLayer.scaleX || textLayer.scaleY) {
-            ctx.scale(textLayer.scaleX || 1, textLayer.scaleY || 1)
-          }
-          ctx.translate(-centerX, -centerY)
-        }
+    await new Promise<void>((resolve, reject) => {
+      img.onload = () => resolve()
+      img.onerror = (error) => {
+        console.error("Image loading error:", error)
+        reject(new Error("Failed to load image"))
+      }
+      img.src = imageData.src
+    })
 
-        // Draw multi-line text
-        const lines = textLayer.text.split("\n")
-        const lineHeight = scaledFontSize * textLayer.lineHeight
+    // Text is measured while the scene is built, so wait for fonts still loading
+    await document.fonts.ready
+    clearTextLayoutCache()
 
-        lines.forEach((line, index) => {
-          const lineY = y + index * lineHeight
-          let lineX = x
+    // Draw the same scene the editor shows; geometry is already in image pixels
+    renderScene(ctx, buildScene(imageData, textLayers), img)
+    return canvas
+  }
 
-          // Adjust x position based on alignment
-          if (textLayer.align === "center" && textLayer.width) {
-            lineX = x + (textLayer.width * scaleX) / 2
-          } else if (textLayer.align === "right" && textLayer.width) {
-            lineX = x + textLayer.width * scaleX
-          }
+  // Export the composition as PNG at original resolution using native Canvas API
+  static async exportToPNG(imageData: ImageData, textLayers: TextLayer[], filename = "composition.png"): Promise<void> {
+    try {
+      console.log("Starting export with:", { imageData, textLayersCount: textLayers.length })
 
-          ctx.fillText(line, lineX, lineY)
-          console.log("Drew text line:", { line, x: lineX, y: lineY, align: textLayer.align })
-        })
+      const canvas = await ExportManager.renderComposition(imageData, textLayers)
 
-        ctx.restore()
-        console.log("Finished drawing layer:", textLayer.id)
-      }
+      console.log("Creating blob...")
+      const blob = await ExportManager.canvasToPNG(canvas)
+      console.log("Blob created successfully, size:", blob.size)
 
-      console.log("All layers drawn, creating blob...")
-      
-      // Convert to blob and download
-      canvas.toBlob(
-        (blob) => {
-          if (!blob) {
-            console.error("Failed to create image blob")
-            throw new Error("Failed to create image blob")
-          }
-
-          console.log("Blob created successfully, size:", blob.size)
-          
-          const link = document.createElement("a")
-          link.download = filename
-          link.href = URL.createObjectURL(blob)
-          document.body.appendChild(link)
-          link.click()
-          document.body.removeChild(link)
-          URL.revokeObjectURL(link.href)
-          
-          console.log("Export completed successfully:", filename)
-        },
-        "image/png",
-        1.0,
-      )
+      ExportManager.downloadBlob(blob, filename)
+      console.log("Export completed successfully:", filename)
     } catch (error) {
       console.error("Export failed:", error)
       if (error instanceof Error) {
@@ -158,46 +66,186 @@ export class ExportManager {
     }
   }
 
-  // Export project data as JSON
-  static exportProjectData(imageData: ImageData | null, textLayers: TextLayer[], filename = "project.json"): void {
-    const projectData = {
-      version: "1.0",
-      timestamp: new Date().toISOString(),
-      imageData,
-      textLayers,
-    }
+  // Small preview of the composition, fitted within maxSize pixels
+  static async renderThumbnail(imageData: ImageData, textLayers: TextLayer[], maxSize = 320): Promise<Blob> {
+    const outputScale = Math.min(1, maxSize / Math.max(imageData.width, imageData.height))
+    const canvas = await ExportManager.renderComposition(imageData, textLayers, outputScale)
+    return ExportManager.canvasToPNG(canvas)
+  }
 
-    const dataStr = JSON.stringify(projectData, null, 2)
-    const dataBlob = new Blob([dataStr], { type: "application/json" })
+  private static canvasToPNG(canvas: HTMLCanvasElement): Promise<Blob> {
+    return new Promise((resolve, reject) => {
+      canvas.toBlob((blob) => (blob ? resolve(blob) : reject(new Error("Failed to create image blob"))), "image/png", 1.0)
+    })
+  }
 
+  private static downloadBlob(blob: Blob, filename: string): void {
     const link = document.createElement("a")
     link.download = filename
-    link.href = URL.createObjectURL(dataBlob)
+    link.href = URL.createObjectURL(blob)
     document.body.appendChild(link)
     link.click()
     document.body.removeChild(link)
     URL.revokeObjectURL(link.href)
   }
 
-  // Import project data from JSON
-  static async importProjectData(file: File): Promise<{
-    imageData: ImageData | null
-    textLayers: TextLayer[]
-  }> {
+  // Render one text layer on a transparent canvas cropped to its bounds, at original resolution
+  static async renderLayerToPNG(textLayer: TextLayer): Promise<Blob> {
+    // Unrotated, so the crop fits the text box
+    const node = { ...buildTextNode(textLayer), rotation: 0 }
+    const width = node.layout.width * Math.abs(node.scaleX)
+    const height = node.layout.height * Math.abs(node.scaleY)
+    const padding = textLayer.shadowBlur + Math.max(Math.abs(textLayer.shadowOffsetX), Math.abs(textLayer.shadowOffsetY))
+
+    const canvas = document.createElement("canvas")
+    canvas.width = Math.max(1, Math.ceil(width + padding * 2))
+    canvas.height = Math.max(1, Math.ceil(height + padding * 2))
+    const ctx = canvas.getContext("2d")
+
+    if (!ctx) {
+      throw new Error("Failed to get 2D canvas context")
+    }
+
+    // Centre the text box in the padded canvas
+    drawTextNode(ctx, { ...node, x: padding + width / 2, y: padding + height / 2 })
+
+    return ExportManager.canvasToPNG(canvas)
+  }
+
+  // Export project data as JSON. Image and font bytes are not included;
+  // use exportProjectBundle() for a file that opens on another machine.
+  static exportProjectData(project: EditorDocument, filename = "project.json"): void {
+    const projectData = {
+      version: CURRENT_PROJECT_VERSION,
+      timestamp: new Date().toISOString(),
+      imageData: AssetStore.toPersistedImageData(project.imageData),
+      textLayers: project.textLayers,
+      customFonts: toPersistedFonts(project.customFonts),
+      guides: project.guides,
+      grid: project.grid,
+    }
+
+    const dataStr = JSON.stringify(projectData, null, 2)
+    ExportManager.downloadBlob(new Blob([dataStr], { type: "application/json" }), filename)
+  }
+
+  // Read back the original bytes of the background image
+  private static async getBackgroundBlob(imageData: ImageData): Promise<Blob | null> {
+    if (imageData.assetId) {
+      const blob = await AssetStore.getBlob(imageData.assetId)
+      if (blob) return blob
+    }
+
     try {
-      const text = await file.text()
-      const projectData = JSON.parse(text)
+      const response = await fetch(imageData.src)
+      return response.ok ? await response.blob() : null
+    } catch {
+      return null
+    }
+  }
+
+  // Export a self-contained .icproj bundle with the background, fonts and a preview
+  static async exportProjectBundle(project: EditorDocument, filename = `project${BUNDLE_EXTENSION}`): Promise<void> {
+    const { imageData, textLayers, customFonts } = project
+    try {
+      const background = imageData ? await ExportManager.getBackgroundBlob(imageData) : null
+      if (imageData && !background) {
+        throw new Error("The background image is no longer available")
+      }
+
+      // Only fonts that a layer or one of its styled spans actually uses are bundled
+      const usedFamilies = new Set(
+        textLayers.flatMap((layer) => [layer.fontFamily, ...(layer.spans ?? []).map((span) => span.fontFamily)]),
+      )
+      const referencedFonts = customFonts.filter((font) => usedFamilies.has(font.family))
+      const fonts: { font: CustomFont; blob: Blob }[] = []
+      for (const font of referencedFonts) {
+        const blob = await fontManager.getCustomFontBlob(font)
+        if (!blob) {
+          throw new Error(`The font file for "${font.name}" is no longer available`)
+        }
+        fonts.push({ font, blob })
+      }
+
+      const preview = imageData ? await ExportManager.renderThumbnail(imageData, textLayers) : null
+
+      const bundle = await ProjectBundle.create({
+        imageData: AssetStore.toPersistedImageData(imageData),
+        textLayers,
+        customFonts: referencedFonts,
+        guides: project.guides,
+        grid: project.grid,
+        background,
+        fonts,
+        preview,
+      })
+      ExportManager.downloadBlob(bundle, filename)
+    } catch (error) {
+      console.error("Project export failed:", error)
+      throw new Error(`Failed to save project: ${error instanceof Error ? error.message : "unknown error"}`)
+    }
+  }
+
+  // Store bundled bytes locally and re-register the fonts
+  private static async rehydrateBundle(file: File): Promise<HydratedDocument> {
+    const { manifest, background, fonts } = await ProjectBundle.read(file)
+    const project = parseProject(manifest.project)
+
+    let imageData: ImageData | null = null
+    if (project.imageData && background) {
+      const src = URL.createObjectURL(background)
+      try {
+        imageData = await AssetStore.attachAsset({ ...project.imageData, src }, background)
+      } catch (error) {
+        console.warn("Could not store bundled background; it will not survive a reload:", error)
+        imageData = { ...project.imageData, src, assetId: undefined }
+      }
+    }
+
+    const customFonts: CustomFont[] = []
+    for (const font of project.customFonts) {
+      const blob = fonts.get(font.id)
+      const loaded = blob ? await fontManager.loadCustomFontFromBlob(blob, font) : null
+      if (loaded) {
+        customFonts.push(loaded)
+      } else {
+        console.warn(`Bundled font "${font.name}" could not be loaded`)
+      }
+    }
+
+    return {
+      imageData,
+      textLayers: project.textLayers,
+      customFonts,
+      guides: project.guides,
+      grid: project.grid,
+      missingImage: !!project.imageData && !imageData,
+    }
+  }
 
-      if (!projectData.version || !projectData.textLayers) {
-        throw new Error("Invalid project file format")
+  // Import a project from a .icproj bundle or a JSON project file
+  static async importProjectData(file: File): Promise<HydratedDocument> {
+    try {
+      if (await ProjectBundle.isBundle(file)) {
+        return await ExportManager.rehydrateBundle(file)
       }
 
-      return {
-        imageData: projectData.imageData || null,
-        textLayers: projectData.textLayers || [],
+      const text = await file.text()
+      let raw: unknown
+      try {
+        raw = JSON.parse(text)
+      } catch {
+        throw new ProjectValidationError("Project file is not valid JSON")
       }
+      const projectData = parseProject(raw)
+
+      // Background and font bytes live in the local asset store, which may not have them
+      return await hydrateDocument(projectData)
     } catch (error) {
       console.error("Import failed:", error)
+      if (error instanceof ProjectValidationError) {
+        throw error
+      }
       throw new Error("Failed to import project file. Please check the file format.")
     }
   }
@@ -1,3 +1,6 @@
+import { AssetStore } from "./asset-store"
+import { clearTextLayoutCache } from "./text-layout"
+
 // Font management utilities
 export interface CustomFont {
   id: string
@@ -6,6 +9,8 @@ export interface CustomFont {
   url: string
   type: "ttf" | "otf" | "woff" | "woff2"
   loaded: boolean
+  // Content hash of the font file in the asset store
+  assetId?: string
 }
 
 export interface GoogleFont {
@@ -178,6 +183,7 @@ class FontManager {
 
             await fontFace.load()
             document.fonts.add(fontFace)
+            clearTextLayoutCache()
             return true
           } catch (e) {
             console.log(`Failed to load font from ${fontUrl}, trying next...`)
@@ -386,6 +392,27 @@ class FontManager {
 
   // Load custom font from file
   async loadCustomFont(file: File): Promise<CustomFont | null> {
+    const fontName = file.name.replace(/\.[^/.]+$/, "")
+    const fontType = file.name.split(".").pop()?.toLowerCase() as CustomFont["type"]
+
+    if (!["ttf", "otf", "woff", "woff2"].includes(fontType)) {
+      console.error("Failed to load custom font:", new Error("Unsupported font format"))
+      return null
+    }
+
+    return this.loadCustomFontFromBlob(file, {
+      id: `custom-${Date.now()}`,
+      name: fontName,
+      family: fontName,
+      type: fontType,
+    })
+  }
+
+  // Register font bytes under a known identity, e.g. when opening a project bundle
+  async loadCustomFontFromBlob(
+    blob: Blob,
+    font: Pick<CustomFont, "id" | "name" | "family" | "type">,
+  ): Promise<CustomFont | null> {
     // Check if we're on the client side
     if (typeof window === 'undefined' || typeof document === 'undefined') {
       console.log('Font loading not available on server side')
@@ -393,31 +420,32 @@ class FontManager {
     }
 
     try {
-      const fontId = `custom-${Date.now()}`
-      const fontUrl = URL.createObjectURL(file)
-      const fontName = file.name.replace(/\.[^/.]+$/, "")
-      const fontType = file.name.split(".").pop()?.toLowerCase() as CustomFont["type"]
-
-      if (!["ttf", "otf", "woff", "woff2"].includes(fontType)) {
-        throw new Error("Unsupported font format")
-      }
+      const fontUrl = URL.createObjectURL(blob)
 
       // Create FontFace and load it
-      const fontFace = new FontFace(fontName, `url(${fontUrl})`)
+      const fontFace = new FontFace(font.family, `url(${fontUrl})`)
       await fontFace.load()
       document.fonts.add(fontFace)
+      // Text laid out before the font arrived was measured with a fallback
+      clearTextLayoutCache()
+
+      // Keep the bytes so the font can be bundled with projects later
+      let assetId: string | undefined
+      try {
+        assetId = await AssetStore.putBlob(blob)
+      } catch (error) {
+        console.warn("Could not store custom font bytes:", error)
+      }
 
       const customFont: CustomFont = {
-        id: fontId,
-        name: fontName,
-        family: fontName,
+        ...font,
         url: fontUrl,
-        type: fontType,
         loaded: true,
+        assetId,
       }
 
-      this.customFonts.set(fontId, customFont)
-      this.loadedFonts.add(fontName) // Add to loaded fonts set
+      this.customFonts.set(font.id, customFont)
+      this.loadedFonts.add(font.family) // Add to loaded fonts set
       return customFont
     } catch (error) {
       console.error("Failed to load custom font:", error)
@@ -425,6 +453,36 @@ class FontManager {
     }
   }
 
+  // Re-register a saved custom font from the asset store, e.g. after a reload
+  async restoreCustomFont(font: Pick<CustomFont, "id" | "name" | "family" | "type" | "assetId">): Promise<CustomFont | null> {
+    const existing = this.customFonts.get(font.id)
+    if (existing) return existing
+    if (!font.assetId) return null
+
+    try {
+      const blob = await AssetStore.getBlob(font.assetId)
+      return blob ? await this.loadCustomFontFromBlob(blob, font) : null
+    } catch (error) {
+      console.error("Failed to restore custom font:", error)
+      return null
+    }
+  }
+
+  // Read back the original bytes of a custom font
+  async getCustomFontBlob(font: CustomFont): Promise<Blob | null> {
+    if (font.assetId) {
+      const blob = await AssetStore.getBlob(font.assetId)
+      if (blob) return blob
+    }
+
+    try {
+      const response = await fetch(font.url)
+      return response.ok ? await response.blob() : null
+    } catch {
+      return null
+    }
+  }
+
   // Get all available fonts
   getAllFonts(): { system: string[]; google: GoogleFont[]; custom: CustomFont[] } {
     return {
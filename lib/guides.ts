@@ -0,0 +1,78 @@
+import type { Size } from "./viewport"
+
+// A ruler guide across the whole document. Horizontal guides sit at a y position,
+// vertical guides at an x position, both in image pixels.
+export type GuideOrientation = "horizontal" | "vertical"
+
+export interface Guide {
+  id: string
+  orientation: GuideOrientation
+  position: number
+  name?: string
+  locked?: boolean
+}
+
+export type GridType = "grid" | "columns"
+
+// "grid" draws square cells of `spacing` pixels; "columns" draws a column layout
+// with outer margins and gutters between the columns
+export interface GridSettings {
+  visible: boolean
+  type: GridType
+  spacing: number
+  columns: number
+  gutter: number
+  margin: number
+}
+
+export const DEFAULT_GRID: GridSettings = {
+  visible: false,
+  type: "grid",
+  spacing: 50,
+  columns: 12,
+  gutter: 20,
+  margin: 40,
+}
+
+// Positions of vertical (x) and horizontal (y) lines that layers snap to
+export interface SnapLines {
+  x: number[]
+  y: number[]
+}
+
+export const createGuideId = () => `guide-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`
+
+// Column rectangles of a column layout, from left to right
+export const getGridColumns = (grid: GridSettings, size: Size): { left: number; right: number }[] => {
+  const columns = Math.max(1, Math.floor(grid.columns))
+  const inner = size.width - grid.margin * 2 - grid.gutter * (columns - 1)
+  if (inner <= 0) return []
+
+  const width = inner / columns
+  return Array.from({ length: columns }, (_, index) => {
+    const left = grid.margin + index * (width + grid.gutter)
+    return { left, right: left + width }
+  })
+}
+
+// Every grid line inside the document; empty while the grid is hidden
+export const getGridLines = (grid: GridSettings, size: Size): SnapLines => {
+  if (!grid.visible) return { x: [], y: [] }
+
+  if (grid.type === "columns") {
+    return { x: getGridColumns(grid, size).flatMap((column) => [column.left, column.right]), y: [] }
+  }
+
+  if (grid.spacing <= 0) return { x: [], y: [] }
+  const steps = (length: number) =>
+    Array.from({ length: Math.floor(length / grid.spacing) + 1 }, (_, index) => index * grid.spacing)
+  return { x: steps(size.width), y: steps(size.height) }
+}
+
+export const getSnapLines = (guides: Guide[], grid: GridSettings, size: Size): SnapLines => {
+  const gridLines = getGridLines(grid, size)
+  return {
+    x: [...guides.filter((guide) => guide.orientation === "vertical").map((guide) => guide.position), ...gridLines.x],
+    y: [...guides.filter((guide) => guide.orientation === "horizontal").map((guide) => guide.position), ...gridLines.y],
+  }
+}
@@ -0,0 +1,79 @@
+import type { TextLayer } from "./editor-store"
+import type { GridSettings, Guide } from "./guides"
+
+// Human-readable names for history entries, e.g. "Changed font size of 'Sale'"
+
+const MAX_NAME_LENGTH = 24
+
+const PROPERTY_NAMES: Partial<Record<keyof TextLayer, string>> = {
+  fontSize: "font size",
+  fontFamily: "font",
+  fontWeight: "font weight",
+  fontStyle: "font style",
+  textDecoration: "text decoration",
+  fill: "color",
+  opacity: "opacity",
+  align: "alignment",
+  lineHeight: "line height",
+  letterSpacing: "letter spacing",
+  shadowColor: "shadow color",
+  shadowBlur: "shadow blur",
+  shadowOffsetX: "shadow offset",
+  shadowOffsetY: "shadow offset",
+  shadowOpacity: "shadow opacity",
+  width: "width",
+  height: "height",
+  boxMode: "text box",
+  overflow: "overflow",
+  hyphenation: "hyphenation",
+  autoFit: "auto-fit",
+  spans: "text styles",
+  zIndex: "stacking order",
+}
+
+// Quoted, shortened layer text used to identify a layer in labels
+export const layerName = (layer: Pick<TextLayer, "text"> | undefined): string => {
+  const text = layer?.text.replace(/\s+/g, " ").trim() ?? ""
+  if (!text) return "layer"
+  return `'${text.length > MAX_NAME_LENGTH ? `${text.slice(0, MAX_NAME_LENGTH - 1)}…` : text}'`
+}
+
+// Name of one layer, or a count for several
+export const layersName = (layers: Pick<TextLayer, "text">[]): string =>
+  layers.length === 1 ? layerName(layers[0]) : `${layers.length} layers`
+
+// A guide is named by its label, or by its orientation
+export const guideName = (guide: Guide | undefined): string => {
+  const name = guide?.name?.trim()
+  if (name) return `guide '${name}'`
+  return guide ? `${guide.orientation} guide` : "guide"
+}
+
+export const describeGuideUpdate = (guide: Guide | undefined, updates: Partial<Guide>): string => {
+  if ("position" in updates) return `Moved ${guideName(guide)}`
+  if ("name" in updates) return updates.name?.trim() ? `Renamed ${guideName(guide)}` : `Cleared name of ${guideName(guide)}`
+  if ("locked" in updates) return `${updates.locked ? "Locked" : "Unlocked"} ${guideName(guide)}`
+  return `Edited ${guideName(guide)}`
+}
+
+export const describeGridUpdate = (updates: Partial<GridSettings>): string => {
+  if ("visible" in updates) return updates.visible ? "Showed grid" : "Hid grid"
+  if ("type" in updates) return updates.type === "columns" ? "Switched to column layout" : "Switched to grid"
+  return "Changed grid settings"
+}
+
+// `name` identifies the edited layer(s), see layerName and layersName
+export const describeLayerUpdate = (name: string, updates: Partial<TextLayer>): string => {
+  const keys = Object.keys(updates) as (keyof TextLayer)[]
+
+  if (keys.length === 0) return `Edited ${name}`
+  if (keys.every((key) => key === "x" || key === "y")) return `Moved ${name}`
+  if (keys.every((key) => key === "rotation")) return `Rotated ${name}`
+  if (keys.every((key) => key === "scaleX" || key === "scaleY")) return `Scaled ${name}`
+  if (keys.includes("text") && keys.every((key) => key === "text" || key === "spans")) return `Edited text of ${name}`
+  if (keys.includes("rotation") && keys.includes("scaleX")) return `Reset transform of ${name}`
+
+  const properties = Array.from(new Set(keys.map((key) => PROPERTY_NAMES[key]).filter(Boolean)))
+  if (properties.length === 1) return `Changed ${properties[0]} of ${name}`
+  return `Changed style of ${name}`
+}
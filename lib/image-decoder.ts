@@ -0,0 +1,230 @@
+import type { ImageData } from "./editor-store"
+
+// Image decoding pipeline for background images.
+// Each decoder claims a set of MIME types / extensions and turns a file into a
+// browser-renderable source. New formats can be added with registerImageDecoder().
+
+export type ImageDecodeErrorCode = "unsupported-format" | "file-too-large" | "decode-failed" | "invalid-svg"
+
+export class ImageDecodeError extends Error {
+  readonly code: ImageDecodeErrorCode
+
+  constructor(code: ImageDecodeErrorCode, message: string) {
+    super(message)
+    this.name = "ImageDecodeError"
+    this.code = code
+  }
+}
+
+export interface DecodeOptions {
+  // Longest edge in pixels used when rasterizing vector formats (SVG)
+  svgRasterSize?: number
+}
+
+export interface DecodedImage {
+  src: string
+  width: number
+  height: number
+  // MIME type of the file the user supplied, not of the rendered output
+  mimeType: string
+  // Bytes backing `src` (the rasterized output for vector formats)
+  blob: Blob
+}
+
+export interface ImageDecoder {
+  name: string
+  mimeTypes: string[]
+  extensions: string[]
+  decode: (file: Blob, mimeType: string, options: DecodeOptions) => Promise<DecodedImage>
+}
+
+export const MAX_IMAGE_FILE_SIZE = 10 * 1024 * 1024 // 10MB
+export const DEFAULT_SVG_RASTER_SIZE = 2048
+export const SVG_RASTER_SIZES = [1024, 2048, 4096]
+
+// Load a blob into an HTMLImageElement backed by an object URL
+const loadImageElement = (blob: Blob): Promise<HTMLImageElement> => {
+  return new Promise((resolve, reject) => {
+    const img = new Image()
+    const url = URL.createObjectURL(blob)
+    img.onload = () => resolve(img)
+    img.onerror = () => {
+      URL.revokeObjectURL(url)
+      reject(new Error("Image element failed to load"))
+    }
+    img.src = url
+  })
+}
+
+// Draw an image source onto a canvas and encode it as PNG
+const rasterizeToPNG = async (source: CanvasImageSource, width: number, height: number): Promise<Blob> => {
+  const canvas = document.createElement("canvas")
+  canvas.width = width
+  canvas.height = height
+  const ctx = canvas.getContext("2d")
+  if (!ctx) {
+    throw new Error("Failed to get 2D canvas context")
+  }
+  ctx.drawImage(source, 0, 0, width, height)
+
+  return new Promise((resolve, reject) => {
+    canvas.toBlob((blob) => (blob ? resolve(blob) : reject(new Error("Failed to encode PNG"))), "image/png")
+  })
+}
+
+// Formats the browser renders natively in an <img>
+const rasterDecoder: ImageDecoder = {
+  name: "raster",
+  mimeTypes: ["image/png", "image/jpeg", "image/webp", "image/avif", "image/bmp", "image/x-ms-bmp"],
+  extensions: ["png", "jpg", "jpeg", "webp", "avif", "bmp"],
+  decode: async (file, mimeType) => {
+    try {
+      const img = await loadImageElement(file)
+      return { src: img.src, width: img.naturalWidth, height: img.naturalHeight, mimeType, blob: file }
+    } catch {
+      throw new ImageDecodeError(
+        "decode-failed",
+        `Could not decode this ${describeMimeType(mimeType)} image. Your browser may not support it, or the file is damaged.`,
+      )
+    }
+  },
+}
+
+// Animated GIFs are flattened to their first frame so the canvas and export agree
+const gifDecoder: ImageDecoder = {
+  name: "gif",
+  mimeTypes: ["image/gif"],
+  extensions: ["gif"],
+  decode: async (file, mimeType) => {
+    try {
+      const bitmap = await createImageBitmap(file)
+      const blob = await rasterizeToPNG(bitmap, bitmap.width, bitmap.height)
+      const { width, height } = bitmap
+      bitmap.close()
+      return { src: URL.createObjectURL(blob), width, height, mimeType, blob }
+    } catch {
+      throw new ImageDecodeError("decode-failed", "Could not decode the first frame of this GIF image.")
+    }
+  },
+}
+
+// Read the intrinsic size of an SVG from its width/height attributes or viewBox
+const getSVGIntrinsicSize = (svgText: string): { width: number; height: number } => {
+  const doc = new DOMParser().parseFromString(svgText, "image/svg+xml")
+  const svg = doc.documentElement
+  if (!svg || svg.nodeName.toLowerCase() !== "svg" || doc.getElementsByTagName("parsererror").length > 0) {
+    throw new ImageDecodeError("invalid-svg", "This SVG file could not be parsed.")
+  }
+
+  const width = Number.parseFloat(svg.getAttribute("width") || "")
+  const height = Number.parseFloat(svg.getAttribute("height") || "")
+  if (width > 0 && height > 0) {
+    return { width, height }
+  }
+
+  const viewBox = (svg.getAttribute("viewBox") || "").split(/[\s,]+/).map(Number)
+  if (viewBox.length === 4 && viewBox[2] > 0 && viewBox[3] > 0) {
+    return { width: viewBox[2], height: viewBox[3] }
+  }
+
+  throw new ImageDecodeError("invalid-svg", "This SVG has no width/height or viewBox, so it cannot be sized.")
+}
+
+// SVGs are rasterized so the longest edge matches the requested resolution
+const svgDecoder: ImageDecoder = {
+  name: "svg",
+  mimeTypes: ["image/svg+xml"],
+  extensions: ["svg"],
+  decode: async (file, mimeType, options) => {
+    const intrinsic = getSVGIntrinsicSize(await file.text())
+    const targetSize = options.svgRasterSize || DEFAULT_SVG_RASTER_SIZE
+    const scale = targetSize / Math.max(intrinsic.width, intrinsic.height)
+    const width = Math.round(intrinsic.width * scale)
+    const height = Math.round(intrinsic.height * scale)
+
+    try {
+      const img = await loadImageElement(new Blob([file], { type: "image/svg+xml" }))
+      const blob = await rasterizeToPNG(img, width, height)
+      URL.revokeObjectURL(img.src)
+      return { src: URL.createObjectURL(blob), width, height, mimeType, blob }
+    } catch {
+      throw new ImageDecodeError("decode-failed", "Could not rasterize this SVG image.")
+    }
+  },
+}
+
+const decoders: ImageDecoder[] = [rasterDecoder, gifDecoder, svgDecoder]
+
+// Register an additional decoder; later registrations take precedence
+export const registerImageDecoder = (decoder: ImageDecoder): void => {
+  decoders.unshift(decoder)
+}
+
+const getExtension = (name: string): string => name.split(".").pop()?.toLowerCase() || ""
+
+const findDecoder = (file: File | Blob): { decoder: ImageDecoder; mimeType: string } | null => {
+  const type = file.type.toLowerCase()
+  const extension = file instanceof File ? getExtension(file.name) : ""
+
+  for (const decoder of decoders) {
+    if (type && decoder.mimeTypes.includes(type)) {
+      return { decoder, mimeType: type }
+    }
+  }
+
+  // Some platforms report an empty type; fall back to the file extension
+  for (const decoder of decoders) {
+    if (extension && decoder.extensions.includes(extension)) {
+      return { decoder, mimeType: type || decoder.mimeTypes[0] }
+    }
+  }
+
+  return null
+}
+
+// Human-readable label for a MIME type, e.g. "image/jpeg" -> "JPEG"
+export const describeMimeType = (mimeType: string): string => {
+  const subtype = mimeType.split("/")[1] || mimeType
+  return subtype.replace(/^x-ms-/, "").replace("+xml", "").toUpperCase()
+}
+
+// Value for the `accept` attribute of file inputs
+export const getAcceptedImageTypes = (): string => {
+  const types = new Set<string>()
+  decoders.forEach((decoder) => {
+    decoder.mimeTypes.forEach((type) => types.add(type))
+    decoder.extensions.forEach((ext) => types.add(`.${ext}`))
+  })
+  return Array.from(types).join(",")
+}
+
+export const isSupportedImageFile = (file: File | Blob): boolean => findDecoder(file) !== null
+
+// Decode any supported image file into a renderable source
+export const decodeImageFile = async (file: File | Blob, options: DecodeOptions = {}): Promise<DecodedImage> => {
+  const match = findDecoder(file)
+  if (!match) {
+    const label = file.type ? describeMimeType(file.type) : "this file type"
+    throw new ImageDecodeError(
+      "unsupported-format",
+      `Unsupported image format: ${label}. Use PNG, JPEG, WebP, AVIF, GIF, BMP or SVG.`,
+    )
+  }
+
+  if (file.size > MAX_IMAGE_FILE_SIZE) {
+    throw new ImageDecodeError(
+      "file-too-large",
+      `File size too large (${(file.size / 1024 / 1024).toFixed(1)}MB). Please select an image smaller than 10MB.`,
+    )
+  }
+
+  return match.decoder.decode(file, match.mimeType, options)
+}
+
+// Build editor image data; the canvas viewport decides how large it is shown
+export const toImageData = (decoded: DecodedImage): ImageData => ({
+  src: decoded.src,
+  width: decoded.width,
+  height: decoded.height,
+  mimeType: decoded.mimeType,
+})
@@ -0,0 +1,82 @@
+// Shared IndexedDB connection for the editor's persistent stores.
+// Bump DB_VERSION and add an upgrade step whenever a store is added.
+
+const DB_NAME = "image-text-composer"
+const DB_VERSION = 4
+
+export const STORES = {
+  assets: "assets",
+  projects: "projects",
+  autosaves: "autosaves",
+  versions: "versions",
+} as const
+
+export type StoreName = (typeof STORES)[keyof typeof STORES]
+
+let dbPromise: Promise<IDBDatabase> | null = null
+
+// Each step upgrades the schema from the previous version
+const upgrade = (db: IDBDatabase, oldVersion: number) => {
+  if (oldVersion < 1) {
+    db.createObjectStore(STORES.assets, { keyPath: "id" })
+  }
+  if (oldVersion < 2) {
+    const projects = db.createObjectStore(STORES.projects, { keyPath: "id" })
+    projects.createIndex("updatedAt", "updatedAt")
+  }
+  if (oldVersion < 3) {
+    db.createObjectStore(STORES.autosaves, { keyPath: "id" })
+  }
+  if (oldVersion < 4) {
+    const versions = db.createObjectStore(STORES.versions, { keyPath: "id" })
+    versions.createIndex("projectId", "projectId")
+  }
+}
+
+export const isIndexedDBAvailable = (): boolean => typeof indexedDB !== "undefined"
+
+export const openDatabase = (): Promise<IDBDatabase> => {
+  if (!isIndexedDBAvailable()) {
+    return Promise.reject(new Error("IndexedDB is not available in this browser"))
+  }
+
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION)
+      request.onupgradeneeded = (event) => upgrade(request.result, event.oldVersion)
+      request.onsuccess = () => {
+        const db = request.result
+        // Let another tab upgrade the schema instead of blocking it
+        db.onversionchange = () => {
+          db.close()
+          dbPromise = null
+        }
+        resolve(db)
+      }
+      request.onerror = () => {
+        dbPromise = null
+        reject(request.error)
+      }
+    })
+  }
+
+  return dbPromise
+}
+
+export const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> => {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+}
+
+// Run a single request against one object store
+export const withStore = async <T>(
+  storeName: StoreName,
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>,
+): Promise<T> => {
+  const db = await openDatabase()
+  const transaction = db.transaction(storeName, mode)
+  return requestToPromise(run(transaction.objectStore(storeName)))
+}
@@ -0,0 +1,49 @@
+import type { TextLayer } from "./editor-store"
+import { layoutText } from "./text-layout"
+
+// Axis-aligned box in image pixels
+export interface Bounds {
+  left: number
+  top: number
+  right: number
+  bottom: number
+}
+
+// Unscaled size of the text box: the layer's width (or its widest line) and one line box per line
+export const measureLayerText = (layer: TextLayer): { width: number; height: number } => {
+  const { width, height } = layoutText(layer)
+  return { width, height }
+}
+
+// Bounds of a layer as drawn, including scale and rotation about the centre of its unscaled box
+export const getLayerBounds = (layer: TextLayer): Bounds => {
+  const size = measureLayerText(layer)
+  const width = size.width * Math.abs(layer.scaleX || 1)
+  const height = size.height * Math.abs(layer.scaleY || 1)
+  const centerX = layer.x + size.width / 2
+  const centerY = layer.y + size.height / 2
+
+  const angle = ((layer.rotation || 0) * Math.PI) / 180
+  const cos = Math.abs(Math.cos(angle))
+  const sin = Math.abs(Math.sin(angle))
+  const halfWidth = (width * cos + height * sin) / 2
+  const halfHeight = (width * sin + height * cos) / 2
+
+  return {
+    left: centerX - halfWidth,
+    top: centerY - halfHeight,
+    right: centerX + halfWidth,
+    bottom: centerY + halfHeight,
+  }
+}
+
+// Smallest box containing all the given boxes
+export const unionBounds = (bounds: Bounds[]): Bounds | null => {
+  if (bounds.length === 0) return null
+  return {
+    left: Math.min(...bounds.map((b) => b.left)),
+    top: Math.min(...bounds.map((b) => b.top)),
+    right: Math.max(...bounds.map((b) => b.right)),
+    bottom: Math.max(...bounds.map((b) => b.bottom)),
+  }
+}
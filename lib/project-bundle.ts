@@ -0,0 +1,168 @@
+import { strFromU8, strToU8, unzipSync, zipSync, type Zippable } from "fflate"
+import type { ImageData, TextLayer } from "./editor-store"
+import type { CustomFont } from "./font-manager"
+import type { GridSettings, Guide } from "./guides"
+import { CURRENT_PROJECT_VERSION, toPersistedFonts, type PersistedCustomFont } from "./project-schema"
+
+// Self-contained project file (.icproj): a zip archive holding a manifest,
+// the original background bytes, every custom font the layers use and a
+// preview thumbnail, so a project opens the same on any machine.
+//
+//   manifest.json
+//   background.<ext>
+//   fonts/<font-id>.<ext>
+//   preview.png
+
+export const BUNDLE_EXTENSION = ".icproj"
+export const BUNDLE_MIME_TYPE = "application/x-image-text-composer"
+const BUNDLE_FORMAT_VERSION = 1
+
+export interface BundleManifest {
+  format: "icproj"
+  formatVersion: number
+  createdAt: string
+  project: {
+    version: string
+    imageData: ImageData | null
+    textLayers: TextLayer[]
+    customFonts: PersistedCustomFont[]
+    guides: Guide[]
+    grid: GridSettings
+  }
+  files: {
+    background: string | null
+    fonts: Record<string, string>
+    preview: string | null
+  }
+}
+
+export interface BundleContents {
+  imageData: ImageData | null
+  textLayers: TextLayer[]
+  customFonts: CustomFont[]
+  guides: Guide[]
+  grid: GridSettings
+  background: Blob | null
+  fonts: { font: CustomFont; blob: Blob }[]
+  preview: Blob | null
+}
+
+export interface ReadBundle {
+  manifest: BundleManifest
+  background: Blob | null
+  fonts: Map<string, Blob>
+  preview: Blob | null
+}
+
+const EXTENSIONS: Record<string, string> = {
+  "image/png": "png",
+  "image/jpeg": "jpg",
+  "image/webp": "webp",
+  "image/avif": "avif",
+  "image/gif": "gif",
+  "image/bmp": "bmp",
+  "image/svg+xml": "svg",
+}
+
+const MIME_TYPES: Record<string, string> = Object.fromEntries(
+  Object.entries(EXTENSIONS).map(([type, ext]) => [ext, type]),
+)
+
+const FONT_MIME_TYPES: Record<CustomFont["type"], string> = {
+  ttf: "font/ttf",
+  otf: "font/otf",
+  woff: "font/woff",
+  woff2: "font/woff2",
+}
+
+const toBytes = async (blob: Blob): Promise<Uint8Array> => new Uint8Array(await blob.arrayBuffer())
+
+export class ProjectBundle {
+  // Zip archives start with the local file header signature "PK\x03\x04"
+  static async isBundle(file: Blob): Promise<boolean> {
+    const header = new Uint8Array(await file.slice(0, 4).arrayBuffer())
+    return header[0] === 0x50 && header[1] === 0x4b && header[2] === 0x03 && header[3] === 0x04
+  }
+
+  static async create(contents: BundleContents): Promise<Blob> {
+    const files: Zippable = {}
+    const manifestFiles: BundleManifest["files"] = { background: null, fonts: {}, preview: null }
+
+    if (contents.background) {
+      const ext = EXTENSIONS[contents.background.type] || "bin"
+      manifestFiles.background = `background.${ext}`
+      // Images are already compressed; storing them avoids wasted work
+      files[manifestFiles.background] = [await toBytes(contents.background), { level: 0 }]
+    }
+
+    for (const { font, blob } of contents.fonts) {
+      const path = `fonts/${font.id}.${font.type}`
+      manifestFiles.fonts[font.id] = path
+      files[path] = await toBytes(blob)
+    }
+
+    if (contents.preview) {
+      manifestFiles.preview = "preview.png"
+      files[manifestFiles.preview] = [await toBytes(contents.preview), { level: 0 }]
+    }
+
+    const manifest: BundleManifest = {
+      format: "icproj",
+      formatVersion: BUNDLE_FORMAT_VERSION,
+      createdAt: new Date().toISOString(),
+      project: {
+        version: CURRENT_PROJECT_VERSION,
+        imageData: contents.imageData,
+        textLayers: contents.textLayers,
+        customFonts: toPersistedFonts(contents.customFonts),
+        guides: contents.guides,
+        grid: contents.grid,
+      },
+      files: manifestFiles,
+    }
+    files["manifest.json"] = strToU8(JSON.stringify(manifest, null, 2))
+
+    const zipped = zipSync(files)
+    return new Blob([new Uint8Array(zipped)], { type: BUNDLE_MIME_TYPE })
+  }
+
+  static async read(file: Blob): Promise<ReadBundle> {
+    const entries = unzipSync(await toBytes(file))
+    const manifestBytes = entries["manifest.json"]
+    if (!manifestBytes) {
+      throw new Error("Project bundle has no manifest.json")
+    }
+
+    const manifest = JSON.parse(strFromU8(manifestBytes)) as BundleManifest
+    if (manifest.format !== "icproj" || !manifest.project) {
+      throw new Error("Not an Image Text Composer project bundle")
+    }
+    if (manifest.formatVersion > BUNDLE_FORMAT_VERSION) {
+      throw new Error("This project bundle was created by a newer version of the editor")
+    }
+
+    const entryToBlob = (path: string | null, type: string): Blob | null => {
+      const bytes = path ? entries[path] : undefined
+      // Entries may be views into the archive buffer, so copy them out
+      return bytes ? new Blob([new Uint8Array(bytes)], { type }) : null
+    }
+
+    const backgroundPath = manifest.files.background
+    const backgroundType = MIME_TYPES[backgroundPath?.split(".").pop() || ""] || "application/octet-stream"
+
+    const fonts = new Map<string, Blob>()
+    for (const font of manifest.project.customFonts || []) {
+      const blob = entryToBlob(manifest.files.fonts[font.id] ?? null, FONT_MIME_TYPES[font.type])
+      if (blob) {
+        fonts.set(font.id, blob)
+      }
+    }
+
+    return {
+      manifest,
+      background: entryToBlob(backgroundPath, backgroundType),
+      fonts,
+      preview: entryToBlob(manifest.files.preview, "image/png"),
+    }
+  }
+}
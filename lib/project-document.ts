@@ -0,0 +1,56 @@
+import type { ImageData, TextLayer } from "./editor-store"
+import { AssetStore } from "./asset-store"
+import { fontManager, type CustomFont } from "./font-manager"
+import { DEFAULT_GRID, type GridSettings, type Guide } from "./guides"
+import { convertDisplayUnits, type PersistedCustomFont } from "./project-schema"
+
+export interface PersistedDocument {
+  imageData: ImageData | null
+  textLayers: TextLayer[]
+  customFonts: (PersistedCustomFont | CustomFont)[]
+  // Missing from documents saved before guides existed
+  guides?: Guide[]
+  grid?: GridSettings
+}
+
+export interface HydratedDocument {
+  imageData: ImageData | null
+  textLayers: TextLayer[]
+  customFonts: CustomFont[]
+  guides: Guide[]
+  grid: GridSettings
+  // The document referenced a background that is not stored in this browser
+  missingImage: boolean
+}
+
+// Resolve asset references of a saved document so it can be loaded into the editor
+export const hydrateDocument = async (saved: PersistedDocument): Promise<HydratedDocument> => {
+  // Autosaves and versions from before image-pixel geometry are converted here
+  const document = convertDisplayUnits(saved)
+  let imageData: ImageData | null = null
+  try {
+    imageData = await AssetStore.resolveImageData(document.imageData)
+  } catch (error) {
+    console.error("Failed to resolve background asset:", error)
+  }
+
+  // Fonts can only be restored if their bytes are stored locally
+  const customFonts: CustomFont[] = []
+  for (const font of document.customFonts || []) {
+    const restored = await fontManager.restoreCustomFont(font)
+    if (restored) {
+      customFonts.push(restored)
+    } else {
+      console.warn(`Custom font "${font.name}" is not available in this browser`)
+    }
+  }
+
+  return {
+    imageData,
+    textLayers: document.textLayers || [],
+    customFonts,
+    guides: document.guides ?? [],
+    grid: document.grid ?? DEFAULT_GRID,
+    missingImage: !!document.imageData && !imageData,
+  }
+}
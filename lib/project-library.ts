@@ -0,0 +1,117 @@
+import { AutosaveManager, type AutosaveData } from "./autosave-manager"
+import { STORES, openDatabase, requestToPromise, withStore } from "./indexed-db"
+import { VersionHistory } from "./version-history"
+
+// Local library of named projects. Metadata and thumbnails live in IndexedDB;
+// each project's document lives in its own autosave slot (see AutosaveManager).
+
+export interface ProjectRecord {
+  id: string
+  name: string
+  createdAt: number
+  updatedAt: number
+  thumbnail: Blob | null
+}
+
+const ACTIVE_PROJECT_KEY = "image-text-composer-active-project"
+const DEFAULT_PROJECT_NAME = "Untitled project"
+
+const createProjectId = () => `project-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`
+
+export class ProjectLibrary {
+  // All projects, most recently modified first, optionally filtered by name
+  static async list(query = ""): Promise<ProjectRecord[]> {
+    const db = await openDatabase()
+    const index = db.transaction(STORES.projects, "readonly").objectStore(STORES.projects).index("updatedAt")
+    const records = (await requestToPromise(index.getAll())) as ProjectRecord[]
+    const needle = query.trim().toLowerCase()
+
+    return records
+      .filter((record) => !needle || record.name.toLowerCase().includes(needle))
+      .sort((a, b) => b.updatedAt - a.updatedAt)
+  }
+
+  static async get(id: string): Promise<ProjectRecord | null> {
+    const record = await withStore<ProjectRecord | undefined>(STORES.projects, "readonly", (store) => store.get(id))
+    return record ?? null
+  }
+
+  private static async put(record: ProjectRecord): Promise<ProjectRecord> {
+    await withStore(STORES.projects, "readwrite", (store) => store.put(record))
+    return record
+  }
+
+  static async create(name = DEFAULT_PROJECT_NAME, initialState?: AutosaveData): Promise<ProjectRecord> {
+    const now = Date.now()
+    const record: ProjectRecord = { id: createProjectId(), name, createdAt: now, updatedAt: now, thumbnail: null }
+    if (initialState) {
+      await AutosaveManager.writeState(record.id, { ...initialState, timestamp: now })
+    }
+    return this.put(record)
+  }
+
+  static async rename(id: string, name: string): Promise<ProjectRecord | null> {
+    const record = await this.get(id)
+    if (!record) return null
+    return this.put({ ...record, name: name.trim() || DEFAULT_PROJECT_NAME, updatedAt: Date.now() })
+  }
+
+  static async duplicate(id: string): Promise<ProjectRecord | null> {
+    const record = await this.get(id)
+    if (!record) return null
+
+    const now = Date.now()
+    const copy: ProjectRecord = {
+      ...record,
+      id: createProjectId(),
+      name: `${record.name} (copy)`,
+      createdAt: now,
+      updatedAt: now,
+    }
+    await AutosaveManager.copyState(id, copy.id)
+    return this.put(copy)
+  }
+
+  static async delete(id: string): Promise<void> {
+    await withStore(STORES.projects, "readwrite", (store) => store.delete(id))
+    AutosaveManager.clearSave(id)
+    await VersionHistory.deleteForProject(id)
+    if (this.getActiveProjectId() === id) {
+      localStorage.removeItem(ACTIVE_PROJECT_KEY)
+    }
+  }
+
+  // Record a save: bump the modification time and optionally refresh the thumbnail
+  static async recordSave(id: string, updatedAt: number, thumbnail?: Blob | null): Promise<void> {
+    const record = await this.get(id)
+    if (!record) return
+    await this.put({ ...record, updatedAt, thumbnail: thumbnail === undefined ? record.thumbnail : thumbnail })
+  }
+
+  static getActiveProjectId(): string | null {
+    return localStorage.getItem(ACTIVE_PROJECT_KEY)
+  }
+
+  static setActiveProjectId(id: string): void {
+    localStorage.setItem(ACTIVE_PROJECT_KEY, id)
+  }
+
+  // Return the active project, creating one (and adopting the old single
+  // autosave slot, if present) when the library is empty
+  static async ensureActiveProject(): Promise<ProjectRecord> {
+    const activeId = this.getActiveProjectId()
+    const active = activeId ? await this.get(activeId) : null
+    if (active) return active
+
+    const [latest] = await this.list()
+    if (latest) {
+      this.setActiveProjectId(latest.id)
+      return latest
+    }
+
+    const legacy = AutosaveManager.takeLegacyState()
+    const created = await this.create(DEFAULT_PROJECT_NAME, legacy ?? undefined)
+    this.setActiveProjectId(created.id)
+    return created
+  }
+}
@@ -0,0 +1,138 @@
+import { describe, expect, it } from "vitest"
+import { DEFAULT_GRID } from "./guides"
+import {
+  convertDisplayUnits,
+  CURRENT_PROJECT_VERSION,
+  migrateProject,
+  parseProject,
+  parseTextLayer,
+  ProjectValidationError,
+} from "./project-schema"
+
+// A layer as the first project files saved it: no stacking order, preview pixels
+const legacyLayer = (overrides: Record<string, unknown> = {}) => ({
+  id: "text-1",
+  text: "Hello",
+  x: 100,
+  y: 50,
+  fontSize: 20,
+  fontFamily: "Arial",
+  fill: "#000000",
+  opacity: 1,
+  align: "left",
+  lineHeight: 1.2,
+  letterSpacing: 2,
+  shadowColor: "#000000",
+  shadowBlur: 4,
+  shadowOffsetX: 1,
+  shadowOffsetY: 1,
+  ...overrides,
+})
+
+const imageData = { src: "data:image/png;base64,", width: 1600, height: 1200 }
+
+describe("project migrations", () => {
+  it("upgrades a 1.0 file to the current version", () => {
+    const project = parseProject({
+      version: "1.0",
+      imageData: { ...imageData, displayWidth: 800, displayHeight: 600 },
+      textLayers: [legacyLayer(), legacyLayer({ id: "text-2" })],
+    })
+
+    expect(project.version).toBe(CURRENT_PROJECT_VERSION)
+    expect(project.customFonts).toEqual([])
+    expect(project.guides).toEqual([])
+    expect(project.grid).toEqual(DEFAULT_GRID)
+    expect(project.textLayers.map((layer) => layer.zIndex)).toEqual([1, 2])
+    expect(project.imageData).toEqual(imageData)
+  })
+
+  it("rescales preview pixels to image pixels in 1.2", () => {
+    const [layer] = parseProject({
+      version: "1.1",
+      imageData: { ...imageData, displayWidth: 800, displayHeight: 400 },
+      textLayers: [legacyLayer({ zIndex: 1 })],
+      customFonts: [],
+    }).textLayers
+
+    // Positions follow their axis; sizes use the smaller factor
+    expect(layer).toMatchObject({ x: 200, y: 150, fontSize: 40, letterSpacing: 4, shadowBlur: 8 })
+    expect(layer).toMatchObject({ shadowOffsetX: 2, shadowOffsetY: 3 })
+  })
+
+  it("drops the stale width of layers that size to their text in 1.4", () => {
+    const project = migrateProject({
+      version: "1.3",
+      textLayers: [
+        legacyLayer({ width: 57.3, height: 24 }),
+        legacyLayer({ id: "text-2", boxMode: "fixedSize", width: 300, height: 200 }),
+      ],
+    })
+
+    expect(project.textLayers).toEqual([
+      legacyLayer(),
+      legacyLayer({ id: "text-2", boxMode: "fixedSize", width: 300, height: 200 }),
+    ])
+  })
+
+  it("rejects versions it can't upgrade from", () => {
+    expect(() => parseProject({ version: "0.9", textLayers: [] })).toThrow('Unsupported project version "0.9"')
+    expect(() => parseProject({ textLayers: [] })).toThrow(ProjectValidationError)
+    expect(() => parseProject([])).toThrow("Project data must be a JSON object")
+  })
+
+  it("reports every invalid field by path", () => {
+    try {
+      parseProject({
+        version: CURRENT_PROJECT_VERSION,
+        imageData: null,
+        textLayers: [legacyLayer({ zIndex: 1, fontSize: -1, align: "justify" })],
+        customFonts: [],
+        guides: [],
+        grid: DEFAULT_GRID,
+      })
+      expect.unreachable()
+    } catch (error) {
+      expect(error).toBeInstanceOf(ProjectValidationError)
+      expect((error as ProjectValidationError).issues.map((issue) => issue.path)).toEqual([
+        "textLayers[0].fontSize",
+        "textLayers[0].align",
+      ])
+    }
+  })
+})
+
+describe("convertDisplayUnits", () => {
+  it("leaves documents already in image pixels alone", () => {
+    const document = { imageData, textLayers: [legacyLayer()] }
+    expect(convertDisplayUnits(document)).toBe(document)
+    expect(convertDisplayUnits({ imageData: null, textLayers: [] })).toEqual({ imageData: null, textLayers: [] })
+  })
+
+  it("keeps malformed fields for validation to report", () => {
+    const converted = convertDisplayUnits({
+      imageData: { ...imageData, displayWidth: 800, displayHeight: 600 },
+      textLayers: [null, legacyLayer({ x: "left", width: 100 })],
+    })
+
+    expect(converted.imageData).toEqual(imageData)
+    expect(converted.textLayers).toEqual([null, expect.objectContaining({ x: "left", y: 100, width: 200 })])
+  })
+
+  it("treats a missing preview size as unscaled", () => {
+    const converted = convertDisplayUnits({
+      imageData: { ...imageData, displayWidth: 0 },
+      textLayers: [legacyLayer()],
+    })
+
+    expect(converted.textLayers).toEqual([expect.objectContaining({ x: 100, y: 50, fontSize: 20 })])
+  })
+})
+
+describe("parseTextLayer", () => {
+  it("accepts a valid layer and rejects anything else", () => {
+    expect(parseTextLayer(legacyLayer({ zIndex: 3 }))).toMatchObject({ id: "text-1", zIndex: 3 })
+    expect(parseTextLayer(legacyLayer())).toBeNull()
+    expect(parseTextLayer("<b>text</b>")).toBeNull()
+  })
+})
@@ -0,0 +1,299 @@
+import { z } from "zod"
+import type { ImageData, TextLayer } from "./editor-store"
+import type { CustomFont } from "./font-manager"
+import { DEFAULT_GRID, type GridSettings, type Guide } from "./guides"
+
+// Versioned project file format. Every file is migrated step by step to
+// CURRENT_PROJECT_VERSION and then validated, so the rest of the app only
+// ever sees documents in the current shape.
+
+export const CURRENT_PROJECT_VERSION = "1.6"
+
+const imageDataSchema = z.object({
+  src: z.string(),
+  width: z.number().positive(),
+  height: z.number().positive(),
+  mimeType: z.string().optional(),
+  assetId: z.string().optional(),
+})
+
+const textSpanSchema = z
+  .object({
+    start: z.number().int().min(0),
+    end: z.number().int().min(0),
+    fontFamily: z.string().min(1).optional(),
+    fontWeight: z.string().optional(),
+    fontStyle: z.string().optional(),
+    fill: z.string().optional(),
+    fontSize: z.number().positive().optional(),
+    underline: z.boolean().optional(),
+    baselineShift: z.number().optional(),
+  })
+  .refine((span) => span.start < span.end, "start must be before end")
+
+const textLayerSchema = z.object({
+  id: z.string().min(1),
+  text: z.string(),
+  x: z.number(),
+  y: z.number(),
+  fontSize: z.number().positive(),
+  fontFamily: z.string().min(1),
+  fontWeight: z.string().optional(),
+  fill: z.string(),
+  opacity: z.number().min(0).max(1),
+  align: z.enum(["left", "center", "right"]),
+  lineHeight: z.number().positive(),
+  letterSpacing: z.number(),
+  shadowColor: z.string(),
+  shadowBlur: z.number().min(0),
+  shadowOffsetX: z.number(),
+  shadowOffsetY: z.number(),
+  width: z.number().optional(),
+  height: z.number().positive().optional(),
+  boxMode: z.enum(["auto", "fixedWidth", "fixedSize"]).optional(),
+  overflow: z.enum(["visible", "clip", "ellipsis", "shrink"]).optional(),
+  hyphenation: z.enum(["none", "manual", "auto"]).optional(),
+  autoFit: z
+    .object({ minFontSize: z.number().positive(), maxFontSize: z.number().positive() })
+    .refine((range) => range.minFontSize <= range.maxFontSize, "minFontSize must not exceed maxFontSize")
+    .optional(),
+  spans: z.array(textSpanSchema).optional(),
+  rotation: z.number().optional(),
+  scaleX: z.number().optional(),
+  scaleY: z.number().optional(),
+  locked: z.boolean().optional(),
+  visible: z.boolean().optional(),
+  fontStyle: z.string().optional(),
+  textDecoration: z.string().optional(),
+  shadowOpacity: z.number().min(0).max(1).optional(),
+  zIndex: z.number(),
+})
+
+const guideSchema = z.object({
+  id: z.string().min(1),
+  orientation: z.enum(["horizontal", "vertical"]),
+  position: z.number(),
+  name: z.string().optional(),
+  locked: z.boolean().optional(),
+})
+
+const gridSchema = z.object({
+  visible: z.boolean(),
+  type: z.enum(["grid", "columns"]),
+  spacing: z.number().positive(),
+  columns: z.number().int().min(1),
+  gutter: z.number().min(0),
+  margin: z.number().min(0),
+})
+
+// Fonts are stored without their session-only object URL
+const customFontSchema = z.object({
+  id: z.string().min(1),
+  name: z.string(),
+  family: z.string().min(1),
+  type: z.enum(["ttf", "otf", "woff", "woff2"]),
+  assetId: z.string().optional(),
+  url: z.string().optional(),
+  loaded: z.boolean().optional(),
+})
+
+const projectSchema = z.object({
+  version: z.literal(CURRENT_PROJECT_VERSION),
+  timestamp: z.string().optional(),
+  imageData: imageDataSchema.nullable(),
+  textLayers: z.array(textLayerSchema),
+  customFonts: z.array(customFontSchema),
+  guides: z.array(guideSchema),
+  grid: gridSchema,
+})
+
+export type PersistedCustomFont = z.infer<typeof customFontSchema>
+
+export interface ProjectDocument {
+  version: string
+  timestamp?: string
+  imageData: ImageData | null
+  textLayers: TextLayer[]
+  customFonts: PersistedCustomFont[]
+  guides: Guide[]
+  grid: GridSettings
+}
+
+export interface ProjectIssue {
+  path: string
+  message: string
+}
+
+export class ProjectValidationError extends Error {
+  readonly issues: ProjectIssue[]
+
+  constructor(message: string, issues: ProjectIssue[] = []) {
+    super(message)
+    this.name = "ProjectValidationError"
+    this.issues = issues
+  }
+}
+
+type UnknownRecord = Record<string, unknown>
+
+// Raw data hasn't been validated yet, so every field is checked before it is read
+const isRecord = (value: unknown): value is UnknownRecord =>
+  typeof value === "object" && value !== null && !Array.isArray(value)
+
+// Leaves anything that isn't a number for validation to report
+const scaleNumber = (value: unknown, factor: number) => (typeof value === "number" ? value * factor : value)
+
+// Before 1.2, layers were positioned in the pixels of a downscaled preview whose
+// size was stored as imageData.displayWidth/displayHeight. Rescale them to original
+// image pixels and drop the preview size, which also marks the document as converted.
+// Autosaves and versions carry no format version, so they are converted through this too.
+export const convertDisplayUnits = <T extends { imageData?: unknown; textLayers?: unknown }>(document: T): T => {
+  const imageData = document.imageData
+  if (!isRecord(imageData) || !("displayWidth" in imageData || "displayHeight" in imageData)) {
+    return document
+  }
+
+  const { displayWidth, displayHeight, ...rest } = imageData
+  const axisScale = (size: unknown, displaySize: unknown) =>
+    typeof size === "number" && typeof displaySize === "number" && displaySize > 0 ? size / displaySize : 1
+  const scaleX = axisScale(imageData.width, displayWidth)
+  const scaleY = axisScale(imageData.height, displayHeight)
+  // Sizes that aren't tied to one axis use the smaller factor, as the old exporter did
+  const scale = Math.min(scaleX, scaleY)
+
+  const scaleLayer = (layer: unknown) => {
+    if (!isRecord(layer)) return layer
+    const scaled: UnknownRecord = {
+      ...layer,
+      x: scaleNumber(layer.x, scaleX),
+      y: scaleNumber(layer.y, scaleY),
+      fontSize: scaleNumber(layer.fontSize, scale),
+      letterSpacing: scaleNumber(layer.letterSpacing ?? 0, scale),
+      shadowBlur: scaleNumber(layer.shadowBlur ?? 0, scale),
+      shadowOffsetX: scaleNumber(layer.shadowOffsetX ?? 0, scaleX),
+      shadowOffsetY: scaleNumber(layer.shadowOffsetY ?? 0, scaleY),
+    }
+    if (typeof layer.width === "number") scaled.width = layer.width * scaleX
+    return scaled
+  }
+
+  return {
+    ...document,
+    imageData: rest,
+    textLayers: Array.isArray(document.textLayers) ? document.textLayers.map(scaleLayer) : document.textLayers,
+  }
+}
+
+interface Migration {
+  from: string
+  to: string
+  migrate: (project: UnknownRecord) => UnknownRecord
+}
+
+// Ordered upgrade steps; append a step whenever the format changes
+const migrations: Migration[] = [
+  {
+    // 1.1 always lists custom fonts and gives every layer a stacking order
+    from: "1.0",
+    to: "1.1",
+    migrate: (project) => ({
+      ...project,
+      customFonts: Array.isArray(project.customFonts) ? project.customFonts : [],
+      textLayers: Array.isArray(project.textLayers)
+        ? project.textLayers.map((layer: unknown, index: number) =>
+            isRecord(layer) ? { ...layer, zIndex: typeof layer.zIndex === "number" ? layer.zIndex : index + 1 } : layer,
+          )
+        : project.textLayers,
+    }),
+  },
+  {
+    // 1.2 stores layer geometry in original image pixels
+    from: "1.1",
+    to: "1.2",
+    migrate: (project) => convertDisplayUnits(project),
+  },
+  {
+    // 1.3 saves ruler guides and the grid overlay
+    from: "1.2",
+    to: "1.3",
+    migrate: (project) => ({
+      ...project,
+      guides: Array.isArray(project.guides) ? project.guides : [],
+      grid: project.grid ?? DEFAULT_GRID,
+    }),
+  },
+  {
+    // 1.4 adds fixed-width and fixed-size text boxes. Existing layers keep sizing to their
+    // text, so the width older canvases stored from measuring it is dropped.
+    from: "1.3",
+    to: "1.4",
+    migrate: (project) => ({
+      ...project,
+      textLayers: Array.isArray(project.textLayers)
+        ? project.textLayers.map((layer: unknown) => {
+            if (!isRecord(layer) || "boxMode" in layer) return layer
+            const { width, height, ...rest } = layer
+            return rest
+          })
+        : project.textLayers,
+    }),
+  },
+  {
+    // 1.5 adds auto-fit font sizing; no existing layer uses it
+    from: "1.4",
+    to: "1.5",
+    migrate: (project) => project,
+  },
+  {
+    // 1.6 adds styled spans within a layer's text; existing layers have none
+    from: "1.5",
+    to: "1.6",
+    migrate: (project) => project,
+  },
+]
+
+export const migrateProject = (raw: UnknownRecord): UnknownRecord => {
+  let project = raw
+  let version = String(project.version)
+
+  while (version !== CURRENT_PROJECT_VERSION) {
+    const step = migrations.find((migration) => migration.from === version)
+    if (!step) {
+      throw new ProjectValidationError(`Unsupported project version "${version}"`)
+    }
+    project = { ...step.migrate(project), version: step.to }
+    version = step.to
+  }
+
+  return project
+}
+
+const formatPath = (path: (string | number)[]): string =>
+  path.reduce<string>((result, key) => (typeof key === "number" ? `${result}[${key}]` : result ? `${result}.${key}` : key), "")
+
+// Migrate and validate raw project data, reporting every invalid field
+export const parseProject = (raw: unknown): ProjectDocument => {
+  if (!isRecord(raw)) {
+    throw new ProjectValidationError("Project data must be a JSON object")
+  }
+  if (!("version" in raw)) {
+    throw new ProjectValidationError("Project file has no version", [{ path: "version", message: "Required" }])
+  }
+
+  const result = projectSchema.safeParse(migrateProject(raw))
+  if (!result.success) {
+    const issues = result.error.issues.map((issue) => ({ path: formatPath(issue.path), message: issue.message }))
+    throw new ProjectValidationError(`Project file has ${issues.length} invalid field(s)`, issues)
+  }
+
+  return result.data
+}
+
+// Validate one text layer from outside the app, such as the clipboard; null when it isn't one
+export const parseTextLayer = (raw: unknown): TextLayer | null => {
+  const result = textLayerSchema.safeParse(raw)
+  return result.success ? result.data : null
+}
+
+export const toPersistedFonts = (fonts: CustomFont[]): PersistedCustomFont[] =>
+  fonts.map(({ url, loaded, ...font }) => font)
@@ -0,0 +1,189 @@
+import type { TextLayer, TextSpan } from "./editor-store"
+
+// Styled spans: ranges of a layer's text with their own typography. Spans are kept
+// non-overlapping and sorted by the helpers here, but any list is read correctly.
+
+export type SpanStyle = Omit<TextSpan, "start" | "end">
+
+// A piece of text whose characters all share one style
+export interface StyledRange {
+  start: number
+  end: number
+  style: SpanStyle
+}
+
+const STYLE_KEYS: (keyof SpanStyle)[] = ["fontFamily", "fontWeight", "fontStyle", "fill", "fontSize", "underline", "baselineShift"]
+
+const styleOf = (span: TextSpan): SpanStyle => {
+  const style: SpanStyle = {}
+  STYLE_KEYS.forEach((key) => {
+    if (span[key] !== undefined) (style as Record<string, unknown>)[key] = span[key]
+  })
+  return style
+}
+
+const sameStyle = (a: SpanStyle, b: SpanStyle) => STYLE_KEYS.every((key) => a[key] === b[key])
+
+const isEmptyStyle = (style: SpanStyle) => STYLE_KEYS.every((key) => style[key] === undefined)
+
+// Split `text` into ranges of uniform style, in order and covering all of it.
+// Where spans overlap, later ones win.
+export const styleRanges = (text: string, spans: TextSpan[] = [], cuts: number[] = []): StyledRange[] => {
+  const length = text.length
+  const clamp = (offset: number) => Math.max(0, Math.min(length, offset))
+  const bounds = Array.from(
+    new Set([0, length, ...cuts.map(clamp), ...spans.flatMap((span) => [clamp(span.start), clamp(span.end)])]),
+  ).sort((a, b) => a - b)
+
+  const ranges: StyledRange[] = []
+  for (let index = 1; index < bounds.length; index++) {
+    const start = bounds[index - 1]
+    const end = bounds[index]
+    const style = spans
+      .filter((span) => span.start <= start && span.end >= end)
+      .reduce<SpanStyle>((merged, span) => ({ ...merged, ...styleOf(span) }), {})
+    ranges.push({ start, end, style })
+  }
+  return ranges
+}
+
+// Turn styled ranges back into the fewest spans, merging neighbours with equal styles
+const toSpans = (ranges: StyledRange[]): TextSpan[] => {
+  const spans: TextSpan[] = []
+  ranges.forEach(({ start, end, style }) => {
+    if (start >= end || isEmptyStyle(style)) return
+    const previous = spans[spans.length - 1]
+    if (previous && previous.end === start && sameStyle(styleOf(previous), style)) {
+      previous.end = end
+    } else {
+      spans.push({ start, end, ...style })
+    }
+  })
+  return spans
+}
+
+// Spans clipped to the text, without overlaps or empty styles
+export const normalizeSpans = (text: string, spans: TextSpan[] = []): TextSpan[] => toSpans(styleRanges(text, spans))
+
+// Restyle `start`..`end` of the text. Keys set to undefined in `patch` go back to the layer's style.
+export const applySpanStyle = (
+  text: string,
+  spans: TextSpan[] = [],
+  start: number,
+  end: number,
+  patch: SpanStyle,
+): TextSpan[] =>
+  toSpans(
+    styleRanges(text, spans, [start, end]).map((range) => {
+      if (range.start < start || range.end > end) return range
+      const style = { ...range.style, ...patch }
+      STYLE_KEYS.forEach((key) => {
+        if (style[key] === undefined) delete style[key]
+      })
+      return { ...range, style }
+    }),
+  )
+
+// Whether two normalized span lists style the text the same way
+export const sameSpans = (a: TextSpan[], b: TextSpan[]) =>
+  a.length === b.length &&
+  a.every((span, index) => span.start === b[index].start && span.end === b[index].end && sameStyle(styleOf(span), styleOf(b[index])))
+
+// The edit to commit when text and spans come back from editing: spans are sent along with
+// changed text so they aren't remapped by guesswork, and on their own when only they changed
+export const richTextUpdates = (
+  layer: Pick<TextLayer, "text" | "spans">,
+  text: string,
+  spans: TextSpan[],
+): Partial<Pick<TextLayer, "text" | "spans">> => {
+  const updates: Partial<Pick<TextLayer, "text" | "spans">> = {}
+  const previous = normalizeSpans(layer.text, layer.spans)
+  if (text !== layer.text) updates.text = text
+  if ((updates.text !== undefined && (spans.length > 0 || previous.length > 0)) || !sameSpans(spans, previous)) {
+    updates.spans = spans.length > 0 ? spans : undefined
+  }
+  return updates
+}
+
+// Style the characters from `start` to `end` have in common, for showing in a toolbar.
+// An empty range reports the style of the character before it, which is what typing there continues.
+export const rangeStyle = (text: string, spans: TextSpan[] = [], start: number, end: number): SpanStyle => {
+  const from = start === end ? Math.max(0, start - 1) : start
+  const to = start === end ? from + 1 : end
+  const ranges = styleRanges(text, spans).filter((range) => range.end > from && range.start < to)
+  if (ranges.length === 0) return {}
+
+  const common: SpanStyle = { ...ranges[0].style }
+  ranges.slice(1).forEach(({ style }) => {
+    STYLE_KEYS.forEach((key) => {
+      if (common[key] !== style[key]) delete common[key]
+    })
+  })
+  return common
+}
+
+export type FormatToggle = "bold" | "italic" | "underline"
+
+type LayerFormat = Pick<TextLayer, "fontWeight" | "fontStyle" | "textDecoration">
+
+const isBoldWeight = (weight: string | undefined) => weight === "bold" || Number(weight) >= 600
+
+// Whether text in `style` within a layer shows a toggle's formatting
+export const isFormatActive = (layer: LayerFormat, style: SpanStyle, toggle: FormatToggle): boolean => {
+  if (toggle === "bold") return isBoldWeight(style.fontWeight ?? layer.fontWeight)
+  if (toggle === "italic") return (style.fontStyle ?? layer.fontStyle) === "italic"
+  return style.underline ?? (layer.textDecoration || "").includes("underline")
+}
+
+// Patch switching a toggle over for text in `style`. Spans only record what differs from
+// the layer, so matching the layer again clears the key.
+export const toggleFormat = (layer: LayerFormat, style: SpanStyle, toggle: FormatToggle): SpanStyle => {
+  const on = !isFormatActive(layer, style, toggle)
+  const matchesLayer = on === isFormatActive(layer, {}, toggle)
+  if (toggle === "bold") return { fontWeight: matchesLayer ? undefined : on ? "bold" : "normal" }
+  if (toggle === "italic") return { fontStyle: matchesLayer ? undefined : on ? "italic" : "normal" }
+  return { underline: matchesLayer ? undefined : on }
+}
+
+// Move spans along with replacing `start`..`end` of the text by `length` new characters.
+// The new text takes the style of what it replaced, or of the span it was typed at the end of.
+const spliceSpans = (spans: TextSpan[], start: number, end: number, length: number): TextSpan[] => {
+  const shift = start + length - end
+  const inserted = start === end
+  const mapStart = (offset: number) => {
+    if (offset < start || (offset === start && !inserted)) return offset
+    return offset >= end ? offset + shift : start
+  }
+  const mapEnd = (offset: number) => {
+    if (offset < start || (offset === start && !inserted)) return offset
+    return offset >= end && offset > start ? offset + shift : start + length
+  }
+  return spans.map((span) => ({ ...span, start: mapStart(span.start), end: mapEnd(span.end) }))
+}
+
+// Replace `start`..`end` of the text, keeping the styles around it
+export const replaceText = (
+  text: string,
+  spans: TextSpan[] = [],
+  start: number,
+  end: number,
+  insert: string,
+): { text: string; spans: TextSpan[] } => {
+  const next = text.slice(0, start) + insert + text.slice(end)
+  return { text: next, spans: normalizeSpans(next, spliceSpans(spans, start, end, insert.length)) }
+}
+
+// Move spans along with an edit that turned `oldText` into `newText`, taken to be one
+// replaced stretch between the unchanged start and end of the text
+export const remapSpans = (oldText: string, newText: string, spans: TextSpan[] = []): TextSpan[] => {
+  if (spans.length === 0 || oldText === newText) return spans
+
+  const shorter = Math.min(oldText.length, newText.length)
+  let prefix = 0
+  while (prefix < shorter && oldText[prefix] === newText[prefix]) prefix++
+  let suffix = 0
+  while (suffix < shorter - prefix && oldText[oldText.length - 1 - suffix] === newText[newText.length - 1 - suffix]) suffix++
+
+  const length = newText.length - suffix - prefix
+  return normalizeSpans(newText, spliceSpans(spans, prefix, oldText.length - suffix, length))
+}
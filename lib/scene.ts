@@ -0,0 +1,179 @@
+import type { ImageData, TextLayer } from "./editor-store"
+import { fillRun, layoutText, type TextLayout } from "./text-layout"
+
+// The document as drawing commands, built once and drawn by every output: the
+// editor canvas, the Konva stage and PNG export. All coordinates are in image pixels.
+
+export interface TextShadow {
+  // Colour with the layer's shadow opacity applied
+  color: string
+  blur: number
+  offsetX: number
+  offsetY: number
+}
+
+export interface TextNode {
+  kind: "text"
+  id: string
+  layout: TextLayout
+  // Centre of the text box; rotation and scale are applied around it
+  x: number
+  y: number
+  rotation: number
+  scaleX: number
+  scaleY: number
+  fill: string
+  opacity: number
+  letterSpacing: number
+  underline: boolean
+  lineThrough: boolean
+  shadow: TextShadow | null
+}
+
+export interface ImageNode {
+  kind: "image"
+  src: string
+  width: number
+  height: number
+}
+
+export type SceneNode = ImageNode | TextNode
+
+export interface Scene {
+  width: number
+  height: number
+  // In paint order, background first
+  nodes: SceneNode[]
+}
+
+// Hex colour with an alpha channel from 0 to 1
+export const colorWithAlpha = (color: string, alpha: number) => {
+  if (alpha >= 1) return color
+  const match = /^#([0-9a-f]{6})$/i.exec(color)
+  if (!match) return color
+  const value = Number.parseInt(match[1], 16)
+  return `rgba(${value >> 16}, ${(value >> 8) & 255}, ${value & 255}, ${alpha})`
+}
+
+export const buildTextNode = (layer: TextLayer): TextNode => {
+  const layout = layoutText(layer)
+  const decoration = layer.textDecoration || ""
+  const hasShadow = Boolean(layer.shadowBlur || layer.shadowOffsetX || layer.shadowOffsetY)
+
+  return {
+    kind: "text",
+    id: layer.id,
+    layout,
+    x: layer.x + layout.width / 2,
+    y: layer.y + layout.height / 2,
+    rotation: layer.rotation || 0,
+    scaleX: layer.scaleX || 1,
+    scaleY: layer.scaleY || 1,
+    fill: layer.fill || "#000000",
+    opacity: layer.opacity ?? 1,
+    letterSpacing: layer.letterSpacing || 0,
+    underline: decoration.includes("underline"),
+    lineThrough: decoration.includes("line-through"),
+    shadow: hasShadow
+      ? {
+          color: colorWithAlpha(layer.shadowColor || "#000000", layer.shadowOpacity ?? 1),
+          blur: layer.shadowBlur || 0,
+          offsetX: layer.shadowOffsetX || 0,
+          offsetY: layer.shadowOffsetY || 0,
+        }
+      : null,
+  }
+}
+
+// Visible layers in stacking order over the background image. Layers in `hiddenIds`
+// are left out, e.g. while their text is being edited in place.
+export const buildScene = (imageData: ImageData, textLayers: TextLayer[], hiddenIds: string[] = []): Scene => {
+  const layers = [...textLayers]
+    .filter((layer) => layer.visible !== false && !hiddenIds.includes(layer.id))
+    .sort((a, b) => (a.zIndex || 0) - (b.zIndex || 0))
+
+  return {
+    width: imageData.width,
+    height: imageData.height,
+    nodes: [{ kind: "image", src: imageData.src, width: imageData.width, height: imageData.height }, ...layers.map(buildTextNode)],
+  }
+}
+
+// Draw a text node's lines and decorations with its box's top-left corner at the origin
+export const drawTextContent = (ctx: CanvasRenderingContext2D, node: TextNode) => {
+  const { layout } = node
+  // Canvas shadows ignore the transform, so scale them from image to device pixels
+  const matrix = ctx.getTransform()
+  const shadowScale = { x: Math.hypot(matrix.a, matrix.b), y: Math.hypot(matrix.c, matrix.d) }
+
+  ctx.save()
+  if (layout.clip) {
+    ctx.beginPath()
+    ctx.rect(0, 0, layout.width, layout.height)
+    ctx.clip()
+  }
+  ctx.globalAlpha *= node.opacity
+
+  if (node.shadow) {
+    ctx.shadowColor = node.shadow.color
+    ctx.shadowBlur = node.shadow.blur * Math.min(shadowScale.x, shadowScale.y)
+    ctx.shadowOffsetX = node.shadow.offsetX * shadowScale.x
+    ctx.shadowOffsetY = node.shadow.offsetY * shadowScale.y
+  }
+
+  layout.lines.forEach((line) => {
+    line.runs.forEach((run) => {
+      const x = line.x + run.x
+      const baseline = line.y + line.baseline - run.baselineShift
+      const color = run.fill ?? node.fill
+      ctx.font = run.font
+      ctx.fillStyle = color
+      ctx.strokeStyle = color
+      fillRun(ctx, run.text, x, baseline, node.letterSpacing)
+
+      // Decorations follow each run's size: a fifth of it below the baseline, and through the middle of its letters
+      const offsets = [
+        ...((run.underline ?? node.underline) ? [run.fontSize / 5] : []),
+        ...(node.lineThrough ? [-0.3 * run.fontSize] : []),
+      ]
+      offsets.forEach((offset) => {
+        ctx.beginPath()
+        ctx.lineWidth = run.fontSize / 15
+        ctx.moveTo(x, baseline + offset)
+        ctx.lineTo(x + run.width, baseline + offset)
+        ctx.stroke()
+      })
+    })
+  })
+
+  ctx.restore()
+}
+
+// Draw a text node in document coordinates onto a context already set up for them
+export const drawTextNode = (ctx: CanvasRenderingContext2D, node: TextNode) => {
+  ctx.save()
+  ctx.translate(node.x, node.y)
+  ctx.rotate((node.rotation * Math.PI) / 180)
+  ctx.scale(node.scaleX, node.scaleY)
+  ctx.translate(-node.layout.width / 2, -node.layout.height / 2)
+  drawTextContent(ctx, node)
+  ctx.restore()
+}
+
+// Draw the whole scene. Text is clipped to the image, as only the image area is exported.
+export const renderScene = (ctx: CanvasRenderingContext2D, scene: Scene, image: CanvasImageSource | null) => {
+  ctx.save()
+  ctx.beginPath()
+  ctx.rect(0, 0, scene.width, scene.height)
+  ctx.clip()
+
+  scene.nodes.forEach((node) => {
+    if (node.kind === "image") {
+      if (image) ctx.drawImage(image, 0, 0, node.width, node.height)
+    } else {
+      drawTextNode(ctx, node)
+    }
+  })
+
+  ctx.restore()
+}
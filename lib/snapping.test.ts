@@ -0,0 +1,42 @@
+import { describe, expect, it } from "vitest"
+import type { Bounds } from "./layer-bounds"
+import { snapBounds, snapPoint } from "./snapping"
+
+const canvas: Bounds = { left: 0, top: 0, right: 1000, bottom: 1000 }
+const box = (left: number, right: number, top = 400, bottom = 450): Bounds => ({ left, right, top, bottom })
+
+describe("snapBounds", () => {
+  it("snaps to the canvas edges and centre within the threshold", () => {
+    expect(snapBounds(box(3, 53), [], canvas, 6)).toMatchObject({ dx: -3, dy: 0 })
+    expect(snapBounds(box(470, 528, 480, 520), [], canvas, 6)).toMatchObject({ dx: 1, dy: 0 })
+    expect(snapBounds(box(10, 60), [], canvas, 6)).toMatchObject({ dx: 0, dy: 0, guides: [] })
+  })
+
+  it("picks the nearest edge or centre of another box", () => {
+    const other = box(200, 300, 0, 50)
+
+    expect(snapBounds(box(202, 262), [other], canvas, 6).dx).toBe(-2)
+    expect(snapBounds(box(210, 270), [other], canvas, 6).dx).toBe(0)
+  })
+
+  it("snaps to guide and grid lines", () => {
+    const result = snapBounds(box(147, 197), [], canvas, 6, { x: [150], y: [] })
+
+    expect(result.dx).toBe(3)
+    expect(result.guides).toEqual([{ points: [150, 0, 150, 1000], kind: "align" }])
+  })
+
+  it("repeats a gap between boxes in the same row", () => {
+    const result = snapBounds(box(397, 447, 0, 50), [box(0, 100, 0, 50), box(200, 300, 0, 50)], canvas, 6)
+
+    expect(result.dx).toBe(3)
+    expect(result.guides.filter((guide) => guide.kind === "spacing")).toHaveLength(2)
+  })
+})
+
+describe("snapPoint", () => {
+  it("snaps each axis to alignment lines, but not to equal spacing", () => {
+    expect(snapPoint({ x: 498, y: 10 }, [], canvas, 6)).toMatchObject({ dx: 2, dy: 0 })
+    expect(snapPoint({ x: 398, y: 700 }, [box(0, 100, 0, 50), box(200, 300, 0, 50)], canvas, 6).dx).toBe(0)
+  })
+})
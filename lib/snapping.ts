@@ -0,0 +1,199 @@
+import type { SnapLines } from "./guides"
+import type { Bounds } from "./layer-bounds"
+
+// A line drawn on the canvas while snapping; "spacing" marks an equal gap
+export interface SnapGuide {
+  points: [number, number, number, number]
+  kind: "align" | "spacing"
+}
+
+export interface SnapResult {
+  dx: number
+  dy: number
+  guides: SnapGuide[]
+}
+
+export const DEFAULT_SNAP_THRESHOLD = 6
+
+type Axis = "x" | "y"
+
+// Read bounds along an axis: main is the snapped direction, cross is the other one
+const span = (bounds: Bounds, axis: Axis) =>
+  axis === "x"
+    ? { start: bounds.left, end: bounds.right, crossStart: bounds.top, crossEnd: bounds.bottom }
+    : { start: bounds.top, end: bounds.bottom, crossStart: bounds.left, crossEnd: bounds.right }
+
+const shift = (bounds: Bounds, axis: Axis, delta: number): Bounds =>
+  axis === "x"
+    ? { ...bounds, left: bounds.left + delta, right: bounds.right + delta }
+    : { ...bounds, top: bounds.top + delta, bottom: bounds.bottom + delta }
+
+// A guide at `main` along the axis, spanning `from`..`to` across it
+const line = (axis: Axis, main: number, from: number, to: number, kind: SnapGuide["kind"]): SnapGuide => ({
+  points: axis === "x" ? [main, from, main, to] : [from, main, to, main],
+  kind,
+})
+
+// A gap marker from `from` to `to` along the axis, at `cross` across it
+const gap = (axis: Axis, from: number, to: number, cross: number): SnapGuide => ({
+  points: axis === "x" ? [from, cross, to, cross] : [cross, from, cross, to],
+  kind: "spacing",
+})
+
+interface Candidate {
+  delta: number
+  guides: (snapped: Bounds) => SnapGuide[]
+}
+
+const alignmentCandidates = (moving: Bounds, others: Bounds[], canvas: Bounds, axis: Axis, lines: number[]): Candidate[] => {
+  const m = span(moving, axis)
+  const points = [m.start, (m.start + m.end) / 2, m.end]
+  const candidates: Candidate[] = []
+  const c = span(canvas, axis)
+
+  // Guides and grid lines already cross the whole canvas; the snap guide highlights the one in use
+  lines.forEach((value) => {
+    points.forEach((point) => {
+      candidates.push({ delta: value - point, guides: () => [line(axis, value, c.crossStart, c.crossEnd, "align")] })
+    })
+  })
+
+  ;[canvas, ...others].forEach((target) => {
+    const t = span(target, axis)
+    ;[t.start, (t.start + t.end) / 2, t.end].forEach((value) => {
+      points.forEach((point) => {
+        candidates.push({
+          delta: value - point,
+          guides: (snapped) => {
+            const s = span(snapped, axis)
+            return [line(axis, value, Math.min(s.crossStart, t.crossStart), Math.max(s.crossEnd, t.crossEnd), "align")]
+          },
+        })
+      })
+    })
+  })
+  return candidates
+}
+
+// Positions that repeat a gap already present between two layers in the same row or column
+const spacingCandidates = (moving: Bounds, others: Bounds[], axis: Axis): Candidate[] => {
+  const m = span(moving, axis)
+  const size = m.end - m.start
+  const inLine = others
+    .filter((other) => {
+      const o = span(other, axis)
+      return o.crossStart < m.crossEnd && o.crossEnd > m.crossStart
+    })
+    .sort((a, b) => span(a, axis).start - span(b, axis).start)
+
+  const midCross = (a: Bounds, b: Bounds) => {
+    const sa = span(a, axis)
+    const sb = span(b, axis)
+    return (Math.max(sa.crossStart, sb.crossStart) + Math.min(sa.crossEnd, sb.crossEnd)) / 2
+  }
+
+  const gaps: { a: Bounds; b: Bounds; size: number }[] = []
+  for (let i = 0; i < inLine.length - 1; i++) {
+    const a = inLine[i]
+    const b = inLine[i + 1]
+    const size = span(b, axis).start - span(a, axis).end
+    if (size > 0) gaps.push({ a, b, size })
+  }
+
+  const candidates: Candidate[] = []
+  const reference = (g: (typeof gaps)[number]) => gap(axis, span(g.a, axis).end, span(g.b, axis).start, midCross(g.a, g.b))
+
+  inLine.forEach((other) => {
+    const o = span(other, axis)
+    gaps.forEach((g) => {
+      // After the other layer
+      candidates.push({
+        delta: o.end + g.size - m.start,
+        guides: (snapped) => [gap(axis, o.end, span(snapped, axis).start, midCross(other, snapped)), reference(g)],
+      })
+      // Before the other layer
+      candidates.push({
+        delta: o.start - g.size - m.end,
+        guides: (snapped) => [gap(axis, span(snapped, axis).end, o.start, midCross(other, snapped)), reference(g)],
+      })
+    })
+  })
+
+  // Centred between two neighbours
+  for (let i = 0; i < inLine.length - 1; i++) {
+    const a = inLine[i]
+    const b = inLine[i + 1]
+    const free = span(b, axis).start - span(a, axis).end - size
+    if (free <= 0) continue
+    candidates.push({
+      delta: span(a, axis).end + free / 2 - m.start,
+      guides: (snapped) => [
+        gap(axis, span(a, axis).end, span(snapped, axis).start, midCross(a, snapped)),
+        gap(axis, span(snapped, axis).end, span(b, axis).start, midCross(b, snapped)),
+      ],
+    })
+  }
+  return candidates
+}
+
+const snapAxis = (
+  moving: Bounds,
+  others: Bounds[],
+  canvas: Bounds,
+  lines: SnapLines,
+  axis: Axis,
+  threshold: number,
+  spacing: boolean,
+) => {
+  const candidates = [
+    ...alignmentCandidates(moving, others, canvas, axis, lines[axis]),
+    ...(spacing ? spacingCandidates(moving, others, axis) : []),
+  ].filter((candidate) => Math.abs(candidate.delta) <= threshold)
+  if (candidates.length === 0) return { delta: 0, matches: [] as Candidate[] }
+
+  const delta = candidates.reduce((best, c) => (Math.abs(c.delta) < Math.abs(best) ? c.delta : best), Infinity)
+  // Every target hit by the same offset gets a guide
+  return { delta, matches: candidates.filter((c) => Math.abs(c.delta - delta) < 0.5) }
+}
+
+const NO_LINES: SnapLines = { x: [], y: [] }
+
+// Snap a moving box to the canvas edges and centre, other boxes' edges and centres,
+// guide and grid lines, and equal-spacing positions. Each axis snaps independently.
+export const snapBounds = (
+  moving: Bounds,
+  others: Bounds[],
+  canvas: Bounds,
+  threshold: number,
+  lines: SnapLines = NO_LINES,
+): SnapResult => {
+  const x = snapAxis(moving, others, canvas, lines, "x", threshold, true)
+  const y = snapAxis(moving, others, canvas, lines, "y", threshold, true)
+  const snapped = shift(shift(moving, "x", x.delta), "y", y.delta)
+
+  return {
+    dx: x.delta,
+    dy: y.delta,
+    guides: [...x.matches, ...y.matches].flatMap((match) => match.guides(snapped)),
+  }
+}
+
+// Snap a single point, e.g. a transformer anchor, to the same alignment lines
+export const snapPoint = (
+  point: { x: number; y: number },
+  others: Bounds[],
+  canvas: Bounds,
+  threshold: number,
+  lines: SnapLines = NO_LINES,
+): SnapResult => {
+  const box = { left: point.x, right: point.x, top: point.y, bottom: point.y }
+  // Equal spacing only makes sense for boxes
+  const x = snapAxis(box, others, canvas, lines, "x", threshold, false)
+  const y = snapAxis(box, others, canvas, lines, "y", threshold, false)
+  const snapped = shift(shift(box, "x", x.delta), "y", y.delta)
+  return {
+    dx: x.delta,
+    dy: y.delta,
+    guides: [...x.matches, ...y.matches].flatMap((match) => match.guides(snapped)),
+  }
+}
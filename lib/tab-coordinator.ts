@@ -0,0 +1,160 @@
+// Coordinates which browser tab may edit a project. The owner is recorded in
+// localStorage so tabs opened later can see it, kept alive with a heartbeat and
+// announced over a BroadcastChannel. Storage events cover browsers without
+// BroadcastChannel and tabs that miss a message.
+
+export interface ProjectOwner {
+  tabId: string
+  // When the owning tab was opened, to tell tabs apart in the UI
+  openedAt: number
+  heartbeatAt: number
+}
+
+export type OwnershipListener = (projectId: string, owner: ProjectOwner | null) => void
+
+type TabMessage = { type: "claimed" | "released"; projectId: string; tabId: string }
+
+const CHANNEL_NAME = "image-text-composer-tabs"
+const OWNER_KEY = "image-text-composer-owner"
+const HEARTBEAT_INTERVAL = 5000
+// An owner that missed this many heartbeats is treated as closed or crashed
+const OWNER_TIMEOUT = HEARTBEAT_INTERVAL * 3
+
+export class TabCoordinator {
+  static readonly tabId = `tab-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`
+  private static readonly openedAt = Date.now()
+
+  private static channel: BroadcastChannel | null = null
+  private static initialized = false
+  private static heartbeats = new Map<string, NodeJS.Timeout>()
+  private static listeners = new Set<OwnershipListener>()
+
+  private static ownerKey(projectId: string): string {
+    return `${OWNER_KEY}:${projectId}`
+  }
+
+  private static init(): void {
+    if (this.initialized || typeof window === "undefined") return
+    this.initialized = true
+
+    if (typeof BroadcastChannel !== "undefined") {
+      this.channel = new BroadcastChannel(CHANNEL_NAME)
+      this.channel.onmessage = (event: MessageEvent<TabMessage>) => {
+        if (event.data.tabId !== this.tabId) {
+          this.notify(event.data.projectId)
+        }
+      }
+    }
+
+    window.addEventListener("storage", (event) => {
+      const prefix = `${OWNER_KEY}:`
+      if (!event.key?.startsWith(prefix)) return
+
+      // Heartbeats rewrite the record too; only report a change of owner
+      const previous = this.parseOwner(event.oldValue)
+      const next = this.parseOwner(event.newValue)
+      if (previous?.tabId !== next?.tabId) {
+        this.notify(event.key.slice(prefix.length))
+      }
+    })
+
+    // Hand projects back when the tab is closed or reloaded
+    window.addEventListener("pagehide", () => {
+      Array.from(this.heartbeats.keys()).forEach((projectId) => this.release(projectId))
+    })
+  }
+
+  private static parseOwner(value: string | null): ProjectOwner | null {
+    if (!value) return null
+    try {
+      return JSON.parse(value) as ProjectOwner
+    } catch {
+      return null
+    }
+  }
+
+  private static notify(projectId: string): void {
+    const owner = this.getOwner(projectId)
+    this.listeners.forEach((listener) => listener(projectId, owner))
+  }
+
+  private static broadcast(type: TabMessage["type"], projectId: string): void {
+    this.channel?.postMessage({ type, projectId, tabId: this.tabId } satisfies TabMessage)
+  }
+
+  private static writeOwner(projectId: string): void {
+    const owner: ProjectOwner = { tabId: this.tabId, openedAt: this.openedAt, heartbeatAt: Date.now() }
+    localStorage.setItem(this.ownerKey(projectId), JSON.stringify(owner))
+  }
+
+  private static startHeartbeat(projectId: string): void {
+    if (this.heartbeats.has(projectId)) return
+
+    const timer = setInterval(() => {
+      // Another tab took the project over, possibly in a race with our claim.
+      // Read the raw record: a throttled background tab may have missed heartbeats.
+      const recorded = this.parseOwner(localStorage.getItem(this.ownerKey(projectId)))
+      if (recorded && recorded.tabId !== this.tabId) {
+        this.stopHeartbeat(projectId)
+        this.notify(projectId)
+        return
+      }
+      this.writeOwner(projectId)
+    }, HEARTBEAT_INTERVAL)
+    this.heartbeats.set(projectId, timer)
+  }
+
+  private static stopHeartbeat(projectId: string): void {
+    const timer = this.heartbeats.get(projectId)
+    if (timer) {
+      clearInterval(timer)
+      this.heartbeats.delete(projectId)
+    }
+  }
+
+  // Get notified when a project's owner changes in any tab
+  static subscribe(listener: OwnershipListener): () => void {
+    this.init()
+    this.listeners.add(listener)
+    return () => {
+      this.listeners.delete(listener)
+    }
+  }
+
+  // The live owner of a project, or null if no tab is editing it
+  static getOwner(projectId: string): ProjectOwner | null {
+    const owner = this.parseOwner(localStorage.getItem(this.ownerKey(projectId)))
+    if (!owner || Date.now() - owner.heartbeatAt > OWNER_TIMEOUT) return null
+    return owner
+  }
+
+  static isOwner(projectId: string): boolean {
+    return this.getOwner(projectId)?.tabId === this.tabId
+  }
+
+  // Become the owner unless another live tab already is. Returns whether this tab owns the project.
+  static claim(projectId: string): boolean {
+    const owner = this.getOwner(projectId)
+    if (owner && owner.tabId !== this.tabId) return false
+
+    this.takeOver(projectId)
+    return true
+  }
+
+  // Become the owner regardless of other tabs; the previous owner drops to read-only
+  static takeOver(projectId: string): void {
+    this.init()
+    this.writeOwner(projectId)
+    this.startHeartbeat(projectId)
+    this.broadcast("claimed", projectId)
+  }
+
+  static release(projectId: string): void {
+    this.stopHeartbeat(projectId)
+    const recorded = this.parseOwner(localStorage.getItem(this.ownerKey(projectId)))
+    if (recorded?.tabId !== this.tabId) return
+
+    localStorage.removeItem(this.ownerKey(projectId))
+    this.broadcast("released", projectId)
+  }
+}
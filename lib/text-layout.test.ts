@@ -0,0 +1,75 @@
+import { describe, expect, it } from "vitest"
+import { layoutText, type TextLayoutStyle } from "./text-layout"
+
+// Without a canvas every character measures 0.6 of the font size: 6px at 10px
+const style = (overrides: Partial<TextLayoutStyle> = {}): TextLayoutStyle => ({
+  text: "aaa bbb ccc",
+  fontSize: 10,
+  fontFamily: "Arial",
+  lineHeight: 1.2,
+  letterSpacing: 0,
+  align: "left",
+  ...overrides,
+})
+
+const lineTexts = (layer: TextLayoutStyle) => layoutText(layer).lines.map((line) => line.text)
+
+describe("layoutText", () => {
+  it("sizes an auto box to its text", () => {
+    const layout = layoutText(style({ text: "ab\nabcd" }))
+
+    expect(layout.lines.map((line) => line.text)).toEqual(["ab", "abcd"])
+    expect(layout.width).toBe(24)
+    expect(layout.height).toBe(24)
+  })
+
+  it("ignores a leftover width while the box sizes to its text", () => {
+    const layout = layoutText(style({ text: "abc", align: "center", width: 500 }))
+
+    expect(layout.width).toBe(18)
+    expect(layout.lines[0].x).toBe(0)
+  })
+
+  it("wraps at word boundaries in a fixed-width box and aligns in its width", () => {
+    const layout = layoutText(style({ boxMode: "fixedWidth", width: 40, align: "right" }))
+
+    expect(layout.lines.map((line) => line.text)).toEqual(["aaa", "bbb", "ccc"])
+    expect(layout.lines.map((line) => line.x)).toEqual([22, 22, 22])
+    expect(layout.width).toBe(40)
+    expect(layout.height).toBeCloseTo(36)
+  })
+
+  it("keeps words together that fit on one line", () => {
+    expect(lineTexts(style({ boxMode: "fixedWidth", width: 42 }))).toEqual(["aaa bbb", "ccc"])
+  })
+
+  it("keeps the height of a fixed-size box whatever the text needs", () => {
+    const layout = layoutText(style({ boxMode: "fixedSize", width: 40, height: 100, overflow: "clip" }))
+
+    expect(layout.height).toBe(100)
+    expect(layout.clip).toBe(true)
+  })
+
+  it("cuts overflowing lines with an ellipsis", () => {
+    const layer = style({ boxMode: "fixedSize", width: 40, height: 24, overflow: "ellipsis" })
+
+    expect(lineTexts(layer)).toEqual(["aaa", "bbb…"])
+    expect(layoutText(layer).height).toBe(24)
+  })
+
+  it("fits the font size to the box with auto-fit", () => {
+    const layer = style({ text: "abcdef", boxMode: "fixedSize", width: 100, height: 24 })
+
+    // A 1.2em line fits in 24px up to 20px; the width alone would allow more
+    expect(layoutText({ ...layer, autoFit: { minFontSize: 4, maxFontSize: 200 } }).fontSize).toBeCloseTo(20, 0)
+    expect(layoutText({ ...layer, autoFit: { minFontSize: 4, maxFontSize: 12 } }).fontSize).toBe(12)
+    expect(layoutText({ ...layer, autoFit: { minFontSize: 30, maxFontSize: 40 } }).fontSize).toBe(30)
+  })
+
+  it("only ever shrinks text with the shrink overflow", () => {
+    const layer = style({ text: "abcdef", boxMode: "fixedSize", width: 100, height: 24, overflow: "shrink" })
+
+    expect(layoutText(layer).fontSize).toBe(10)
+    expect(layoutText({ ...layer, fontSize: 40 }).fontSize).toBeCloseTo(20, 0)
+  })
+})
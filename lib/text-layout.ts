@@ -0,0 +1,476 @@
+import type { Hyphenation, TextLayer } from "./editor-store"
+import { styleRanges } from "./rich-text"
+import { estimateTextWidth } from "./text-style"
+
+// Line layout shared by the editor canvases, hit-testing and export. Everything is
+// in image pixels relative to the layer's top-left corner, before rotation and scale.
+
+// The typography that affects layout
+export type TextLayoutStyle = Pick<
+  TextLayer,
+  | "text"
+  | "fontSize"
+  | "fontFamily"
+  | "fontWeight"
+  | "fontStyle"
+  | "letterSpacing"
+  | "lineHeight"
+  | "align"
+  | "width"
+  | "height"
+  | "boxMode"
+  | "overflow"
+  | "hyphenation"
+  | "autoFit"
+  | "spans"
+>
+
+// A piece of a line drawn in one style
+export interface TextRun {
+  text: string
+  // Left edge relative to the line's, and advance width including letter spacing
+  x: number
+  width: number
+  font: string
+  fontSize: number
+  // Unset where the run follows the layer's colour or decoration
+  fill?: string
+  underline?: boolean
+  // Pixels the run is raised above the line's baseline
+  baselineShift: number
+}
+
+export interface LineBox {
+  text: string
+  // Left edge of the line after alignment, and top of its line box
+  x: number
+  y: number
+  // Advance width including letter spacing
+  width: number
+  // Line boxes grow with the largest text on them
+  height: number
+  // Distance from the top of the line box to the shared baseline
+  baseline: number
+  runs: TextRun[]
+}
+
+export interface TextLayout {
+  lines: LineBox[]
+  // Box the lines are aligned in: the layer's width when set, otherwise the widest line.
+  // Fixed-size boxes keep their height whatever the text needs.
+  width: number
+  height: number
+  // Size the text is drawn at, which differs from the layer's when fitted to its box
+  fontSize: number
+  // Text outside the box is hidden
+  clip: boolean
+}
+
+let measureContext: CanvasRenderingContext2D | null = null
+
+const getMeasureContext = (): CanvasRenderingContext2D | null => {
+  if (!measureContext && typeof document !== "undefined") {
+    measureContext = document.createElement("canvas").getContext("2d")
+  }
+  return measureContext
+}
+
+export const layerFont = (layer: Pick<TextLayer, "fontSize" | "fontFamily" | "fontWeight" | "fontStyle">): string =>
+  `${layer.fontStyle === "italic" ? "italic " : ""}${layer.fontWeight || "normal"} ${layer.fontSize || 16}px ${layer.fontFamily || "Arial"}`
+
+// Canvas letter spacing adds space after every character, the last one included
+const characterCount = (text: string) => Array.from(text).length
+
+// Advance width of a run of text in `font`, using the fonts loaded in the document.
+// Without a canvas (server rendering) it falls back to an average glyph width.
+export const measureTextWidth = (text: string, font: string, fontSize: number, letterSpacing = 0): number => {
+  const spacing = letterSpacing * characterCount(text)
+  const ctx = getMeasureContext()
+  if (!ctx) return estimateTextWidth(text, fontSize) + spacing
+
+  ctx.font = font
+  return ctx.measureText(text).width + spacing
+}
+
+const SOFT_HYPHEN = "\u00ad"
+const ELLIPSIS = "…"
+// Automatic hyphenation leaves at least this many characters on each side of the break
+const MIN_HYPHENATED_PART = 2
+// Shrink-to-fit never goes below this font size
+const MIN_FIT_FONT_SIZE = 4
+const FIT_ITERATIONS = 14
+// Ascent and descent as fractions of the font size. Each line's baseline is placed so
+// the largest text on it is centred in the line box.
+const EM_ASCENT = 0.8
+const EM_DESCENT = 0.2
+
+// Soft hyphens only show where a line breaks at them
+const stripSoftHyphens = (text: string) => text.split(SOFT_HYPHEN).join("")
+
+// Offsets of the code points after and before `index`, so surrogate pairs stay whole
+const nextIndex = (text: string, index: number) => index + ((text.codePointAt(index) ?? 0) > 0xffff ? 2 : 1)
+const previousIndex = (text: string, index: number) =>
+  index >= 2 && /[\udc00-\udfff]/.test(text[index - 1]) && /[\ud800-\udbff]/.test(text[index - 2]) ? index - 2 : index - 1
+
+const trimEndIndex = (text: string, start: number, end: number) => {
+  while (end > start && /\s/.test(text[end - 1])) end--
+  return end
+}
+
+// A stretch of the text in one style, resolved at the size the layout is drawn
+interface StyledPiece {
+  start: number
+  end: number
+  font: string
+  fontSize: number
+  fill?: string
+  underline?: boolean
+  baselineShift: number
+}
+
+// Part of the text shown as one line: source offsets, plus the hyphen or ellipsis drawn after it
+interface LineRange {
+  start: number
+  end: number
+  suffix: string
+}
+
+// Measures and styles ranges of one layer's text at one font size
+interface Styler {
+  text: string
+  runs: (range: LineRange) => TextRun[]
+  measure: (range: LineRange) => number
+  styleAt: (index: number) => StyledPiece
+}
+
+const createStyler = (layer: TextLayoutStyle, fontSize: number): Styler => {
+  const { text } = layer
+  const letterSpacing = layer.letterSpacing || 0
+  // Span sizes and shifts scale with the layer's when the text is fitted to its box
+  const scale = fontSize / (layer.fontSize || 16)
+  const base: StyledPiece = { start: 0, end: text.length, font: layerFont({ ...layer, fontSize }), fontSize, baselineShift: 0 }
+
+  const pieces = styleRanges(text, layer.spans).map(({ start, end, style }): StyledPiece => {
+    const size = style.fontSize !== undefined ? style.fontSize * scale : fontSize
+    return {
+      start,
+      end,
+      font: layerFont({
+        fontSize: size,
+        fontFamily: style.fontFamily ?? layer.fontFamily,
+        fontWeight: style.fontWeight ?? layer.fontWeight,
+        fontStyle: style.fontStyle ?? layer.fontStyle,
+      }),
+      fontSize: size,
+      fill: style.fill,
+      underline: style.underline,
+      baselineShift: (style.baselineShift ?? 0) * scale,
+    }
+  })
+
+  const styleAt = (index: number) => pieces.find((piece) => piece.start <= index && index < piece.end) ?? base
+
+  const runs = ({ start, end, suffix }: LineRange) => {
+    const result: TextRun[] = []
+    let x = 0
+    const addRun = (runText: string, piece: StyledPiece) => {
+      if (!runText) return
+      const width = measureTextWidth(runText, piece.font, piece.fontSize, letterSpacing)
+      const { font, fontSize: size, fill, underline, baselineShift } = piece
+      result.push({ text: runText, x, width, font, fontSize: size, fill, underline, baselineShift })
+      x += width
+    }
+
+    pieces.forEach((piece) => {
+      const from = Math.max(start, piece.start)
+      const to = Math.min(end, piece.end)
+      if (from < to) addRun(stripSoftHyphens(text.slice(from, to)), piece)
+    })
+    // The hyphen or ellipsis continues the style of the text it follows
+    addRun(suffix, styleAt(Math.max(start, end - 1)))
+    return result
+  }
+
+  const measure = (range: LineRange) => runs(range).reduce((width, run) => width + run.width, 0)
+
+  return { text, runs, measure, styleAt }
+}
+
+interface WordBreak {
+  // End of the text left on the line, what is drawn after it, and where the next line starts
+  end: number
+  suffix: string
+  next: number
+}
+
+// Ways to break the word at `from`..`to` inside it
+const wordBreaks = (text: string, from: number, to: number, hyphenation: Hyphenation): WordBreak[] => {
+  if (hyphenation === "none") return []
+
+  const breaks: WordBreak[] = []
+  for (let index = nextIndex(text, from); index < to; index = nextIndex(text, index)) {
+    if (text[index - 1] === "-") {
+      breaks.push({ end: index, suffix: "", next: index })
+    } else if (text[index] === SOFT_HYPHEN) {
+      breaks.push({ end: index, suffix: "-", next: index + 1 })
+    } else if (
+      hyphenation === "auto" &&
+      text[index] !== "-" &&
+      stripSoftHyphens(text.slice(from, index)).length >= MIN_HYPHENATED_PART &&
+      stripSoftHyphens(text.slice(index, to)).length >= MIN_HYPHENATED_PART
+    ) {
+      breaks.push({ end: index, suffix: "-", next: index })
+    }
+  }
+  return breaks
+}
+
+// Greedy word wrap of the paragraph at `from`..`to`. Words break at spaces, then where
+// `hyphenation` allows, and a word wider than a whole line is split between characters.
+const wrapParagraph = (styler: Styler, from: number, to: number, maxWidth: number, hyphenation: Hyphenation): LineRange[] => {
+  const { text } = styler
+  const wrapped: LineRange[] = []
+  // The line being filled is text[start..end]
+  let start = from
+  let end = from
+  const fits = (lineEnd: number, suffix = "") => styler.measure({ start, end: lineEnd, suffix }) <= maxWidth
+  const breakLine = (suffix = "") => wrapped.push({ start, end: trimEndIndex(text, start, end), suffix })
+
+  for (const match of text.slice(from, to).matchAll(/\s+|\S+/g)) {
+    const tokenStart = from + (match.index ?? 0)
+    const tokenEnd = tokenStart + match[0].length
+
+    // Spaces are kept inside a line but dropped where it wraps
+    if (!match[0].trim()) {
+      if (end > start || wrapped.length === 0) end = tokenEnd
+      else start = end = tokenEnd
+      continue
+    }
+
+    let wordStart = tokenStart
+    while (wordStart < tokenEnd) {
+      if (fits(tokenEnd)) {
+        end = tokenEnd
+        break
+      }
+
+      // Fill the line with as much of the word as a break allows
+      const fitting = wordBreaks(text, wordStart, tokenEnd, hyphenation).filter((candidate) => fits(candidate.end, candidate.suffix))
+      if (fitting.length > 0) {
+        const last = fitting[fitting.length - 1]
+        end = last.end
+        breakLine(last.suffix)
+        start = end = wordStart = last.next
+        continue
+      }
+
+      if (text.slice(start, end).trim()) {
+        breakLine()
+        start = end = wordStart
+        continue
+      }
+
+      // Alone on a line and still too wide: split it wherever it stops fitting
+      let fit = nextIndex(text, wordStart)
+      while (fit < tokenEnd && fits(nextIndex(text, fit))) fit = nextIndex(text, fit)
+      end = fit
+      if (fit >= tokenEnd) break
+      breakLine()
+      start = end = wordStart = fit
+    }
+  }
+  breakLine()
+  return wrapped
+}
+
+// Break the text into lines at newlines, and at the wrap width when there is one
+const breakLines = (styler: Styler, wrapWidth: number | undefined, hyphenation: Hyphenation): LineRange[] => {
+  const { text } = styler
+  const ranges: LineRange[] = []
+  let from = 0
+  while (from <= text.length) {
+    const newline = text.indexOf("\n", from)
+    const to = newline === -1 ? text.length : newline
+    if (wrapWidth !== undefined) ranges.push(...wrapParagraph(styler, from, to, wrapWidth, hyphenation))
+    else ranges.push({ start: from, end: to, suffix: "" })
+    from = to + 1
+  }
+  return ranges
+}
+
+interface MeasuredLine {
+  runs: TextRun[]
+  width: number
+  height: number
+  baseline: number
+}
+
+const measureLine = (styler: Styler, range: LineRange, lineHeight: number): MeasuredLine => {
+  const runs = styler.runs(range)
+  // An empty line is as tall as the text it was typed in
+  const sizes = runs.length > 0 ? runs.map((run) => run.fontSize) : [styler.styleAt(range.start).fontSize]
+  const largest = Math.max(...sizes)
+  const height = largest * lineHeight
+  const ascent = largest * EM_ASCENT
+  const descent = largest * EM_DESCENT
+  return {
+    runs,
+    width: runs.reduce((width, run) => width + run.width, 0),
+    height,
+    baseline: (height - ascent - descent) / 2 + ascent,
+  }
+}
+
+// Lines of the text at a given font size
+const measureLines = (layer: TextLayoutStyle, fontSize: number, wrapWidth: number | undefined) => {
+  const styler = createStyler(layer, fontSize)
+  const ranges = breakLines(styler, wrapWidth, layer.hyphenation ?? "manual")
+  const lineHeight = layer.lineHeight || 1.2
+  return { styler, ranges, lineHeight, lines: ranges.map((range) => measureLine(styler, range, lineHeight)) }
+}
+
+// Largest font size from `min` to `max` at which the text, wrapped to the box's width, fits the box.
+// Found by binary search to a tenth of a pixel; `min` is used when even that doesn't fit.
+export const fitFontSize = (layer: TextLayoutStyle, box: { width: number; height: number }, min: number, max: number) => {
+  const fits = (fontSize: number) => {
+    const { lines } = measureLines(layer, fontSize, box.width)
+    const height = lines.reduce((total, line) => total + line.height, 0)
+    return height <= box.height && lines.every((line) => line.width <= box.width)
+  }
+  if (fits(max)) return max
+
+  let low = min
+  let high = max
+  for (let i = 0; i < FIT_ITERATIONS; i++) {
+    const middle = (low + high) / 2
+    if (fits(middle)) low = middle
+    else high = middle
+  }
+  return Math.max(min, Math.floor(low * 10) / 10)
+}
+
+// Shorten a line until it fits `width` with an ellipsis after it
+const ellipsize = (styler: Styler, range: LineRange, width: number): LineRange => {
+  const { text } = styler
+  let end = trimEndIndex(text, range.start, range.end)
+  while (end > range.start && styler.measure({ start: range.start, end, suffix: ELLIPSIS }) > width) {
+    end = previousIndex(text, end)
+  }
+  return { start: range.start, end: trimEndIndex(text, range.start, end), suffix: ELLIPSIS }
+}
+
+// Layouts are requested for every hit test and redraw, so recent ones are kept
+const LAYOUT_CACHE_SIZE = 500
+const layoutCache = new Map<string, TextLayout>()
+
+const LAYOUT_KEYS: (keyof TextLayoutStyle)[] = [
+  "text",
+  "fontSize",
+  "fontFamily",
+  "fontWeight",
+  "fontStyle",
+  "letterSpacing",
+  "lineHeight",
+  "align",
+  "width",
+  "height",
+  "boxMode",
+  "overflow",
+  "hyphenation",
+  "autoFit",
+  "spans",
+]
+
+// Measurements change when a font finishes loading
+export const clearTextLayoutCache = () => layoutCache.clear()
+
+// Lay out a layer's text into aligned line boxes of styled runs. Lines break at newlines,
+// and fixed-width and fixed-size boxes also wrap them to the box width.
+export const layoutText = (layer: TextLayoutStyle): TextLayout => {
+  const key = JSON.stringify(LAYOUT_KEYS.map((name) => layer[name]))
+  const cached = layoutCache.get(key)
+  if (cached) return cached
+
+  const layout = computeLayout(layer)
+  if (layoutCache.size >= LAYOUT_CACHE_SIZE) {
+    layoutCache.delete(layoutCache.keys().next().value as string)
+  }
+  layoutCache.set(key, layout)
+  return layout
+}
+
+const computeLayout = (layer: TextLayoutStyle): TextLayout => {
+  const mode = layer.boxMode ?? "auto"
+  const wrapWidth = mode !== "auto" && layer.width && layer.width > 0 ? layer.width : undefined
+  const boxHeight = mode === "fixedSize" && wrapWidth !== undefined && layer.height && layer.height > 0 ? layer.height : undefined
+  const overflow = boxHeight !== undefined ? layer.overflow ?? "visible" : "visible"
+
+  let fontSize = layer.fontSize || 16
+  if (wrapWidth !== undefined && boxHeight !== undefined) {
+    const box = { width: wrapWidth, height: boxHeight }
+    // Auto-fit sizes the text to the box in either direction; shrinking only ever makes it smaller
+    if (layer.autoFit) {
+      fontSize = fitFontSize(layer, box, layer.autoFit.minFontSize, layer.autoFit.maxFontSize)
+    } else if (overflow === "shrink") {
+      fontSize = fitFontSize(layer, box, Math.min(MIN_FIT_FONT_SIZE, fontSize), fontSize)
+    }
+  }
+
+  const { styler, ranges, lineHeight, lines: measured } = measureLines(layer, fontSize, wrapWidth)
+  let lines = measured
+
+  // Drop the lines below the box, marking the cut on the last one that fits
+  if (overflow === "ellipsis" && boxHeight !== undefined) {
+    let count = 0
+    let filled = 0
+    while (count < lines.length && filled + lines[count].height <= boxHeight + 1e-6) filled += lines[count++].height
+    count = Math.max(1, count)
+    if (lines.length > count) {
+      const last = ellipsize(styler, ranges[count - 1], wrapWidth ?? Infinity)
+      lines = [...lines.slice(0, count - 1), measureLine(styler, last, lineHeight)]
+    }
+  }
+
+  const contentWidth = lines.reduce((max, line) => Math.max(max, line.width), 0)
+  const width = wrapWidth ?? contentWidth
+
+  let y = 0
+  const lineBoxes = lines.map((line): LineBox => {
+    const free = width - line.width
+    const x = layer.align === "center" ? free / 2 : layer.align === "right" ? free : 0
+    const box = { text: line.runs.map((run) => run.text).join(""), x, y, ...line }
+    y += line.height
+    return box
+  })
+
+  return {
+    lines: lineBoxes,
+    width,
+    height: boxHeight ?? y,
+    fontSize,
+    clip: overflow === "clip",
+  }
+}
+
+const supportsLetterSpacing = (ctx: CanvasRenderingContext2D) => typeof ctx.letterSpacing === "string"
+
+// Draw text with its left end on the baseline at `x`, `y`, letter spacing included.
+// Expects the context's font and fill to be set already.
+export const fillRun = (ctx: CanvasRenderingContext2D, text: string, x: number, y: number, letterSpacing = 0) => {
+  ctx.textAlign = "left"
+  ctx.textBaseline = "alphabetic"
+
+  if (!letterSpacing) {
+    ctx.fillText(text, x, y)
+  } else if (supportsLetterSpacing(ctx)) {
+    ctx.letterSpacing = `${letterSpacing}px`
+    ctx.fillText(text, x, y)
+    ctx.letterSpacing = "0px"
+  } else {
+    // Older browsers: place each character by its measured advance
+    Array.from(text).forEach((character) => {
+      ctx.fillText(character, x, y)
+      x += ctx.measureText(character).width + letterSpacing
+    })
+  }
+}
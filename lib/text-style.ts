@@ -0,0 +1,59 @@
+import type { AutoFit, TextLayer } from "./editor-store"
+
+// Visual properties of a text layer, independent of its content and placement
+export type TextStyle = Omit<
+  TextLayer,
+  "id" | "text" | "spans" | "x" | "y" | "width" | "height" | "boxMode" | "zIndex" | "locked" | "visible"
+>
+
+export const DEFAULT_TEXT_STYLE: TextStyle = {
+  fontSize: 24,
+  fontFamily: "Arial",
+  fontWeight: "normal",
+  fill: "#000000",
+  fontStyle: "normal",
+  textDecoration: "",
+  align: "left",
+  opacity: 1,
+  rotation: 0,
+  scaleX: 1,
+  scaleY: 1,
+  lineHeight: 1.2,
+  letterSpacing: 0,
+  shadowColor: "#000000",
+  shadowBlur: 0,
+  shadowOffsetX: 0,
+  shadowOffsetY: 0,
+  shadowOpacity: 0,
+}
+
+// Font size range a layer gets when auto-fit is turned on
+export const DEFAULT_AUTO_FIT: AutoFit = { minFontSize: 8, maxFontSize: 200 }
+
+// Extract the style of an existing layer so it can be reused for new text
+export const pickTextStyle = (layer: TextLayer): TextStyle => {
+  const style = { ...DEFAULT_TEXT_STYLE }
+  ;(Object.keys(DEFAULT_TEXT_STYLE) as (keyof TextStyle)[]).forEach((key) => {
+    if (layer[key] !== undefined) {
+      ;(style as Record<string, unknown>)[key] = layer[key]
+    }
+  })
+  return style
+}
+
+// Rough width estimate, for when there is no canvas to measure text with
+export const estimateTextWidth = (text: string, fontSize: number): number => {
+  const longestLine = text.split("\n").reduce((max, line) => Math.max(max, line.length), 0)
+  return longestLine * fontSize * 0.6
+}
+
+export const createTextLayer = (text: string, x: number, y: number, style: TextStyle = DEFAULT_TEXT_STYLE): TextLayer => ({
+  ...style,
+  id: `text-${Date.now()}`,
+  text,
+  x,
+  y,
+  locked: false,
+  visible: true,
+  zIndex: 0, // Will be set by the store
+})
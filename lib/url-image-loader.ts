@@ -0,0 +1,195 @@
+import {
+  decodeImageFile,
+  ImageDecodeError,
+  MAX_IMAGE_FILE_SIZE,
+  type DecodedImage,
+  type DecodeOptions,
+} from "./image-decoder"
+
+// Loads background images from remote URLs (any http(s) origin, including a
+// local static server during development). Bytes are always copied into a Blob
+// so the editor never draws a cross-origin resource directly; a canvas that
+// did would be tainted and could no longer be exported.
+
+export type UrlImportErrorCode = "invalid-url" | "cors" | "network" | "http" | "not-an-image" | "too-large" | "aborted"
+
+export class UrlImportError extends Error {
+  readonly code: UrlImportErrorCode
+
+  constructor(code: UrlImportErrorCode, message: string) {
+    super(message)
+    this.name = "UrlImportError"
+    this.code = code
+  }
+}
+
+export interface DownloadProgress {
+  loaded: number
+  // Null when the server does not send a Content-Length
+  total: number | null
+}
+
+export interface UrlImportOptions extends DecodeOptions {
+  signal?: AbortSignal
+  onProgress?: (progress: DownloadProgress) => void
+}
+
+const CORS_EXPLANATION =
+  "The server did not allow cross-origin access (no Access-Control-Allow-Origin header). " +
+  "Drawing this image without that permission would taint the canvas, and a tainted canvas cannot be exported. " +
+  "Download the image and upload the file instead, or ask the host to enable CORS."
+
+const parseUrl = (value: string): URL => {
+  try {
+    const url = new URL(value.trim())
+    if (url.protocol !== "http:" && url.protocol !== "https:") {
+      throw new Error("Unsupported protocol")
+    }
+    return url
+  } catch {
+    throw new UrlImportError("invalid-url", "Please enter a valid http:// or https:// image URL.")
+  }
+}
+
+const isAbort = (error: unknown): boolean => error instanceof DOMException && error.name === "AbortError"
+
+const tooLargeError = () =>
+  new UrlImportError("too-large", "The image is larger than 10MB. Please use a smaller image.")
+
+// Stream the response body so callers can show download progress. Downloads stop as soon
+// as they pass the upload size limit instead of fetching the whole file first.
+const readWithProgress = async (response: Response, onProgress?: (progress: DownloadProgress) => void): Promise<Blob> => {
+  const type = response.headers.get("content-type")?.split(";")[0].trim() || ""
+  const lengthHeader = Number(response.headers.get("content-length"))
+  const total = lengthHeader > 0 ? lengthHeader : null
+
+  if (total !== null && total > MAX_IMAGE_FILE_SIZE) {
+    await response.body?.cancel()
+    throw tooLargeError()
+  }
+
+  if (!response.body) {
+    const blob = await response.blob()
+    if (blob.size > MAX_IMAGE_FILE_SIZE) throw tooLargeError()
+    onProgress?.({ loaded: blob.size, total: blob.size })
+    return blob
+  }
+
+  const reader = response.body.getReader()
+  const chunks: BlobPart[] = []
+  let loaded = 0
+  onProgress?.({ loaded, total })
+
+  while (true) {
+    const { done, value } = await reader.read()
+    if (done) break
+    chunks.push(value)
+    loaded += value.length
+    if (loaded > MAX_IMAGE_FILE_SIZE) {
+      await reader.cancel()
+      throw tooLargeError()
+    }
+    onProgress?.({ loaded, total })
+  }
+
+  return new Blob(chunks, { type })
+}
+
+// Fallback for hosts that allow CORS image loads but block fetch (e.g. a strict connect-src policy)
+const loadViaImageElement = (url: string, signal?: AbortSignal): Promise<Blob> => {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new DOMException("Download cancelled", "AbortError"))
+      return
+    }
+
+    const img = new Image()
+    // Clearing the source stops the browser downloading the image
+    const handleAbort = () => {
+      img.onload = null
+      img.onerror = null
+      img.src = ""
+      reject(new DOMException("Download cancelled", "AbortError"))
+    }
+    signal?.addEventListener("abort", handleAbort, { once: true })
+
+    img.crossOrigin = "anonymous"
+    img.onload = () => {
+      signal?.removeEventListener("abort", handleAbort)
+      const canvas = document.createElement("canvas")
+      canvas.width = img.naturalWidth
+      canvas.height = img.naturalHeight
+      const ctx = canvas.getContext("2d")
+      if (!ctx) {
+        reject(new Error("Failed to get 2D canvas context"))
+        return
+      }
+      ctx.drawImage(img, 0, 0)
+      try {
+        canvas.toBlob((blob) => (blob ? resolve(blob) : reject(new Error("Failed to encode image"))), "image/png")
+      } catch (error) {
+        // SecurityError: the canvas was tainted after all
+        reject(error)
+      }
+    }
+    img.onerror = () => {
+      signal?.removeEventListener("abort", handleAbort)
+      reject(new Error("Image element failed to load"))
+    }
+    img.src = url
+  })
+}
+
+// An opaque no-cors response means the host is reachable but withholds CORS headers
+const isReachableWithoutCors = async (url: string, signal?: AbortSignal): Promise<boolean> => {
+  try {
+    await fetch(url, { mode: "no-cors", signal })
+    return true
+  } catch {
+    return false
+  }
+}
+
+const fileNameFromUrl = (url: URL): string => url.pathname.split("/").pop() || "image"
+
+// Download a remote image into a Blob and decode it like an uploaded file
+export const importImageFromUrl = async (value: string, options: UrlImportOptions = {}): Promise<DecodedImage> => {
+  const { signal, onProgress, ...decodeOptions } = options
+  const url = parseUrl(value)
+  let blob: Blob
+
+  try {
+    const response = await fetch(url.href, { mode: "cors", credentials: "omit", signal })
+    if (!response.ok) {
+      throw new UrlImportError("http", `The server responded with ${response.status} ${response.statusText}.`.trim())
+    }
+    blob = await readWithProgress(response, onProgress)
+  } catch (error) {
+    if (error instanceof UrlImportError) throw error
+    if (isAbort(error)) throw new UrlImportError("aborted", "Download cancelled.")
+
+    console.warn("Fetch failed, retrying with a CORS image request:", error)
+    try {
+      blob = await loadViaImageElement(url.href, signal)
+      onProgress?.({ loaded: blob.size, total: blob.size })
+    } catch {
+      if (signal?.aborted) throw new UrlImportError("aborted", "Download cancelled.")
+      if (await isReachableWithoutCors(url.href, signal)) {
+        throw new UrlImportError("cors", CORS_EXPLANATION)
+      }
+      throw new UrlImportError("network", `Could not reach ${url.host}. Check the URL and your connection.`)
+    }
+  }
+
+  // Generic types such as application/octet-stream defer to the file extension
+  const type = blob.type.startsWith("image/") ? blob.type : ""
+  const file = new File([blob], fileNameFromUrl(url), { type })
+  try {
+    return await decodeImageFile(file, decodeOptions)
+  } catch (error) {
+    if (error instanceof ImageDecodeError && error.code === "unsupported-format") {
+      throw new UrlImportError("not-an-image", "The URL did not return a supported image.")
+    }
+    throw error
+  }
+}
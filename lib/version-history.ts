@@ -0,0 +1,171 @@
+import type { EditorDocument, ImageData, TextLayer } from "./editor-store"
+import type { GridSettings, Guide } from "./guides"
+import { AssetStore } from "./asset-store"
+import { STORES, openDatabase, requestToPromise, withStore } from "./indexed-db"
+import { toPersistedFonts, type PersistedCustomFont } from "./project-schema"
+
+// Durable, per-project version history stored in IndexedDB. Versions are
+// taken automatically while editing and manually on request.
+
+export type VersionKind = "auto" | "manual"
+
+export interface ProjectVersion {
+  id: string
+  projectId: string
+  createdAt: number
+  label: string | null
+  kind: VersionKind
+  document: {
+    imageData: ImageData | null
+    textLayers: TextLayer[]
+    customFonts: PersistedCustomFont[]
+    // Missing from versions taken before guides existed
+    guides?: Guide[]
+    grid?: GridSettings
+  }
+  thumbnail: Blob | null
+}
+
+export type LayerChangeStatus = "added" | "removed" | "changed" | "unchanged"
+
+export interface LayerDiff {
+  id: string
+  text: string
+  status: LayerChangeStatus
+  // Properties that differ, for changed layers
+  changes: (keyof TextLayer)[]
+}
+
+export interface DocumentDiff {
+  backgroundChanged: boolean
+  layers: LayerDiff[]
+}
+
+// Minimum time between automatic versions of a project
+const AUTO_VERSION_INTERVAL = 5 * 60 * 1000
+// Older automatic versions are pruned; manual versions are kept until deleted
+const MAX_AUTO_VERSIONS = 30
+
+const createVersionId = () => `version-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`
+
+const backgroundKey = (imageData: ImageData | null) => (imageData ? imageData.assetId || imageData.src : null)
+
+const sameContent = (a: ProjectVersion["document"], b: ProjectVersion["document"]) =>
+  backgroundKey(a.imageData) === backgroundKey(b.imageData) &&
+  JSON.stringify(a.textLayers) === JSON.stringify(b.textLayers) &&
+  JSON.stringify(a.guides ?? []) === JSON.stringify(b.guides ?? []) &&
+  JSON.stringify(a.grid ?? null) === JSON.stringify(b.grid ?? null)
+
+// Compare two documents layer by layer. Layers are matched by id; the result
+// lists layers of `to` in order followed by layers only present in `from`.
+export const diffDocuments = (
+  from: Pick<ProjectVersion["document"], "imageData" | "textLayers">,
+  to: Pick<ProjectVersion["document"], "imageData" | "textLayers">,
+): DocumentDiff => {
+  const fromLayers = new Map(from.textLayers.map((layer) => [layer.id, layer]))
+  const toIds = new Set(to.textLayers.map((layer) => layer.id))
+
+  const layers: LayerDiff[] = to.textLayers.map((layer) => {
+    const previous = fromLayers.get(layer.id)
+    if (!previous) {
+      return { id: layer.id, text: layer.text, status: "added", changes: [] }
+    }
+
+    const keys = new Set([...Object.keys(previous), ...Object.keys(layer)]) as Set<keyof TextLayer>
+    const changes = Array.from(keys).filter((key) => JSON.stringify(previous[key]) !== JSON.stringify(layer[key]))
+    return { id: layer.id, text: layer.text, status: changes.length ? "changed" : "unchanged", changes }
+  })
+
+  from.textLayers
+    .filter((layer) => !toIds.has(layer.id))
+    .forEach((layer) => layers.push({ id: layer.id, text: layer.text, status: "removed", changes: [] }))
+
+  return { backgroundChanged: backgroundKey(from.imageData) !== backgroundKey(to.imageData), layers }
+}
+
+export class VersionHistory {
+  // A project's versions, newest first
+  static async list(projectId: string): Promise<ProjectVersion[]> {
+    const db = await openDatabase()
+    const index = db.transaction(STORES.versions, "readonly").objectStore(STORES.versions).index("projectId")
+    const versions = (await requestToPromise(index.getAll(projectId))) as ProjectVersion[]
+    return versions.sort((a, b) => b.createdAt - a.createdAt)
+  }
+
+  static async get(id: string): Promise<ProjectVersion | null> {
+    const version = await withStore<ProjectVersion | undefined>(STORES.versions, "readonly", (store) => store.get(id))
+    return version ?? null
+  }
+
+  private static async put(version: ProjectVersion): Promise<ProjectVersion> {
+    await withStore(STORES.versions, "readwrite", (store) => store.put(version))
+    return version
+  }
+
+  static async create(
+    projectId: string,
+    document: EditorDocument,
+    options: { kind?: VersionKind; label?: string | null; thumbnail?: Blob | null } = {},
+  ): Promise<ProjectVersion> {
+    return this.put({
+      id: createVersionId(),
+      projectId,
+      createdAt: Date.now(),
+      label: options.label?.trim() || null,
+      kind: options.kind ?? "manual",
+      document: {
+        imageData: AssetStore.toPersistedImageData(document.imageData),
+        textLayers: document.textLayers,
+        customFonts: toPersistedFonts(document.customFonts),
+        guides: document.guides,
+        grid: document.grid,
+      },
+      thumbnail: options.thumbnail ?? null,
+    })
+  }
+
+  // Take an automatic version if enough time has passed and the content changed
+  static async recordAutoVersion(
+    projectId: string,
+    document: EditorDocument,
+    thumbnail: Blob | null,
+  ): Promise<ProjectVersion | null> {
+    const versions = await this.list(projectId)
+    const [latest] = versions
+    if (latest && Date.now() - latest.createdAt < AUTO_VERSION_INTERVAL) return null
+
+    const candidate = {
+      imageData: AssetStore.toPersistedImageData(document.imageData),
+      textLayers: document.textLayers,
+      customFonts: [],
+      guides: document.guides,
+      grid: document.grid,
+    }
+    if (latest && sameContent(latest.document, candidate)) return null
+    if (!document.imageData && document.textLayers.length === 0) return null
+
+    const version = await this.create(projectId, document, { kind: "auto", thumbnail })
+
+    const autoVersions = versions.filter((existing) => existing.kind === "auto")
+    const excess = autoVersions.slice(MAX_AUTO_VERSIONS - 1)
+    await Promise.all(excess.map((existing) => this.delete(existing.id)))
+
+    return version
+  }
+
+  static async setLabel(id: string, label: string): Promise<ProjectVersion | null> {
+    const version = await this.get(id)
+    if (!version) return null
+    // Labelled versions are worth keeping, so they are no longer pruned
+    return this.put({ ...version, label: label.trim() || null, kind: label.trim() ? "manual" : version.kind })
+  }
+
+  static async delete(id: string): Promise<void> {
+    await withStore(STORES.versions, "readwrite", (store) => store.delete(id))
+  }
+
+  static async deleteForProject(projectId: string): Promise<void> {
+    const versions = await this.list(projectId)
+    await Promise.all(versions.map((version) => this.delete(version.id)))
+  }
+}
@@ -0,0 +1,31 @@
+import { describe, expect, it } from "vitest"
+import { clampScale, MAX_ZOOM, MIN_ZOOM, presetViewport, screenToDocument, zoomAt } from "./viewport"
+
+describe("viewport", () => {
+  it("maps screen pixels back to document coordinates", () => {
+    expect(screenToDocument({ scale: 2, x: 10, y: -20 }, { x: 110, y: 80 })).toEqual({ x: 50, y: 50 })
+  })
+
+  it("keeps the document point under the anchor while zooming", () => {
+    const viewport = { scale: 0.5, x: 40, y: 30 }
+    const anchor = { x: 300, y: 200 }
+    const zoomed = zoomAt(viewport, 2, anchor)
+
+    expect(zoomed.scale).toBe(2)
+    expect(screenToDocument(zoomed, anchor)).toEqual(screenToDocument(viewport, anchor))
+  })
+
+  it("fits or fills the view, centred, inside the padding", () => {
+    const content = { width: 1000, height: 500 }
+    const container = { width: 564, height: 564 }
+
+    expect(presetViewport("fit", content, container, 1)).toEqual({ scale: 0.5, x: 32, y: 157 })
+    expect(presetViewport("fill", content, container, 1)).toEqual({ scale: 1, x: -218, y: 32 })
+    expect(presetViewport("actual", content, container, 1)).toEqual({ scale: 1, x: -218, y: 32 })
+  })
+
+  it("limits zoom in image pixels", () => {
+    expect(clampScale(1000, 1)).toBe(MAX_ZOOM)
+    expect(clampScale(0, 2)).toBe(MIN_ZOOM * 2)
+  })
+})
@@ -0,0 +1,72 @@
+// Maps document coordinates to screen pixels: screen = document * scale + (x, y)
+export interface Viewport {
+  scale: number
+  x: number
+  y: number
+}
+
+export interface Size {
+  width: number
+  height: number
+}
+
+export type ZoomPreset = "fit" | "fill" | "actual"
+
+export const IDENTITY_VIEWPORT: Viewport = { scale: 1, x: 0, y: 0 }
+
+// Zoom limits, as screen pixels per image pixel
+export const MIN_ZOOM = 0.02
+export const MAX_ZOOM = 32
+
+// Space kept around the document when fitting it into the view
+const FIT_PADDING = 32
+
+// Multiplier applied per zoom-in/zoom-out step
+export const ZOOM_STEP = 1.25
+
+// `imagePixelsPerUnit` converts document units to image pixels, so zoom can be
+// reported and limited in image pixels whatever unit the document uses
+export const getZoom = (viewport: Viewport, imagePixelsPerUnit: number): number => viewport.scale / imagePixelsPerUnit
+
+export const clampScale = (scale: number, imagePixelsPerUnit: number): number =>
+  Math.min(MAX_ZOOM * imagePixelsPerUnit, Math.max(MIN_ZOOM * imagePixelsPerUnit, scale))
+
+// Center a document of `content` units in the view at the given scale
+const centered = (content: Size, container: Size, scale: number): Viewport => ({
+  scale,
+  x: (container.width - content.width * scale) / 2,
+  y: (container.height - content.height * scale) / 2,
+})
+
+export const presetViewport = (
+  preset: ZoomPreset,
+  content: Size,
+  container: Size,
+  imagePixelsPerUnit: number,
+): Viewport => {
+  if (preset === "actual") {
+    return centered(content, container, imagePixelsPerUnit)
+  }
+
+  const availableWidth = Math.max(1, container.width - FIT_PADDING * 2)
+  const availableHeight = Math.max(1, container.height - FIT_PADDING * 2)
+  const scaleX = availableWidth / content.width
+  const scaleY = availableHeight / content.height
+  const scale = preset === "fit" ? Math.min(scaleX, scaleY) : Math.max(scaleX, scaleY)
+  return centered(content, container, clampScale(scale, imagePixelsPerUnit))
+}
+
+// Change the scale while keeping the document point under `anchor` (screen pixels) in place
+export const zoomAt = (viewport: Viewport, scale: number, anchor: { x: number; y: number }): Viewport => {
+  const ratio = scale / viewport.scale
+  return {
+    scale,
+    x: anchor.x - (anchor.x - viewport.x) * ratio,
+    y: anchor.y - (anchor.y - viewport.y) * ratio,
+  }
+}
+
+export const screenToDocument = (viewport: Viewport, point: { x: number; y: number }) => ({
+  x: (point.x - viewport.x) / viewport.scale,
+  y: (point.y - viewport.y) / viewport.scale,
+})